@@ -4,25 +4,43 @@
  * including data fetching, user interactions, and communication between child components.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Header } from './components/Header';
+import { Watchlist } from './components/Watchlist';
+import { MarketOverview } from './components/MarketOverview';
 import { CryptoCard } from './components/CryptoCard';
 import { ChatPanel } from './components/ChatPanel';
 import { WalletModal } from './components/WalletModal';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
 import { AlertModal } from './components/AlertModal';
 import { ToastNotification } from './components/ToastNotification';
 import { NewsFeed } from './components/NewsFeed';
 import { AnalysisPanel } from './components/AnalysisPanel';
+import { CoinDetailsPanel } from './components/CoinDetailsPanel';
 import { Sidebar } from './components/Sidebar';
-import { fetchCoinsData, subscribeToConnectionStatus, stopAllConnections, subscribeToPriceUpdates, manualReconnect, ConnectionStatus } from './services/coingeckoService';
-import { getChatSession, removeChatSession, generateGroundedResponse } from './services/geminiService';
-import type { CoinData, Session, ConnectedWallets, WalletType, Alert, Notification, Message } from './types';
+import { fetchCoinsData, subscribeToConnectionStatus, stopAllConnections, subscribeToPriceUpdates, manualReconnect, setPollingPriorities, setQuoteCurrency, getQuoteCurrency, setSimulationMode, ConnectionStatus } from './services/coingeckoService';
+import { DEFAULT_QUOTE_CURRENCY, EXCHANGE_RATES_TTL_MS, isQuoteCurrency, formatPrice, fetchExchangeRates, convertPrice } from './services/currencyService';
+import type { ExchangeRates } from './services/currencyService';
+import { streamChatResponse, removeChatSession, streamGroundedResponse, getLLMProvider, DEFAULT_CHAT_MODEL } from './services/aiService';
+import { getActivePath, getBranchInfo, getLatestDescendantId } from './services/chatBranches';
+import type { CoinData, CoinSearchResult, Session, ConnectedWallets, WalletType, Alert, Notification, Message, QuoteCurrency, IndicatorType, ChartDrawing, ToolCall, AnalysisReport, ChatModel, GroundingChunk } from './types';
 
 type Theme = 'light' | 'dark';
 
+/** The views that can fill the main panel. */
+type MainView = 'chat' | 'markets';
+
+/** The coins shown on a fresh install, before the user has customised their watchlist. */
+const DEFAULT_WATCHLIST = ['bitcoin', 'ethereum'];
+
+/** The most analysis reports kept per coin; the oldest are dropped first. */
+const MAX_REPORTS_PER_COIN = 20;
+
 interface ConnectionState {
   status: ConnectionStatus;
   trippedUntil: number;
+  provider: string | null;
+  pollIntervalMs: number | null;
 }
 
 /**
@@ -32,19 +50,29 @@ interface ConnectionState {
 const App: React.FC = () => {
   // --- STATE MANAGEMENT ---
   const [theme, setTheme] = useState<Theme>('dark');
-  const [coinData, setCoinData] = useState<CoinData | null>(null);
-  const [openPrice24h, setOpenPrice24h] = useState<number | null>(null); // For real-time % change calculation
+  const [quoteCurrency, setQuoteCurrencyState] = useState<QuoteCurrency>(DEFAULT_QUOTE_CURRENCY);
+  const [watchlist, setWatchlist] = useState<string[]>([]);
+  const [coinsData, setCoinsData] = useState<Record<string, CoinData>>({});
+  const [selectedCoinId, setSelectedCoinId] = useState<string | null>(null);
+  const [mainView, setMainView] = useState<MainView>('chat');
+  const [overviewCoinId, setOverviewCoinId] = useState<string | null>(null);
+  const [chartIndicators, setChartIndicators] = useState<Record<string, IndicatorType[]>>({});
+  const [chartDrawings, setChartDrawings] = useState<Record<string, Record<string, ChartDrawing[]>>>({});
+  const [analysisReports, setAnalysisReports] = useState<Record<string, AnalysisReport[]>>({});
+  const openPrices24hRef = useRef<Record<string, number>>({}); // For real-time % change calculation
   const [isLoadingCoinData, setIsLoadingCoinData] = useState(true);
   const [coinDataError, setCoinDataError] = useState<string | null>(null);
-  const [connectionState, setConnectionState] = useState<ConnectionState>({ status: 'polling', trippedUntil: 0 });
+  const [connectionState, setConnectionState] = useState<ConnectionState>({ status: 'polling', trippedUntil: 0, provider: null, pollIntervalMs: null });
   
   // Chat State
   const [sessions, setSessions] = useState<Session[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
+  const aiAbortControllerRef = useRef<AbortController | null>(null); // Stops the response being streamed
 
   // Modals and Sidebar State
   const [isWalletModalOpen, setIsWalletModalOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
   const [isAlertModalOpen, setIsAlertModalOpen] = useState(false);
   const [alertModalCoin, setAlertModalCoin] = useState<{ id: string, name: string, price: number } | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -52,11 +80,18 @@ const App: React.FC = () => {
   // Wallets & Alerts & Notifications
   const [connectedWallets, setConnectedWallets] = useState<ConnectedWallets>({ metamask: null, binance: null, telegram: null, discord: null });
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates | null>(null); // For alerts in other currencies
   const [notifications, setNotifications] = useState<Notification[]>([]);
   
   // --- DERIVED STATE ---
   const activeSession = sessions.find(s => s.id === activeSessionId);
-  const activeMessages = activeSession?.messages ?? [];
+  const activeMessages = activeSession ? getActivePath(activeSession) : [];
+  const activeBranches = activeSession ? getBranchInfo(activeSession) : {};
+  const watchlistCoins = watchlist.map(id => coinsData[id]).filter((coin): coin is CoinData => !!coin);
+  const selectedCoin = (selectedCoinId && coinsData[selectedCoinId]) || watchlistCoins[0] || null;
+  const overviewCoin = overviewCoinId ? coinsData[overviewCoinId] ?? null : null;
+  // The coin opened from the market overview is tracked alongside the watchlist, so its card stays live.
+  const trackedCoinIds = overviewCoinId && !watchlist.includes(overviewCoinId) ? [...watchlist, overviewCoinId] : watchlist;
 
   // --- EFFECTS ---
 
@@ -67,6 +102,13 @@ const App: React.FC = () => {
 
   // Load data from localStorage on initial component mount.
   useEffect(() => {
+    // `?simulate` (or `?simulate=<seed>`) runs the app against the deterministic market simulator.
+    const simulateParam = new URLSearchParams(window.location.search).get('simulate');
+    if (simulateParam !== null) {
+        const seed = parseInt(simulateParam, 10);
+        setSimulationMode(true, isNaN(seed) ? undefined : { seed });
+    }
+
     try {
         const savedSessions = localStorage.getItem('chatSessions');
         if (savedSessions) setSessions(JSON.parse(savedSessions));
@@ -78,7 +120,23 @@ const App: React.FC = () => {
         if (savedWallets) setConnectedWallets(JSON.parse(savedWallets));
         
         const savedAlerts = localStorage.getItem('priceAlerts');
-        if (savedAlerts) setAlerts(JSON.parse(savedAlerts));
+        // Alerts saved before quote currencies were selectable were all set in USD.
+        if (savedAlerts) setAlerts(JSON.parse(savedAlerts).map((a: Alert) => ({ ...a, currency: a.currency ?? DEFAULT_QUOTE_CURRENCY })));
+
+        const savedIndicators = localStorage.getItem('chartIndicators');
+        if (savedIndicators) setChartIndicators(JSON.parse(savedIndicators));
+
+        const savedDrawings = localStorage.getItem('chartDrawings');
+        if (savedDrawings) setChartDrawings(JSON.parse(savedDrawings));
+
+        const savedReports = localStorage.getItem('analysisReports');
+        if (savedReports) setAnalysisReports(JSON.parse(savedReports));
+
+        const savedQuoteCurrency = localStorage.getItem('quoteCurrency');
+        if (isQuoteCurrency(savedQuoteCurrency)) setQuoteCurrencyState(savedQuoteCurrency);
+
+        const savedWatchlist = localStorage.getItem('watchlist');
+        setWatchlist(savedWatchlist ? JSON.parse(savedWatchlist) : DEFAULT_WATCHLIST);
 
     } catch (error) {
         console.error("Failed to load data from localStorage", error);
@@ -92,26 +150,91 @@ const App: React.FC = () => {
         if (activeSessionId) localStorage.setItem('activeSessionId', activeSessionId);
         localStorage.setItem('connectedWallets', JSON.stringify(connectedWallets));
         localStorage.setItem('priceAlerts', JSON.stringify(alerts));
+        localStorage.setItem('watchlist', JSON.stringify(watchlist));
+        localStorage.setItem('quoteCurrency', quoteCurrency);
+        localStorage.setItem('chartIndicators', JSON.stringify(chartIndicators));
+        localStorage.setItem('chartDrawings', JSON.stringify(chartDrawings));
+        localStorage.setItem('analysisReports', JSON.stringify(analysisReports));
     } catch (error) {
         console.error("Failed to save data to localStorage", error);
     }
-  }, [sessions, activeSessionId, connectedWallets, alerts]);
+  }, [sessions, activeSessionId, connectedWallets, alerts, watchlist, quoteCurrency, chartIndicators, chartDrawings, analysisReports]);
+
+  // Keep the data service's polling and streaming quoted in the selected currency.
+  useEffect(() => {
+    setQuoteCurrency(quoteCurrency);
+  }, [quoteCurrency]);
+
+
+  // Subscribe to connection status changes from the data service.
+  useEffect(() => {
+    const unsubscribeStatus = subscribeToConnectionStatus((newState) => {
+        setConnectionState(prevState => {
+            if (newState.status !== prevState.status) {
+                if (newState.status === 'disconnected') {
+                    addNotification('Data connection lost. Displaying cached data.', 'error');
+                } else if (newState.status === 'streaming') {
+                    addNotification('Live price stream connected.', 'success');
+                } else if (newState.status === 'polling' && prevState.status === 'streaming') {
+                    addNotification('Live price stream lost. Falling back to polling.', 'info');
+                } else if (newState.status === 'polling') {
+                    addNotification('Data connection restored. Live updates resumed.', 'success');
+                } else if (newState.status === 'suspended') {
+                    addNotification('Connection issues detected. Pausing live data to recover.', 'info');
+                }
+            }
+            return newState;
+        });
+    });
+
+    // Cleanup subscriptions on component unmount.
+    return () => {
+        unsubscribeStatus();
+        stopAllConnections();
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // A stable key for the tracked coins so effects only re-run when the set or order of coins changes.
+  const trackedCoinsKey = trackedCoinIds.join(',');
 
-  // Effect for fetching initial coin data and subscribing to live updates.
+  // Effect for fetching coin data for every tracked coin in a single batched request.
   const loadCoinData = useCallback(async () => {
+    const coinIds = trackedCoinsKey ? trackedCoinsKey.split(',') : [];
+    if (coinIds.length === 0) {
+      setIsLoadingCoinData(false);
+      return;
+    }
+    /**
+     * Stores fetched coins and their 24h opening prices.
+     * @param {CoinData[]} data - The coins to store.
+     */
+    const applyCoinData = (data: CoinData[]) => {
+      setCoinsData(prev => {
+        const next = { ...prev };
+        data.forEach(coin => {
+          next[coin.id] = coin;
+          // Calculate and store the 24h opening price to allow real-time % change updates
+          if (coin.current_price && coin.price_change_percentage_24h != null) {
+              openPrices24hRef.current[coin.id] = coin.current_price / (1 + coin.price_change_percentage_24h / 100);
+          } else {
+              delete openPrices24hRef.current[coin.id];
+          }
+        });
+        return next;
+      });
+    };
     try {
       setIsLoadingCoinData(true);
       setCoinDataError(null);
-      const data = await fetchCoinsData(['bitcoin']); // Fetching only Bitcoin for this example
+      const data = await fetchCoinsData(coinIds, quoteCurrency, (revalidated) => {
+        // Stale cached data was served first; swap in the live data once it arrives.
+        if (getQuoteCurrency() === quoteCurrency) applyCoinData(revalidated);
+      });
+      // Ignore responses quoted in a currency the user has since switched away from.
+      if (getQuoteCurrency() !== quoteCurrency) return;
       if (data && data.length > 0) {
-        setCoinData(data[0]);
-        // Calculate and store the 24h opening price to allow real-time % change updates
-        if (data[0].current_price && data[0].price_change_percentage_24h != null) {
-            const openPrice = data[0].current_price / (1 + data[0].price_change_percentage_24h / 100);
-            setOpenPrice24h(openPrice);
-        } else {
-            setOpenPrice24h(null);
-        }
+        applyCoinData(data);
       } else {
         throw new Error("No coin data received.");
       }
@@ -120,72 +243,109 @@ const App: React.FC = () => {
     } finally {
       setIsLoadingCoinData(false);
     }
-  }, []);
+  }, [trackedCoinsKey, quoteCurrency]);
 
   useEffect(() => {
     loadCoinData();
-    
-    // Subscribe to connection status changes from the data service.
-    const unsubscribeStatus = subscribeToConnectionStatus((newState) => {
-        setConnectionState(prevState => {
-            if (newState.status !== prevState.status) {
-                if (newState.status === 'disconnected') {
-                    addNotification('Data connection lost. Displaying cached data.', 'error');
-                } else if (newState.status === 'polling' && prevState.status !== 'polling') {
-                    addNotification('Data connection restored. Live updates resumed.', 'success');
-                } else if (newState.status === 'suspended') {
-                    addNotification('Connection issues detected. Pausing live data to recover.', 'info');
-                }
-            }
-            return newState;
-        });
-    });
-    
-    // Subscribe to real-time price updates for Bitcoin.
-    const unsubscribePrice = subscribeToPriceUpdates('bitcoin', (newPrice) => {
-        setCoinData(prevData => {
+
+    // Subscribe to real-time price updates for every tracked coin.
+    // All subscriptions share the service's single batched poll.
+    const coinIds = trackedCoinsKey ? trackedCoinsKey.split(',') : [];
+    const unsubscribers = coinIds.map(coinId => subscribeToPriceUpdates(coinId, (newPrice) => {
+        setCoinsData(prev => {
+            const prevData = prev[coinId];
             if (prevData && prevData.current_price !== newPrice) {
                 let newPercentageChange = prevData.price_change_percentage_24h;
                 // Recalculate 24h percentage change if we have the opening price
+                const openPrice24h = openPrices24hRef.current[coinId];
                 if (openPrice24h) {
                     newPercentageChange = ((newPrice / openPrice24h) - 1) * 100;
                 }
-                return { 
-                    ...prevData, 
-                    current_price: newPrice,
-                    price_change_percentage_24h: newPercentageChange
+                return {
+                    ...prev,
+                    [coinId]: {
+                        ...prevData,
+                        current_price: newPrice,
+                        price_change_percentage_24h: newPercentageChange,
+                        // A live tick supersedes any cached or mock label.
+                        freshness: undefined
+                    }
                 };
             }
-            return prevData;
+            return prev;
         });
+    }));
+
+    return () => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [loadCoinData, trackedCoinsKey]);
+
+  // A stable key for the coins with alerts, so the effect below only re-runs when that set changes.
+  const alertCoinsKey = [...new Set(alerts.map(a => a.coinId))].sort().join(',');
+  const focusedCoinsKey = [selectedCoin?.id, overviewCoinId].filter(Boolean).join(',');
+
+  // Effect to poll coins with alerts and the focused cards faster than the rest of the watchlist.
+  useEffect(() => {
+    setPollingPriorities({
+        alertCoinIds: alertCoinsKey ? alertCoinsKey.split(',') : [],
+        focusedCoinIds: focusedCoinsKey ? focusedCoinsKey.split(',') : [],
     });
+  }, [alertCoinsKey, focusedCoinsKey]);
 
-    // Cleanup subscriptions on component unmount.
+  // A stable key for the set of currencies that alerts were created in.
+  const alertCurrenciesKey = [...new Set(alerts.map(a => a.currency))].sort().join(',');
+
+  // Effect to keep exchange rates fresh while any alert is in a currency other than the quote currency.
+  useEffect(() => {
+    const needsRates = alertCurrenciesKey.split(',').some(currency => currency && currency !== quoteCurrency);
+    if (!needsRates) return;
+
+    let isCancelled = false;
+    const loadRates = async () => {
+        const rates = await fetchExchangeRates();
+        if (!isCancelled && rates) setExchangeRates(rates);
+    };
+    loadRates();
+    const intervalId = setInterval(loadRates, EXCHANGE_RATES_TTL_MS);
     return () => {
-        unsubscribeStatus();
-        unsubscribePrice();
-        stopAllConnections();
+        isCancelled = true;
+        clearInterval(intervalId);
     };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [loadCoinData]);
+  }, [alertCurrenciesKey, quoteCurrency]);
+
+  /**
+   * Returns a coin's current price expressed in the currency an alert was created in.
+   * @param {Alert} alert - The alert to price.
+   * @returns {number | null} The price, or null if the coin's price or the exchange rates are unavailable.
+   */
+  const getPriceInAlertCurrency = (alert: Alert): number | null => {
+      const coin = coinsData[alert.coinId];
+      if (!coin) return null;
+      if (alert.currency === quoteCurrency) return coin.current_price;
+      return exchangeRates ? convertPrice(coin.current_price, quoteCurrency, alert.currency, exchangeRates) : null;
+  };
 
   // Effect to check if any price alerts have been triggered by price updates.
   useEffect(() => {
-      if (!coinData) return;
       alerts.forEach(alert => {
-          if (alert.coinId === coinData.id) {
-              const hasHitTarget = (coinData.current_price >= alert.targetPrice && (alert as any).lastPrice < alert.targetPrice) || 
-                                   (coinData.current_price <= alert.targetPrice && (alert as any).lastPrice > alert.targetPrice);
+          const price = getPriceInAlertCurrency(alert);
+          if (price !== null) {
+              const hasHitTarget = (price >= alert.targetPrice && (alert as any).lastPrice < alert.targetPrice) || 
+                                   (price <= alert.targetPrice && (alert as any).lastPrice > alert.targetPrice);
               if (hasHitTarget) {
-                  addNotification(`${coinData.symbol.toUpperCase()} has hit your target price of $${alert.targetPrice.toLocaleString()}`, 'info');
+                  addNotification(`${alert.coinName} has hit your target price of ${formatPrice(alert.targetPrice, alert.currency)}`, 'info');
                   setAlerts(prev => prev.filter(a => a.id !== alert.id));
               }
           }
       });
-      // Store last price on alert object to prevent re-triggering
-      setAlerts(prev => prev.map(a => a.coinId === coinData.id ? {...a, lastPrice: coinData.current_price} : a));
+      // Store last price (in the alert's own currency) on alert object to prevent re-triggering
+      setAlerts(prev => prev.map(a => {
+          const price = getPriceInAlertCurrency(a);
+          return price !== null ? {...a, lastPrice: price} : a;
+      }));
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [coinData]);
+  }, [coinsData, exchangeRates]);
 
 
   // --- HANDLERS ---
@@ -208,29 +368,40 @@ const App: React.FC = () => {
   };
 
   /**
-   * Updates the messages array for a specific session.
+   * Adds a message to a session and shows the branch it ends.
    * @param {string} sessionId - The ID of the session to update.
-   * @param {Message[]} newMessages - The new array of messages for the session.
+   * @param {Message} message - The new message.
    */
-  const updateMessages = (sessionId: string, newMessages: Message[]) => {
-      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: newMessages } : s));
+  const appendMessage = (sessionId: string, message: Message) => {
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...s.messages, message], activeMessageId: message.id } : s));
+  };
+
+  /**
+   * Replaces a message of a session, e.g. as its response streams in.
+   * @param {string} sessionId - The ID of the session to update.
+   * @param {Message} message - The updated message.
+   */
+  const replaceMessage = (sessionId: string, message: Message) => {
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: s.messages.map(m => m.id === message.id ? message : m) } : s));
   };
   
   /**
    * Creates a new, empty chat session and sets it as the active one.
-   * @returns {string} The ID of the newly created session.
+   * @param {ChatModel} [model] - The model the session talks to; defaults to the default model.
+   * @returns {Session} The newly created session.
    */
-  const handleNewChat = () => {
+  const handleNewChat = (model?: ChatModel): Session => {
     const newId = Date.now().toString();
     const newSession: Session = {
       id: newId,
       title: 'New Chat Session',
       timestamp: Date.now(),
       messages: [],
+      ...(model && { model }),
     };
     setSessions(prev => [newSession, ...prev]);
     setActiveSessionId(newId);
-    return newId;
+    return newSession;
   };
   
   /**
@@ -246,6 +417,19 @@ const App: React.FC = () => {
       removeChatSession(id); // Clean up the backend chat instance
   };
 
+  /**
+   * Switches the active session to another model, creating a session if none is active.
+   * The session's next message starts a new conversation with that model.
+   * @param {ChatModel} model - The model to switch to.
+   */
+  const handleSessionModelChange = (model: ChatModel) => {
+    if (!activeSessionId) {
+      handleNewChat(model);
+      return;
+    }
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, model } : s));
+  };
+
   /**
    * Handles sending a message from the main chat panel.
    * If no session is active, it creates one first.
@@ -253,91 +437,159 @@ const App: React.FC = () => {
    * @param {boolean} useWebSearch - Whether to use grounded web search for the response.
    */
   const handleSendMessage = async (messageText: string, useWebSearch: boolean) => {
-    let currentSessionId = activeSessionId;
-    if (!currentSessionId) {
-        currentSessionId = handleNewChat();
-    }
-    
-    sendMessageToSession(currentSessionId, messageText, useWebSearch);
+    // A new session is not in `sessions` until the next render, so it is passed on directly.
+    const currentSession = activeSession ?? handleNewChat();
+    sendMessageToSession(currentSession, messageText, useWebSearch);
   };
   
   /**
    * Sends a message to a specific chat session and handles the AI response.
-   * This function manages the full request/response lifecycle, including streaming.
-   * @param {string} sessionId - The ID of the session to send the message to.
+   * @param {Session} currentSession - The session to send the message to.
    * @param {string} messageText - The user's message text.
    * @param {boolean} useWebSearch - Whether to use web search.
+   * @param {Message[]} [previousMessages] - The messages the new one follows; defaults to the branch being shown.
+   *   Passing an earlier part of the branch forks the conversation.
    */
-  const sendMessageToSession = async (sessionId: string, messageText: string, useWebSearch: boolean) => {
-    const userMessage: Message = { id: Date.now().toString(), text: messageText, sender: 'user' };
-    
-    const currentSession = sessions.find(s => s.id === sessionId);
-    if (!currentSession) return;
-
-    const updatedMessages = [...currentSession.messages, userMessage];
-    updateMessages(sessionId, updatedMessages);
+  const sendMessageToSession = async (currentSession: Session, messageText: string, useWebSearch: boolean, previousMessages?: Message[]) => {
+    const sessionId = currentSession.id;
+    const history = previousMessages ?? getActivePath(currentSession);
+    const userMessage: Message = {
+        id: Date.now().toString(),
+        text: messageText,
+        sender: 'user',
+        parentId: history[history.length - 1]?.id ?? null,
+    };
+    appendMessage(sessionId, userMessage);
+    await streamAiResponse(currentSession, history, userMessage, useWebSearch);
+
+    // If it's the first message pair in a session, set the session title.
+    if (history.length === 0) {
+        const newTitle = messageText.length > 30 ? messageText.substring(0, 27) + '...' : messageText;
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title: newTitle } : s));
+    }
+  };
+
+  /**
+   * Streams the AI's response to a user message into a new message, which can be stopped while it streams.
+   * This function manages the full request/response lifecycle.
+   * @param {Session} session - The session the message belongs to.
+   * @param {Message[]} history - The messages before the user message, on its branch.
+   * @param {Message} userMessage - The message to respond to.
+   * @param {boolean} useWebSearch - Whether to use web search.
+   */
+  const streamAiResponse = async (session: Session, history: Message[], userMessage: Message, useWebSearch: boolean) => {
+    const sessionId = session.id;
+    const model = session.model ?? DEFAULT_CHAT_MODEL;
+    const abortController = new AbortController();
+    aiAbortControllerRef.current = abortController;
     setIsAiLoading(true);
 
     const aiMessageId = (Date.now() + 1).toString();
+    let aiResponseText = '';
+    let toolCalls: ToolCall[] = [];
+    let sources: GroundingChunk[] = [];
+
+    /**
+     * Builds the response message from the text, tool calls and sources received so far.
+     * @param {string} cursor - A suffix shown while the response is still streaming.
+     * @returns {Message} The response message.
+     */
+    const buildAiMessage = (cursor: string): Message => ({
+        id: aiMessageId,
+        text: aiResponseText + cursor,
+        sender: 'ai',
+        parentId: userMessage.id,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...(sources.length > 0 && { sources }),
+    });
+
+    const handleText = (text: string) => {
+        aiResponseText += text;
+        replaceMessage(sessionId, buildAiMessage('▌'));
+    };
+
+    // Add a placeholder message first
+    appendMessage(sessionId, buildAiMessage('▌'));
 
     try {
-        if (useWebSearch) {
-             const response = await generateGroundedResponse(messageText);
-             const aiMessage: Message = {
-                 id: aiMessageId,
-                 text: response.text,
-                 sender: 'ai',
-                 sources: response.sources,
-             };
-             updateMessages(sessionId, [...updatedMessages, aiMessage]);
+        // Providers that cannot search the web answer with the market-data tools instead.
+        if (useWebSearch && getLLMProvider(model.provider).supportsGrounding) {
+            const response = await streamGroundedResponse(userMessage.text, model, handleText, abortController.signal);
+            sources = response.sources;
         } else {
-            const chat = getChatSession(sessionId);
-            const stream = await chat.sendMessageStream({ message: messageText });
-
-            let aiResponseText = '';
-            const aiMessage: Message = { id: aiMessageId, text: '▌', sender: 'ai' };
-            // Add a placeholder message first
-            updateMessages(sessionId, [...updatedMessages, aiMessage]);
-
-            for await (const chunk of stream) {
-                aiResponseText += chunk.text;
-                const streamingAiMessage: Message = { id: aiMessageId, text: aiResponseText + '▌', sender: 'ai' };
-                // Update only the streaming message
-                setSessions(prev => prev.map(s => s.id === sessionId 
-                    ? { ...s, messages: s.messages.map(m => m.id === aiMessageId ? streamingAiMessage : m) } 
-                    : s
-                ));
-            }
-            
-            const finalAiMessage: Message = { id: aiMessageId, text: aiResponseText, sender: 'ai' };
-            // Final update to remove cursor
-            setSessions(prev => prev.map(s => s.id === sessionId 
-                ? { ...s, messages: s.messages.map(m => m.id === aiMessageId ? finalAiMessage : m) }
-                : s
-            ));
-        }
-
-        const sessionAfterMessage = sessions.find(s => s.id === sessionId);
-        // If it's the first message pair in a session, set the session title.
-        if (sessionAfterMessage && sessionAfterMessage.messages.length <= 2) {
-            const newTitle = messageText.length > 30 ? messageText.substring(0, 27) + '...' : messageText;
-            setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title: newTitle } : s));
+            await streamChatResponse(
+                { sessionId, model, previousMessages: history, message: userMessage.text, responseId: aiMessageId, signal: abortController.signal },
+                {
+                    onText: handleText,
+                    onToolCall: (call) => {
+                        toolCalls = toolCalls.some(c => c.id === call.id)
+                            ? toolCalls.map(c => c.id === call.id ? call : c)
+                            : [...toolCalls, call];
+                        replaceMessage(sessionId, buildAiMessage('▌'));
+                    },
+                }
+            );
         }
 
+        // Final update to remove cursor
+        replaceMessage(sessionId, buildAiMessage(''));
     } catch (error) {
-        console.error("Error sending message to AI:", error);
-        const errorMessage: Message = { id: aiMessageId, text: "Sorry, I couldn't get a response. Please check the console.", sender: 'ai' };
-        setSessions(prev => prev.map(s => {
-          if (s.id !== sessionId) return s;
-          const newMessages = s.messages.find(m => m.id === aiMessageId) 
-              ? s.messages.map(m => m.id === aiMessageId ? errorMessage : m)
-              : [...s.messages, errorMessage];
-          return { ...s, messages: newMessages };
-        }));
+        if (abortController.signal.aborted) {
+            // Keep what arrived before the user stopped the response.
+            toolCalls = toolCalls.map(c => c.status === 'running' ? { ...c, status: 'error', error: 'Stopped.' } : c);
+            replaceMessage(sessionId, { ...buildAiMessage(''), isStopped: true });
+        } else {
+            console.error("Error sending message to AI:", error);
+            replaceMessage(sessionId, { id: aiMessageId, text: "Sorry, I couldn't get a response. Please check the console.", sender: 'ai', parentId: userMessage.id, isError: true });
+        }
     } finally {
+        if (aiAbortControllerRef.current === abortController) aiAbortControllerRef.current = null;
         setIsAiLoading(false);
     }
-  }
+  };
+
+  /**
+   * Stops the response being streamed, keeping what has arrived so far.
+   */
+  const handleStopResponse = () => {
+      aiAbortControllerRef.current?.abort();
+  };
+
+  /**
+   * Asks for a new response to the question an AI message answered, as a new branch alongside it.
+   * Responses that used web search are regenerated with web search.
+   * @param {string} messageId - The ID of the AI message to regenerate.
+   */
+  const handleRegenerateResponse = (messageId: string) => {
+      if (!activeSession || isAiLoading) return;
+      const path = getActivePath(activeSession);
+      const index = path.findIndex(m => m.id === messageId);
+      const userMessage = path[index - 1];
+      if (index < 1 || userMessage.sender !== 'user') return;
+      streamAiResponse(activeSession, path.slice(0, index - 1), userMessage, !!path[index].sources?.length);
+  };
+
+  /**
+   * Sends an edited copy of a past user message, forking the conversation into a new branch from that point.
+   * @param {string} messageId - The ID of the user message that was edited.
+   * @param {string} text - The edited text.
+   */
+  const handleEditMessage = (messageId: string, text: string) => {
+      if (!activeSession || isAiLoading) return;
+      const path = getActivePath(activeSession);
+      const index = path.findIndex(m => m.id === messageId);
+      if (index === -1) return;
+      sendMessageToSession(activeSession, text, !!path[index + 1]?.sources?.length, path.slice(0, index));
+  };
+
+  /**
+   * Shows another branch of the active session.
+   * @param {string} messageId - The ID of the message the branch starts with; its latest continuation is shown.
+   */
+  const handleSelectBranch = (messageId: string) => {
+      if (!activeSessionId || isAiLoading) return;
+      setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, activeMessageId: getLatestDescendantId(s.messages, messageId) } : s));
+  };
 
   // Wallet Handlers
   const handleConnectWallet = (wallet: WalletType) => {
@@ -364,10 +616,22 @@ const App: React.FC = () => {
       setIsAlertModalOpen(true);
   };
   
+  const handleChangeAlertModalCoin = async (coin: CoinSearchResult) => {
+      const knownPrice = coinsData[coin.id]?.current_price;
+      setAlertModalCoin({ id: coin.id, name: coin.name, price: knownPrice ?? 0 });
+      if (knownPrice === undefined) {
+          // The coin is not on the watchlist, so fetch its current price for reference.
+          const [data] = await fetchCoinsData([coin.id]);
+          if (data && data.id === coin.id) {
+              setAlertModalCoin(prev => prev && prev.id === coin.id ? { ...prev, price: data.current_price } : prev);
+          }
+      }
+  };
+
   const handleAddAlert = (alert: Omit<Alert, 'id' | 'createdAt'>) => {
       const newAlert: Alert = { ...alert, id: Date.now().toString(), createdAt: Date.now() };
       setAlerts(prev => [...prev, newAlert]);
-      addNotification(`Alert set for ${alert.coinName} at $${alert.targetPrice}`, 'success');
+      addNotification(`Alert set for ${alert.coinName} at ${formatPrice(alert.targetPrice, alert.currency)}`, 'success');
       setIsAlertModalOpen(false);
   };
   
@@ -376,6 +640,83 @@ const App: React.FC = () => {
       addNotification('Alert removed.', 'info');
   };
 
+  // Analysis Handlers
+  const handleSaveAnalysisReport = (report: AnalysisReport) => {
+      setAnalysisReports(prev => ({
+          ...prev,
+          [report.coinId]: [...(prev[report.coinId] ?? []), report].slice(-MAX_REPORTS_PER_COIN),
+      }));
+  };
+
+  // Currency Handlers
+  const handleQuoteCurrencyChange = (currency: QuoteCurrency) => {
+      if (currency === quoteCurrency) return;
+      // Drop prices quoted in the old currency so they are never compared against the new one.
+      setCoinsData({});
+      openPrices24hRef.current = {};
+      setQuoteCurrencyState(currency);
+  };
+
+  // Watchlist Handlers
+  const handleAddToWatchlist = (coinId: string) => {
+      const id = coinId.trim().toLowerCase();
+      if (!id) return;
+      if (watchlist.includes(id)) {
+          addNotification(`${id} is already on your watchlist.`, 'info');
+          return;
+      }
+      setWatchlist(prev => [...prev, id]);
+      setSelectedCoinId(id);
+  };
+
+  const handleRemoveFromWatchlist = (coinId: string) => {
+      setWatchlist(prev => prev.filter(id => id !== coinId));
+      setCoinsData(prev => {
+          const { [coinId]: _removed, ...rest } = prev;
+          return rest;
+      });
+      delete openPrices24hRef.current[coinId];
+      if (selectedCoinId === coinId) setSelectedCoinId(null);
+  };
+
+  /**
+   * Opens a coin from the market overview, showing its card and making it the coin to analyse.
+   * @param {string} coinId - The ID of the coin to open.
+   */
+  const handleOpenOverviewCoin = (coinId: string) => {
+      setOverviewCoinId(coinId);
+      setSelectedCoinId(coinId);
+  };
+
+  /**
+   * Requests an AI analysis and switches to the chat so the response can be followed.
+   * @param {string} prompt - The analysis prompt.
+   */
+  const handleGenerateAnalysis = (prompt: string) => {
+      handleSendMessage(prompt, false);
+      setMainView('chat');
+  };
+
+  const handleIndicatorsChange = (coinId: string, indicators: IndicatorType[]) => {
+      setChartIndicators(prev => ({ ...prev, [coinId]: indicators }));
+  };
+
+  const handleDrawingsChange = (coinId: string, periodKey: string, drawings: ChartDrawing[]) => {
+      setChartDrawings(prev => ({ ...prev, [coinId]: { ...prev[coinId], [periodKey]: drawings } }));
+  };
+
+  const handleReorderWatchlist = (coinId: string, targetCoinId: string) => {
+      setWatchlist(prev => {
+          const fromIndex = prev.indexOf(coinId);
+          const toIndex = prev.indexOf(targetCoinId);
+          if (fromIndex === -1 || toIndex === -1) return prev;
+          const next = [...prev];
+          next.splice(fromIndex, 1);
+          next.splice(toIndex, 0, coinId);
+          return next;
+      });
+  };
+
   // --- RENDER ---
   return (
     <div className={`h-screen w-screen bg-brand-background text-brand-text-primary font-sans transition-colors ${theme} flex`}>
@@ -398,7 +739,10 @@ const App: React.FC = () => {
       <div className="flex-1 flex flex-col min-w-0">
         <Header
           theme={theme}
+          currency={quoteCurrency}
+          onCurrencyChange={handleQuoteCurrencyChange}
           onThemeToggle={handleThemeToggle}
+          onDiagnosticsClick={() => setIsDiagnosticsOpen(true)}
           onWalletClick={() => setIsWalletModalOpen(true)}
           onMenuClick={() => setIsSidebarOpen(true)}
         />
@@ -406,32 +750,108 @@ const App: React.FC = () => {
         <main className="flex-1 overflow-hidden p-4 sm:p-6">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-full max-w-full xl:max-w-[1600px] mx-auto">
             
-            {/* Main Chat Panel */}
-            <div className="lg:col-span-2 h-full min-h-0">
-              <ChatPanel 
-                messages={activeMessages} 
-                isLoading={isAiLoading}
-                onSendMessage={handleSendMessage}
-              />
+            {/* Main Panel: Chat or Market Overview */}
+            <div className="lg:col-span-2 h-full min-h-0 flex flex-col gap-4">
+              <div className="flex gap-1" role="tablist">
+                {([['chat', 'Chat'], ['markets', 'Markets']] as [MainView, string][]).map(([view, label]) => (
+                  <button
+                    key={view}
+                    role="tab"
+                    aria-selected={mainView === view}
+                    onClick={() => setMainView(view)}
+                    className={`py-1 px-3 rounded-md text-sm font-semibold transition-colors duration-200 ${
+                      mainView === view ? 'bg-brand-blue/20 text-brand-blue' : 'text-brand-text-secondary hover:bg-brand-border/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 min-h-0">
+                {mainView === 'chat' ? (
+                  <ChatPanel 
+                    messages={activeMessages} 
+                    isLoading={isAiLoading}
+                    onSendMessage={handleSendMessage}
+                    model={activeSession?.model ?? DEFAULT_CHAT_MODEL}
+                    onModelChange={handleSessionModelChange}
+                    branches={activeBranches}
+                    onSelectBranch={handleSelectBranch}
+                    onStop={handleStopResponse}
+                    onRegenerate={handleRegenerateResponse}
+                    onEditMessage={handleEditMessage}
+                  />
+                ) : (
+                  <div className="h-full overflow-y-auto space-y-6 pr-1 pb-6">
+                    {overviewCoin && (
+                      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+                        <CryptoCard
+                          coinData={overviewCoin}
+                          currency={quoteCurrency}
+                          isSelected={selectedCoin?.id === overviewCoin.id}
+                          onSelect={setSelectedCoinId}
+                          onOpenAlertModal={handleOpenAlertModal}
+                          connectionState={connectionState}
+                          onManualReconnect={manualReconnect}
+                          indicators={chartIndicators[overviewCoin.id]}
+                          onIndicatorsChange={handleIndicatorsChange}
+                          drawings={chartDrawings[overviewCoin.id]}
+                          onDrawingsChange={handleDrawingsChange}
+                          alerts={alerts}
+                          onCreateAlert={handleAddAlert}
+                        />
+                        <AnalysisPanel
+                          onGenerateAnalysis={handleGenerateAnalysis}
+                          coinSymbol={overviewCoin.symbol.toUpperCase()}
+                          coinId={overviewCoin.id}
+                          currency={quoteCurrency}
+                          analysisReports={analysisReports}
+                          onSaveReport={handleSaveAnalysisReport}
+                        />
+                      </div>
+                    )}
+                    {overviewCoin && <CoinDetailsPanel coinId={overviewCoin.id} currency={quoteCurrency} />}
+                    <MarketOverview
+                      key={quoteCurrency}
+                      currency={quoteCurrency}
+                      selectedCoinId={overviewCoinId}
+                      onSelectCoin={handleOpenOverviewCoin}
+                    />
+                  </div>
+                )}
+              </div>
             </div>
             
             {/* Right Info Column */}
             <div className="h-full overflow-y-auto space-y-6 pr-1 pb-6 hidden lg:block">
-                {isLoadingCoinData ? (
-                    <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-md shadow-lg h-[370px] flex items-center justify-center">Loading market data...</div>
-                ) : coinDataError ? (
-                    <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-md shadow-lg h-[370px] flex items-center justify-center text-red-500">{coinDataError}</div>
-                ) : coinData ? (
-                    <CryptoCard 
-                        coinData={coinData} 
-                        onOpenAlertModal={handleOpenAlertModal}
-                        connectionState={connectionState}
-                        onManualReconnect={manualReconnect}
-                    />
-                ) : null}
+                <Watchlist
+                    coins={watchlistCoins}
+                    currency={quoteCurrency}
+                    isLoading={isLoadingCoinData}
+                    error={coinDataError}
+                    selectedCoinId={selectedCoin?.id ?? null}
+                    connectionState={connectionState}
+                    onSelectCoin={setSelectedCoinId}
+                    onAddCoin={handleAddToWatchlist}
+                    onRemoveCoin={handleRemoveFromWatchlist}
+                    onReorder={handleReorderWatchlist}
+                    onOpenAlertModal={handleOpenAlertModal}
+                    onManualReconnect={manualReconnect}
+                    chartIndicators={chartIndicators}
+                    onIndicatorsChange={handleIndicatorsChange}
+                    chartDrawings={chartDrawings}
+                    onDrawingsChange={handleDrawingsChange}
+                    alerts={alerts}
+                    onCreateAlert={handleAddAlert}
+                />
+                {selectedCoin && <CoinDetailsPanel coinId={selectedCoin.id} currency={quoteCurrency} />}
                 <AnalysisPanel 
-                    onGenerateAnalysis={(prompt) => handleSendMessage(prompt, false)} 
-                    coinSymbol={coinData?.symbol.toUpperCase()} 
+                    onGenerateAnalysis={handleGenerateAnalysis} 
+                    coinSymbol={selectedCoin?.symbol.toUpperCase()} 
+                    coinId={selectedCoin?.id}
+                    currency={quoteCurrency}
+                    analysisReports={analysisReports}
+                    onSaveReport={handleSaveAnalysisReport}
                 />
                 <NewsFeed />
             </div>
@@ -448,16 +868,22 @@ const App: React.FC = () => {
         onConnect={handleConnectWallet}
         onDisconnect={handleDisconnectWallet}
       />
+      <DiagnosticsPanel
+        isOpen={isDiagnosticsOpen}
+        onClose={() => setIsDiagnosticsOpen(false)}
+      />
       {isAlertModalOpen && alertModalCoin && (
         <AlertModal 
             isOpen={isAlertModalOpen}
             onClose={() => setIsAlertModalOpen(false)}
             coinId={alertModalCoin.id}
             coinName={alertModalCoin.name}
-            currentPrice={coinData?.current_price ?? alertModalCoin.price}
+            currentPrice={coinsData[alertModalCoin.id]?.current_price ?? alertModalCoin.price}
+            currency={quoteCurrency}
             alerts={alerts}
             onAddAlert={handleAddAlert}
             onRemoveAlert={handleRemoveAlert}
+            onChangeCoin={handleChangeAlertModalCoin}
         />
       )}
 
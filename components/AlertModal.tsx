@@ -4,8 +4,10 @@
  */
 
 import React, { useState } from 'react';
-import type { Alert } from '../types';
+import type { Alert, CoinSearchResult, QuoteCurrency } from '../types';
+import { formatPrice } from '../services/currencyService';
 import { TrashIcon } from './icons/TrashIcon';
+import { CoinSearchInput } from './CoinSearchInput';
 
 /**
  * Props for the AlertModal component.
@@ -21,12 +23,16 @@ interface AlertModalProps {
   coinId: string;
   /** The current price of the coin, used for user reference. */
   currentPrice: number;
+  /** The quote currency of the current price; new alerts are created in this currency. */
+  currency: QuoteCurrency;
   /** An array of all existing alerts. */
   alerts: Alert[];
   /** Callback function to add a new alert. */
   onAddAlert: (alert: Omit<Alert, 'id' | 'createdAt'>) => void;
   /** Callback function to remove an existing alert. */
   onRemoveAlert: (alertId: string) => void;
+  /** Optional callback function to switch the modal to a different coin found via search. */
+  onChangeCoin?: (coin: CoinSearchResult) => void;
 }
 
 /**
@@ -41,9 +47,11 @@ export const AlertModal: React.FC<AlertModalProps> = ({
   coinName,
   coinId,
   currentPrice,
+  currency,
   alerts,
   onAddAlert,
   onRemoveAlert,
+  onChangeCoin,
 }) => {
   const [targetPrice, setTargetPrice] = useState('');
 
@@ -57,7 +65,7 @@ export const AlertModal: React.FC<AlertModalProps> = ({
     e.preventDefault();
     const price = parseFloat(targetPrice);
     if (!isNaN(price) && price > 0) {
-      onAddAlert({ coinId, coinName, targetPrice: price });
+      onAddAlert({ coinId, coinName, targetPrice: price, currency });
       setTargetPrice('');
     }
   };
@@ -79,7 +87,11 @@ export const AlertModal: React.FC<AlertModalProps> = ({
           <button onClick={onClose} className="text-brand-text-secondary hover:text-brand-text-primary text-2xl">&times;</button>
         </div>
         
-        <p className="text-sm text-brand-text-secondary mb-4">Current Price: ${currentPrice.toLocaleString()}</p>
+        {onChangeCoin && (
+          <CoinSearchInput onSelect={onChangeCoin} placeholder="Switch coin..." className="mb-4" />
+        )}
+
+        <p className="text-sm text-brand-text-secondary mb-4">Current Price: {formatPrice(currentPrice, currency)}</p>
 
         <form onSubmit={handleAddAlert} className="flex gap-2 mb-6">
           <input
@@ -87,7 +99,7 @@ export const AlertModal: React.FC<AlertModalProps> = ({
             step="any"
             value={targetPrice}
             onChange={(e) => setTargetPrice(e.target.value)}
-            placeholder="Set target price"
+            placeholder={`Set target price (${currency.toUpperCase()})`}
             className="flex-1 bg-brand-background border border-brand-border rounded-lg py-2 px-3 text-brand-text-primary placeholder-brand-text-secondary focus:outline-none focus:ring-2 focus:ring-brand-blue"
             aria-label="Target price"
           />
@@ -101,7 +113,7 @@ export const AlertModal: React.FC<AlertModalProps> = ({
             {coinAlerts.length > 0 ? (
                 coinAlerts.map(alert => (
                     <div key={alert.id} className="flex items-center justify-between bg-brand-background p-3 rounded-lg">
-                        <p className="text-brand-text-primary">Notify at ${alert.targetPrice.toLocaleString()}</p>
+                        <p className="text-brand-text-primary">Notify at {formatPrice(alert.targetPrice, alert.currency)}</p>
                         <button onClick={() => onRemoveAlert(alert.id)} className="p-1 text-brand-text-secondary hover:text-red-400">
                             <TrashIcon className="w-4 h-4" />
                         </button>
@@ -1,10 +1,21 @@
 /**
  * @file This component provides a simple panel with a button to trigger
  * an AI-powered market analysis for a selected cryptocurrency.
+ * The coin's current fundamentals are fetched and included in the prompt, so the analysis
+ * works from real market cap, supply and valuation figures.
+ * The analysis is either written into the chat, or generated as a structured report card
+ * (with the latest indicator readings in the prompt) and saved, so earlier reports can be compared.
  */
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import type { AnalysisReport, CoinDetails, CoinSearchResult, QuoteCurrency, StructuredAnalysis } from '../types';
+import { fetchCoinDetails } from '../services/coingeckoService';
+import { formatPrice } from '../services/currencyService';
+import { executeChatTool } from '../services/chatTools';
+import { generateStructuredAnalysis, generateMarkdownAnalysis } from '../services/aiService';
 import { SparkleIcon } from './icons/SparkleIcon';
+import { CoinSearchInput } from './CoinSearchInput';
+import { AnalysisReportCard, TREND_INFO, getSentimentColor } from './AnalysisReportCard';
 
 /**
  * Props for the AnalysisPanel component.
@@ -17,18 +28,238 @@ interface AnalysisPanelProps {
   onGenerateAnalysis: (prompt: string) => void;
   /** The symbol of the coin to be analyzed (e.g., 'BTC'). */
   coinSymbol?: string;
+  /** The ID of the coin to be analyzed (e.g., 'bitcoin'), used to look up its fundamentals. */
+  coinId?: string;
+  /** The quote currency to state the fundamentals in. */
+  currency: QuoteCurrency;
+  /** The saved analysis reports, keyed by coin ID, oldest first. */
+  analysisReports: Record<string, AnalysisReport[]>;
+  /** Callback function to save a newly generated report. */
+  onSaveReport: (report: AnalysisReport) => void;
 }
 
+/** Where the analysis goes: a structured report card in this panel, or an essay in the chat. */
+type AnalysisMode = 'report' | 'chat';
+
+/** The timeframe of the indicator readings included in structured analysis prompts. */
+const REPORT_INDICATOR_TIMEFRAME = '3M';
+
+/**
+ * Formats an amount for the prompt, spelling out large numbers in full so the model does not misread them.
+ * @param {number | null} value - The amount.
+ * @param {QuoteCurrency} [currency] - The currency the amount is quoted in; omitted for coin counts.
+ * @returns {string} The formatted amount, or 'unknown'.
+ */
+const formatPromptAmount = (value: number | null, currency?: QuoteCurrency): string => {
+  if (value === null) return 'unknown';
+  return currency ? formatPrice(value, currency) : Math.round(value).toLocaleString('en-US');
+};
+
+/**
+ * Formats an all-time high or low for the prompt, with its date and the current price's distance from it.
+ * @param {number | null} price - The all-time high or low.
+ * @param {number | null} date - When it was reached, in milliseconds.
+ * @param {number | null} change - The current price's percentage distance from it.
+ * @param {QuoteCurrency} currency - The currency the price is quoted in.
+ * @returns {string} The formatted extreme.
+ */
+const formatPromptExtreme = (price: number | null, date: number | null, change: number | null, currency: QuoteCurrency): string => {
+  if (price === null) return 'unknown';
+  const when = date !== null ? ` on ${new Date(date).toISOString().slice(0, 10)}` : '';
+  const distance = change !== null ? ` (current price is ${change.toFixed(1)}% from it)` : '';
+  return `${formatPromptAmount(price, currency)}${when}${distance}`;
+};
+
+/**
+ * Builds the analysis prompt, appending the coin's fundamentals when they are available.
+ * @param {string} symbol - The coin's ticker symbol.
+ * @param {CoinDetails | null} details - The coin's fundamentals, if they could be loaded.
+ * @param {QuoteCurrency} currency - The currency the fundamentals are quoted in.
+ * @returns {string} The prompt.
+ */
+const buildAnalysisPrompt = (symbol: string, details: CoinDetails | null, currency: QuoteCurrency): string => {
+  const request = `Please provide a full market analysis for ${symbol}.`;
+  if (!details) return request;
+  const unit = details.symbol.toUpperCase();
+  const lines = [
+    `Market cap: ${formatPromptAmount(details.market_cap, currency)}${details.market_cap_rank ? ` (rank #${details.market_cap_rank})` : ''}`,
+    `Fully diluted valuation: ${formatPromptAmount(details.fully_diluted_valuation, currency)}`,
+    `24h trading volume: ${formatPromptAmount(details.total_volume, currency)}`,
+    `Circulating supply: ${formatPromptAmount(details.circulating_supply)} ${unit}`,
+    `Total supply: ${formatPromptAmount(details.total_supply)} ${unit}`,
+    `Max supply: ${details.max_supply !== null ? `${formatPromptAmount(details.max_supply)} ${unit}` : 'uncapped or unknown'}`,
+    `All-time high: ${formatPromptExtreme(details.ath, details.ath_date, details.ath_change_percentage, currency)}`,
+    `All-time low: ${formatPromptExtreme(details.atl, details.atl_date, details.atl_change_percentage, currency)}`,
+  ];
+  if (details.categories.length > 0) lines.push(`Categories: ${details.categories.join(', ')}`);
+  return `${request}\n\nUse these current fundamentals (from CoinGecko, in ${currency.toUpperCase()}) in the Fundamental Analysis section:\n${lines.map(line => `- ${line}`).join('\n')}`;
+};
+
+/**
+ * Loads a coin's fundamentals for the prompt, or null if they are unavailable.
+ * @param {string | undefined} coinId - The ID of the coin.
+ * @param {QuoteCurrency} currency - The currency to quote the fundamentals in.
+ * @returns {Promise<CoinDetails | null>} A promise that resolves to the fundamentals, or null.
+ */
+const loadPromptDetails = async (coinId: string | undefined, currency: QuoteCurrency): Promise<CoinDetails | null> => {
+  if (!coinId) return null;
+  try {
+    return (await fetchCoinDetails(coinId, currency)).data;
+  } catch (error: any) {
+    console.warn(`Requesting the analysis without fundamentals. Reason: ${error.message}`);
+    return null;
+  }
+};
+
+/**
+ * Loads the coin's latest price and indicator readings for a structured analysis prompt.
+ * @param {string} coinId - The ID of the coin.
+ * @returns {Promise<string | null>} A promise that resolves to the prompt section, or null if the data is unavailable.
+ */
+const loadPromptMarketData = async (coinId: string): Promise<string | null> => {
+  try {
+    const readings = await executeChatTool('get_indicators', { coin: coinId, timeframe: REPORT_INDICATOR_TIMEFRAME });
+    return `Base the technical readings and price levels on this market data (JSON):\n${JSON.stringify(readings)}`;
+  } catch (error: any) {
+    console.warn(`Requesting the report without indicator readings. Reason: ${error.message}`);
+    return null;
+  }
+};
+
+/**
+ * A sub-component listing a coin's earlier reports, newest first, with how the sentiment changed
+ * from one report to the next.
+ * @param {object} props - The component properties.
+ * @param {AnalysisReport[]} props.reports - The coin's reports, oldest first.
+ * @param {string | null} props.activeReportId - The ID of the report being shown.
+ * @param {(reportId: string) => void} props.onSelect - Callback to show a report.
+ * @returns {JSX.Element} The rendered history.
+ */
+const ReportHistory: React.FC<{ reports: AnalysisReport[]; activeReportId: string | null; onSelect: (reportId: string) => void }> = ({ reports, activeReportId, onSelect }) => (
+  <div>
+    <h5 className="text-xs font-bold text-brand-text-secondary mb-1">HISTORY</h5>
+    <ul className="space-y-1">
+      {reports.map((report, i) => {
+        const previous: StructuredAnalysis | null = reports[i - 1]?.analysis ?? null;
+        const { analysis } = report;
+        const delta = analysis && previous ? analysis.sentimentScore - previous.sentimentScore : null;
+        return { report, analysis, delta };
+      }).reverse().map(({ report, analysis, delta }) => (
+        <li key={report.id}>
+          <button
+            onClick={() => onSelect(report.id)}
+            className={`w-full flex items-center gap-2 py-1 px-2 rounded-md text-xs text-left transition-colors ${
+              report.id === activeReportId ? 'bg-brand-blue/20 text-brand-blue' : 'text-brand-text-secondary hover:bg-brand-border/50'
+            }`}
+          >
+            <span className="flex-grow">{new Date(report.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+            {analysis ? (
+              <>
+                <span className={TREND_INFO[analysis.trend].color}>{TREND_INFO[analysis.trend].label}</span>
+                <span className={`w-16 text-right font-semibold ${getSentimentColor(analysis.sentimentScore)}`}>
+                  {analysis.sentimentScore > 0 ? '+' : ''}{analysis.sentimentScore}
+                  {delta !== null && delta !== 0 && <span className="font-normal text-brand-text-secondary"> ({delta > 0 ? '▲' : '▼'}{Math.abs(delta)})</span>}
+                </span>
+              </>
+            ) : (
+              <span>Written analysis</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
 /**
  * A UI panel that allows users to request a detailed market analysis from the AI.
+ * Users can analyze the selected coin or search for any other coin to analyze instead.
  * @param {AnalysisPanelProps} props - The properties for the component.
  * @returns {JSX.Element} The rendered analysis panel.
  */
-export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ onGenerateAnalysis, coinSymbol = 'BTC' }) => {
-  const handleGenerateClick = () => {
-    onGenerateAnalysis(`Please provide a full market analysis for ${coinSymbol}.`);
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ onGenerateAnalysis, coinSymbol = 'BTC', coinId, currency, analysisReports, onSaveReport }) => {
+  const [searchedCoin, setSearchedCoin] = useState<CoinSearchResult | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [mode, setMode] = useState<AnalysisMode>('report');
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // Reset any searched coin when the selected coin changes elsewhere in the app.
+  useEffect(() => {
+    setSearchedCoin(null);
+  }, [coinSymbol]);
+
+  const analysisSymbol = searchedCoin ? searchedCoin.symbol.toUpperCase() : coinSymbol;
+  const analysisCoinId = searchedCoin ? searchedCoin.id : coinId;
+  const coinReports = analysisCoinId ? analysisReports[analysisCoinId] ?? [] : [];
+  const activeReport = coinReports.find(report => report.id === selectedReportId) ?? coinReports[coinReports.length - 1] ?? null;
+
+  // Show the latest report whenever the analysed coin changes.
+  useEffect(() => {
+    setSelectedReportId(null);
+    setReportError(null);
+  }, [analysisCoinId]);
+
+  /**
+   * Sends an analysis request to the chat, with the coin's fundamentals.
+   */
+  const handleGenerateChatAnalysis = async () => {
+    setIsPreparing(true);
+    const details = await loadPromptDetails(analysisCoinId, currency);
+    setIsPreparing(false);
+    onGenerateAnalysis(buildAnalysisPrompt(analysisSymbol, details, currency));
   };
 
+  /**
+   * Generates a structured report with the coin's fundamentals and indicator readings, falling back
+   * to a written analysis if the structured response cannot be produced, and saves it.
+   */
+  const handleGenerateReport = async () => {
+    if (!analysisCoinId) return;
+    setIsPreparing(true);
+    setReportError(null);
+    const [details, marketData] = await Promise.all([
+      loadPromptDetails(analysisCoinId, currency),
+      loadPromptMarketData(analysisCoinId),
+    ]);
+    const prompt = [buildAnalysisPrompt(analysisSymbol, details, currency), marketData].filter(Boolean).join('\n\n');
+
+    let analysis: StructuredAnalysis | null = null;
+    let markdown: string | null = null;
+    try {
+      analysis = await generateStructuredAnalysis(prompt);
+    } catch (error: any) {
+      console.warn(`Structured analysis failed. Falling back to a written analysis. Reason: ${error.message}`);
+      try {
+        markdown = await generateMarkdownAnalysis(prompt);
+      } catch (fallbackError: any) {
+        console.error('Error generating analysis:', fallbackError);
+        setReportError("Sorry, the analysis couldn't be generated. Please try again.");
+        setIsPreparing(false);
+        return;
+      }
+    }
+
+    const report: AnalysisReport = {
+      id: Date.now().toString(),
+      coinId: analysisCoinId,
+      symbol: analysisSymbol,
+      currency,
+      createdAt: Date.now(),
+      analysis,
+      markdown,
+    };
+    onSaveReport(report);
+    setSelectedReportId(report.id);
+    setIsPreparing(false);
+  };
+
+  const modes: { mode: AnalysisMode; label: string }[] = [
+    { mode: 'report', label: 'Report card' },
+    { mode: 'chat', label: 'Chat essay' },
+  ];
+  const preparingLabel = mode === 'report' ? 'Generating report...' : 'Gathering fundamentals...';
+
   return (
     <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full shadow-lg flex flex-col justify-between h-full">
       <div>
@@ -36,17 +267,51 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ onGenerateAnalysis
             <SparkleIcon className="w-6 h-6 text-brand-blue" />
             <h4 className="text-lg font-bold text-brand-text-primary">AI Market Analysis</h4>
         </div>
-        <p className="text-brand-text-secondary text-sm mb-6">
+        <p className="text-brand-text-secondary text-sm mb-4">
           Get an in-depth, AI-powered technical and fundamental analysis for the currently selected asset.
         </p>
+        <CoinSearchInput onSelect={setSearchedCoin} placeholder="Analyze another coin..." className="mb-4" />
+        <div className="flex gap-1 mb-4">
+          {modes.map(({ mode: option, label }) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`py-1 px-2 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                mode === option
+                  ? 'bg-brand-blue/20 text-brand-blue'
+                  : 'text-brand-text-secondary hover:bg-brand-border/50'
+              }`}
+              aria-pressed={mode === option}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
       <button
-        onClick={handleGenerateClick}
-        className="w-full bg-brand-blue hover:bg-brand-blue-light text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+        onClick={mode === 'report' ? handleGenerateReport : handleGenerateChatAnalysis}
+        disabled={isPreparing || (mode === 'report' && !analysisCoinId)}
+        className="w-full bg-brand-blue hover:bg-brand-blue-light text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-wait"
       >
         <SparkleIcon className="w-5 h-5" />
-        Generate Analysis for {coinSymbol}
+        {isPreparing ? preparingLabel : `Generate Analysis for ${analysisSymbol}`}
       </button>
+      {mode === 'report' && (
+        <div className="mt-4 space-y-4">
+          {reportError && <p className="text-sm text-red-500">{reportError}</p>}
+          {activeReport && (
+            <>
+              <p className="text-xs text-brand-text-secondary">
+                {`${activeReport.symbol} · ${new Date(activeReport.createdAt).toLocaleString()} · ${activeReport.currency.toUpperCase()}`}
+              </p>
+              <AnalysisReportCard report={activeReport} />
+            </>
+          )}
+          {coinReports.length > 1 && (
+            <ReportHistory reports={coinReports} activeReportId={activeReport?.id ?? null} onSelect={setSelectedReportId} />
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
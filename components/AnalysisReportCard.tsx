@@ -0,0 +1,164 @@
+/**
+ * @file This component renders a saved AI analysis as a report card: sentiment, trend, confidence,
+ * support and resistance levels, indicator readings and the bull and bear scenarios. Reports that fell
+ * back to a free-form analysis are shown as Markdown instead.
+ */
+
+import React from 'react';
+import type { AnalysisHorizon, AnalysisReport, AnalysisScenario, IndicatorReading, QuoteCurrency, TrendDirection } from '../types';
+import { formatPrice } from '../services/currencyService';
+import { MarkdownRenderer } from './MarkdownRenderer';
+
+/**
+ * Props for the AnalysisReportCard component.
+ */
+interface AnalysisReportCardProps {
+  /** The report to show. */
+  report: AnalysisReport;
+}
+
+/** Display labels and colours for each trend direction. */
+export const TREND_INFO: { [key in TrendDirection]: { label: string; color: string } } = {
+  uptrend: { label: 'Uptrend', color: 'text-brand-green' },
+  downtrend: { label: 'Downtrend', color: 'text-red-500' },
+  sideways: { label: 'Sideways', color: 'text-yellow-500' },
+};
+
+/** Display labels for each time horizon. */
+const HORIZON_LABELS: { [key in AnalysisHorizon]: string } = {
+  short: 'Short term (days)',
+  medium: 'Medium term (weeks)',
+  long: 'Long term (months+)',
+};
+
+/** Text colours for each indicator signal. */
+const SIGNAL_COLORS: { [key in IndicatorReading['signal']]: string } = {
+  bullish: 'text-brand-green',
+  bearish: 'text-red-500',
+  neutral: 'text-brand-text-secondary',
+};
+
+/**
+ * Returns the text colour for a sentiment score.
+ * @param {number} score - The score, from -100 to 100.
+ * @returns {string} The Tailwind text colour class.
+ */
+export const getSentimentColor = (score: number): string =>
+  score > 15 ? 'text-brand-green' : score < -15 ? 'text-red-500' : 'text-yellow-500';
+
+/**
+ * A sub-component showing a list of price levels.
+ * @param {object} props - The component properties.
+ * @param {string} props.label - The list's heading.
+ * @param {number[]} props.levels - The price levels.
+ * @param {QuoteCurrency} props.currency - The currency the levels are quoted in.
+ * @returns {JSX.Element} The rendered list.
+ */
+const LevelList: React.FC<{ label: string; levels: number[]; currency: QuoteCurrency }> = ({ label, levels, currency }) => (
+  <div>
+    <p className="text-xs text-brand-text-secondary mb-1">{label}</p>
+    {levels.length === 0 ? (
+      <p className="text-sm text-brand-text-secondary">—</p>
+    ) : (
+      levels.map((level, i) => <p key={i} className="text-sm font-semibold text-brand-text-primary">{formatPrice(level, currency)}</p>)
+    )}
+  </div>
+);
+
+/**
+ * A sub-component showing a bull or bear scenario.
+ * @param {object} props - The component properties.
+ * @param {string} props.label - The scenario's heading.
+ * @param {string} props.color - The heading's Tailwind text colour class.
+ * @param {AnalysisScenario} props.scenario - The scenario.
+ * @param {QuoteCurrency} props.currency - The currency the target is quoted in.
+ * @returns {JSX.Element} The rendered scenario.
+ */
+const ScenarioBox: React.FC<{ label: string; color: string; scenario: AnalysisScenario; currency: QuoteCurrency }> = ({ label, color, scenario, currency }) => (
+  <div className="p-3 bg-brand-background rounded-lg">
+    <p className={`text-xs font-bold mb-1 ${color}`}>
+      {label}
+      {scenario.targetPrice !== null && <span className="font-normal text-brand-text-secondary"> · target {formatPrice(scenario.targetPrice, currency)}</span>}
+    </p>
+    <p className="text-sm text-brand-text-primary">{scenario.summary}</p>
+  </div>
+);
+
+/**
+ * A card showing a single analysis report.
+ * @param {AnalysisReportCardProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered report card.
+ */
+export const AnalysisReportCard: React.FC<AnalysisReportCardProps> = ({ report }) => {
+  const { analysis, currency } = report;
+
+  if (!analysis) {
+    return (
+      <div className="prose prose-sm max-w-full text-brand-text-primary">
+        <p className="text-xs text-brand-text-secondary not-prose mb-2">
+          A structured report was not available, so the full written analysis is shown instead.
+        </p>
+        <MarkdownRenderer text={report.markdown ?? ''} />
+      </div>
+    );
+  }
+
+  const trend = TREND_INFO[analysis.trend];
+  // Maps the sentiment score from -100..100 onto the gauge's width.
+  const sentimentPosition = (analysis.sentimentScore + 100) / 2;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <p className="text-xs text-brand-text-secondary">Sentiment</p>
+          <p className={`text-lg font-bold ${getSentimentColor(analysis.sentimentScore)}`}>
+            {analysis.sentimentScore > 0 ? '+' : ''}{analysis.sentimentScore}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-brand-text-secondary">Trend</p>
+          <p className={`text-lg font-bold ${trend.color}`}>{trend.label}</p>
+        </div>
+        <div>
+          <p className="text-xs text-brand-text-secondary">Confidence</p>
+          <p className="text-lg font-bold text-brand-text-primary">{analysis.confidence}%</p>
+        </div>
+      </div>
+
+      <div className="relative h-2 rounded-full bg-gradient-to-r from-red-500 via-yellow-500 to-brand-green" aria-hidden="true">
+        <span
+          className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 rounded-full bg-white border-2 border-brand-background"
+          style={{ left: `${sentimentPosition}%` }}
+        />
+      </div>
+
+      <p className="text-sm text-brand-text-primary">{analysis.summary}</p>
+      <p className="text-xs text-brand-text-secondary">{HORIZON_LABELS[analysis.horizon]}</p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <LevelList label="Support" levels={analysis.supportLevels} currency={currency} />
+        <LevelList label="Resistance" levels={analysis.resistanceLevels} currency={currency} />
+      </div>
+
+      {analysis.indicators.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody>
+            {analysis.indicators.map((reading, i) => (
+              <tr key={i} className="border-t border-brand-border">
+                <td className="py-1 pr-2 text-brand-text-secondary">{reading.name}</td>
+                <td className="py-1 pr-2 text-brand-text-primary">{reading.value}</td>
+                <td className={`py-1 text-right capitalize ${SIGNAL_COLORS[reading.signal]}`}>{reading.signal}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-1 gap-2">
+        <ScenarioBox label="Bull case" color="text-brand-green" scenario={analysis.bullCase} currency={currency} />
+        <ScenarioBox label="Bear case" color="text-red-500" scenario={analysis.bearCase} currency={currency} />
+      </div>
+    </div>
+  );
+};
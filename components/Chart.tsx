@@ -1,18 +1,33 @@
 /**
- * @file This component renders a responsive area chart for displaying price history.
+ * @file This component renders a responsive price chart for displaying price history.
  * It uses the 'recharts' library for charting and includes a custom styled tooltip.
+ * Prices can be drawn as an area chart or as OHLC candlesticks with a synchronised volume sub-panel,
+ * with optional technical indicator overlays and RSI/MACD sub-panes. In comparison mode, several coins are
+ * rebased to 0% at the start of the period and overlaid, with an optional relative-strength sub-pane.
+ * The user's drawings (levels, trend lines, rectangles) and price alerts are drawn over the price, and an
+ * interaction layer captures new drawings while a drawing tool is active.
  */
 
-import React from 'react';
+import React, { useId, useState } from 'react';
 import {
-  AreaChart,
   Area,
+  BarChart,
+  Bar,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
   XAxis,
   YAxis,
   Tooltip,
   ResponsiveContainer,
+  usePlotArea,
+  useYAxisDomain,
 } from 'recharts';
-import type { PriceDataPoint } from '../types';
+import type { ChartDrawing, ChartMode, ComparisonSeries, DrawingTool, IndicatorType, OhlcDataPoint, PriceDataPoint, QuoteCurrency } from '../types';
+import { formatPrice } from '../services/currencyService';
+import { INDICATOR_PARAMS, sma, ema, bollingerBands, rsi, macd } from '../services/indicators';
 
 /**
  * Props for the Chart component.
@@ -20,66 +35,659 @@ import type { PriceDataPoint } from '../types';
 interface ChartProps {
   /** An array of data points to be plotted on the chart. */
   data: PriceDataPoint[];
+  /** The quote currency of the prices, used to format the tooltip. */
+  currency: QuoteCurrency;
+  /** How the prices are rendered; defaults to an area chart. */
+  mode?: ChartMode;
+  /** The candles to plot in 'candles' mode. */
+  ohlcData?: OhlcDataPoint[];
+  /** The technical indicators to draw over the price or in sub-panes. */
+  indicators?: IndicatorType[];
+  /** The coins to overlay in 'compare' mode; the first series sets the time axis. */
+  comparison?: ComparisonSeries[];
+  /** The ID of the coin the others' relative strength is measured against in 'compare' mode, if any. */
+  benchmarkId?: string | null;
+  /** The user's drawings to show over the price. */
+  drawings?: ChartDrawing[];
+  /** The target prices of the coin's alerts, drawn as dashed lines. */
+  alertPrices?: number[];
+  /** The active drawing tool, or null when the chart is not being drawn on. */
+  drawingTool?: DrawingTool | null;
+  /** Callback function invoked with the anchor points of a shape the user has just drawn. */
+  onDrawingComplete?: (type: DrawingTool, points: PriceDataPoint[]) => void;
 }
 
+/** The colour of candles that closed at or above their open. */
+const UP_COLOR = 'var(--color-green)';
+/** The colour of candles that closed below their open (Tailwind's red-500). */
+const DOWN_COLOR = '#EF4444';
+/** The line colours of the indicators. */
+const INDICATOR_COLORS = {
+  sma: '#F59E0B',
+  ema: '#A855F7',
+  bollinger: '#8B949E',
+  rsi: '#A855F7',
+  macd: '#3B82F6',
+  macdSignal: '#F59E0B',
+};
+
+/** The colour of the user's drawings. */
+const DRAWING_COLOR = '#22D3EE';
+/** The colour of price alert lines (Tailwind's yellow-500). */
+const ALERT_COLOR = '#EAB308';
+/** How far (in pixels) the pointer must move before a drag counts as a trend line or rectangle. */
+const MIN_DRAG_PX = 4;
+
+/** The line colours of compared coins, assigned in series order. */
+const COMPARISON_COLORS = ['#3B82F6', '#F59E0B', '#A855F7', '#10B981', '#EC4899', '#8B949E'];
+
+/** A candle prepared for plotting, with the low-high range drawn by the bar. */
+interface CandleDatum extends OhlcDataPoint {
+  range: [number, number];
+}
+
+/**
+ * Formats a timestamp as an x-axis label: times for intraday series, months and years for
+ * series longer than a year, and dates otherwise.
+ * @param {number} timestamp - The point's timestamp in milliseconds.
+ * @param {number} spanMs - The time covered by the whole series.
+ * @returns {string} The label.
+ */
+const formatAxisLabel = (timestamp: number, spanMs: number): string => {
+  const date = new Date(timestamp);
+  if (spanMs <= 24 * 60 * 60 * 1000) return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (spanMs > 366 * 24 * 60 * 60 * 1000) return date.toLocaleString([], { month: 'short', year: 'numeric' });
+  return date.toLocaleString([], { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Formats a timestamp for a tooltip, with both the date and the time.
+ * @param {number} timestamp - The point's timestamp in milliseconds.
+ * @returns {string} The label.
+ */
+const formatTooltipLabel = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Formats a volume compactly (e.g., '1.2B').
+ * @param {number} volume - The volume to format.
+ * @returns {string} The formatted volume.
+ */
+const formatVolume = (volume: number): string =>
+  volume.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 2 });
+
+/**
+ * Formats a percentage change with an explicit sign (e.g., '+4.20%').
+ * @param {number} value - The change in percent.
+ * @returns {string} The formatted change.
+ */
+const formatPercent = (value: number): string => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
 /**
  * A custom tooltip component for the chart to match the application's theme.
  * @param {any} props - Props passed by the recharts Tooltip component.
  * @returns {JSX.Element | null} The rendered custom tooltip.
  */
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const CustomTooltip: React.FC<any> = ({ active, payload, label, currency }) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-brand-background/80 backdrop-blur-sm p-2 border border-brand-border rounded-md shadow-lg">
-          <p className="text-brand-text-secondary text-sm">{`Time: ${label}`}</p>
-          <p className="text-brand-text-primary font-bold">{`Price: $${payload[0].value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })}`}</p>
+          <p className="text-brand-text-secondary text-sm">{`Time: ${formatTooltipLabel(label)}`}</p>
+          <p className="text-brand-text-primary font-bold">{`Price: ${formatPrice(payload[0].payload.price, currency)}`}</p>
         </div>
       );
     }
-  
+
     return null;
   };
 
 /**
- * Renders a responsive area chart for visualizing cryptocurrency price data.
+ * A tooltip for candlestick mode, showing the full OHLC values and volume of the hovered candle.
+ * @param {any} props - Props passed by the recharts Tooltip component.
+ * @returns {JSX.Element | null} The rendered tooltip.
+ */
+const CandleTooltip: React.FC<any> = ({ active, payload, label, currency }) => {
+    if (active && payload && payload.length) {
+      const candle: CandleDatum = payload[0].payload;
+      return (
+        <div className="bg-brand-background/80 backdrop-blur-sm p-2 border border-brand-border rounded-md shadow-lg text-xs">
+          <p className="text-brand-text-secondary text-sm">{`Time: ${formatTooltipLabel(label)}`}</p>
+          <p className="text-brand-text-primary">{`O: ${formatPrice(candle.open, currency)}`}</p>
+          <p className="text-brand-text-primary">{`H: ${formatPrice(candle.high, currency)}`}</p>
+          <p className="text-brand-text-primary">{`L: ${formatPrice(candle.low, currency)}`}</p>
+          <p className="text-brand-text-primary font-bold">{`C: ${formatPrice(candle.close, currency)}`}</p>
+          {candle.volume !== undefined && (
+            <p className="text-brand-text-secondary">{`Vol: ${formatVolume(candle.volume)}`}</p>
+          )}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+/**
+ * A tooltip for comparison mode, listing every coin's performance at the hovered time, best first,
+ * followed by the relative strength of each coin against the benchmark when one is chosen.
+ * @param {any} props - Props passed by the recharts Tooltip component, plus the compared series and benchmark.
+ * @returns {JSX.Element | null} The rendered tooltip.
+ */
+const ComparisonTooltip: React.FC<any> = ({ active, payload, label, series, benchmark }) => {
+    if (active && payload && payload.length) {
+      const row: ComparisonDatum = payload[0].payload;
+      const byValue = (values: Record<string, number | null>) => (series as ComparisonSeries[])
+        .map((s, i) => ({ ...s, color: COMPARISON_COLORS[i % COMPARISON_COLORS.length], value: values[s.coinId] }))
+        .filter((entry): entry is ComparisonSeries & { color: string; value: number } => entry.value != null)
+        .sort((a, b) => b.value - a.value);
+      return (
+        <div className="bg-brand-background/80 backdrop-blur-sm p-2 border border-brand-border rounded-md shadow-lg text-xs">
+          <p className="text-brand-text-secondary text-sm">{`Time: ${formatTooltipLabel(label)}`}</p>
+          {byValue(row.performance).map(entry => (
+            <p key={entry.coinId} className="font-bold" style={{ color: entry.color }}>{`${entry.label}: ${formatPercent(entry.value)}`}</p>
+          ))}
+          {benchmark && byValue(row.strength).map(entry => (
+            <p key={entry.coinId} className="text-brand-text-secondary">{`${entry.label} vs ${benchmark.label}: ${formatPercent(entry.value)}`}</p>
+          ))}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+/**
+ * A custom bar shape that draws a candlestick. The bar spans the candle's low-high range,
+ * so its pixel bounds are used to position the wick and the open-close body.
+ * @param {any} props - Props passed by the recharts Bar component.
+ * @returns {JSX.Element} The rendered candle.
+ */
+const CandleShape: React.FC<any> = ({ x, y, width, height, payload }) => {
+  const { open, high, low, close } = payload as CandleDatum;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const span = high - low;
+  const toY = (value: number) => (span === 0 ? y : y + ((high - value) / span) * height);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(Math.abs(toY(open) - toY(close)), 1);
+  const centerX = x + width / 2;
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + height} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} />
+    </g>
+  );
+};
+
+/** The values of the enabled indicators at a single chart point (null while warming up). */
+interface IndicatorValues {
+  sma?: number | null;
+  ema?: number | null;
+  bbUpper?: number | null;
+  bbMiddle?: number | null;
+  bbLower?: number | null;
+  rsi?: number | null;
+  macd?: number | null;
+  macdSignal?: number | null;
+  macdHistogram?: number | null;
+}
+
+/**
+ * Computes the enabled indicators over a closing-price series and merges them into the chart rows.
+ * @param {T[]} rows - The chart rows, aligned index-for-index with `closes`.
+ * @param {number[]} closes - The closing prices, oldest first.
+ * @param {IndicatorType[]} indicators - The indicators to compute.
+ * @returns {(T & IndicatorValues)[]} The rows with indicator values attached.
+ */
+const withIndicators = <T extends object>(rows: T[], closes: number[], indicators: IndicatorType[]): (T & IndicatorValues)[] => {
+  const has = (indicator: IndicatorType) => indicators.includes(indicator);
+  const smaValues = has('sma') ? sma(closes, INDICATOR_PARAMS.sma.period) : [];
+  const emaValues = has('ema') ? ema(closes, INDICATOR_PARAMS.ema.period) : [];
+  const bands = has('bollinger') ? bollingerBands(closes, INDICATOR_PARAMS.bollinger.period, INDICATOR_PARAMS.bollinger.stdDevs) : [];
+  const rsiValues = has('rsi') ? rsi(closes, INDICATOR_PARAMS.rsi.period) : [];
+  const { fastPeriod, slowPeriod, signalPeriod } = INDICATOR_PARAMS.macd;
+  const macdValues = has('macd') ? macd(closes, fastPeriod, slowPeriod, signalPeriod) : [];
+
+  return rows.map((row, i) => ({
+    ...row,
+    sma: smaValues[i],
+    ema: emaValues[i],
+    bbUpper: bands[i]?.upper ?? null,
+    bbMiddle: bands[i]?.middle ?? null,
+    bbLower: bands[i]?.lower ?? null,
+    rsi: rsiValues[i],
+    macd: macdValues[i]?.macd ?? null,
+    macdSignal: macdValues[i]?.signal ?? null,
+    macdHistogram: macdValues[i]?.histogram ?? null,
+  }));
+};
+
+/** A point in time on a comparison chart, with each coin's performance keyed by coin ID. */
+interface ComparisonDatum {
+  timestamp: number;
+  /** The percentage change since the start of the period (null before the coin has data). */
+  performance: Record<string, number | null>;
+  /** The percentage by which each coin has outperformed the benchmark since the start of the period. */
+  strength: Record<string, number | null>;
+}
+
+/**
+ * Aligns the compared coins on the first series' timestamps and rebases each to 0% at its first
+ * price in the period. Each coin takes its latest price at or before a timestamp, so series sampled
+ * at slightly different times still line up.
+ * @param {ComparisonSeries[]} series - The coins to compare; the first one sets the time axis.
+ * @param {string | null} benchmarkId - The coin to measure relative strength against, if any.
+ * @returns {ComparisonDatum[]} The chart rows, oldest first.
+ */
+const buildComparisonRows = (series: ComparisonSeries[], benchmarkId: string | null): ComparisonDatum[] => {
+  if (series.length === 0) return [];
+  const cursors = series.map(() => 0);
+  const basePrices: (number | null)[] = series.map(() => null);
+
+  return series[0].data.map(({ timestamp }) => {
+    const performance: Record<string, number | null> = {};
+    series.forEach(({ coinId, data }, i) => {
+      while (cursors[i] + 1 < data.length && data[cursors[i] + 1].timestamp <= timestamp) cursors[i]++;
+      const point = data[cursors[i]];
+      if (!point || point.timestamp > timestamp) {
+        performance[coinId] = null;
+        return;
+      }
+      if (basePrices[i] === null) basePrices[i] = point.price;
+      performance[coinId] = basePrices[i] ? (point.price / basePrices[i]! - 1) * 100 : null;
+    });
+
+    const strength: Record<string, number | null> = {};
+    const benchmark = benchmarkId ? performance[benchmarkId] : null;
+    series.forEach(({ coinId }) => {
+      const value = performance[coinId];
+      strength[coinId] = coinId !== benchmarkId && value != null && benchmark != null
+        ? ((1 + value / 100) / (1 + benchmark / 100) - 1) * 100
+        : null;
+    });
+    return { timestamp, performance, strength };
+  });
+};
+
+/**
+ * Renders the moving-average and Bollinger Band overlays for the main price pane.
+ * @param {IndicatorType[]} indicators - The enabled indicators.
+ * @returns {JSX.Element[]} The overlay lines.
+ */
+const renderOverlays = (indicators: IndicatorType[]) => {
+  const lineProps = { type: 'monotone' as const, dot: false, strokeWidth: 1.5, isAnimationActive: false };
+  const overlays: React.ReactElement[] = [];
+  if (indicators.includes('bollinger')) {
+    overlays.push(
+      <Line key="bbUpper" dataKey="bbUpper" stroke={INDICATOR_COLORS.bollinger} strokeDasharray="4 2" {...lineProps} strokeWidth={1} />,
+      <Line key="bbMiddle" dataKey="bbMiddle" stroke={INDICATOR_COLORS.bollinger} {...lineProps} strokeWidth={1} />,
+      <Line key="bbLower" dataKey="bbLower" stroke={INDICATOR_COLORS.bollinger} strokeDasharray="4 2" {...lineProps} strokeWidth={1} />
+    );
+  }
+  if (indicators.includes('sma')) overlays.push(<Line key="sma" dataKey="sma" stroke={INDICATOR_COLORS.sma} {...lineProps} />);
+  if (indicators.includes('ema')) overlays.push(<Line key="ema" dataKey="ema" stroke={INDICATOR_COLORS.ema} {...lineProps} />);
+  return overlays;
+};
+
+/**
+ * Renders the user's drawings and the coin's price alerts for the main price pane. The x-axis is
+ * categorical, so anchor times are snapped to the nearest plotted timestamp, and trend lines and
+ * rectangles are clipped to the plotted period.
+ * @param {ChartDrawing[]} drawings - The drawings to render.
+ * @param {number[]} alertPrices - The target prices of the coin's alerts.
+ * @param {number[]} timestamps - The plotted timestamps, oldest first.
+ * @returns {JSX.Element[]} The reference lines and areas.
+ */
+const renderDrawings = (drawings: ChartDrawing[], alertPrices: number[], timestamps: number[]) => {
+  const elements: React.ReactElement[] = alertPrices.map((price, i) => (
+    <ReferenceLine
+      key={`alert-${i}`}
+      y={price}
+      stroke={ALERT_COLOR}
+      strokeDasharray="6 4"
+      label={{ value: 'Alert', position: 'insideTopRight', fill: ALERT_COLOR, fontSize: 10 }}
+    />
+  ));
+  if (timestamps.length === 0) return elements;
+  const first = timestamps[0];
+  const last = timestamps[timestamps.length - 1];
+  const snap = (timestamp: number) =>
+    timestamps.reduce((best, t) => (Math.abs(t - timestamp) < Math.abs(best - timestamp) ? t : best), first);
+
+  drawings.forEach(drawing => {
+    if (drawing.type === 'level') {
+      elements.push(<ReferenceLine key={drawing.id} y={drawing.points[0].price} stroke={DRAWING_COLOR} strokeWidth={1.5} />);
+      return;
+    }
+    const [start, end] = [...drawing.points].sort((a, b) => a.timestamp - b.timestamp);
+    if (!start || !end || end.timestamp < first || start.timestamp > last) return;
+    const from = Math.max(start.timestamp, first);
+    const to = Math.min(end.timestamp, last);
+    if (drawing.type === 'rectangle') {
+      elements.push(
+        <ReferenceArea key={drawing.id} x1={snap(from)} x2={snap(to)} y1={start.price} y2={end.price} stroke={DRAWING_COLOR} fill={DRAWING_COLOR} fillOpacity={0.1} />
+      );
+    } else {
+      const priceAt = (timestamp: number) => end.timestamp === start.timestamp
+        ? start.price
+        : start.price + ((end.price - start.price) * (timestamp - start.timestamp)) / (end.timestamp - start.timestamp);
+      elements.push(
+        <ReferenceLine
+          key={drawing.id}
+          segment={[{ x: snap(from), y: priceAt(from) }, { x: snap(to), y: priceAt(to) }]}
+          stroke={DRAWING_COLOR}
+          strokeWidth={1.5}
+        />
+      );
+    }
+  });
+  return elements;
+};
+
+/**
+ * An interaction layer over the price pane that turns pointer input into drawings: a click places a
+ * level, and a drag draws a trend line or rectangle (previewed while dragging). Pointer positions are
+ * converted to prices with the y-axis domain and snapped to the nearest plotted timestamp.
+ * @param {object} props - The component properties.
+ * @param {DrawingTool} props.tool - The active drawing tool.
+ * @param {number[]} props.timestamps - The plotted timestamps, oldest first.
+ * @param {boolean} props.isBand - Whether the x-axis uses bands (as when candles are drawn) rather than points.
+ * @param {(type: DrawingTool, points: PriceDataPoint[]) => void} props.onComplete - Callback invoked with a finished drawing.
+ * @returns {JSX.Element | null} The rendered layer, or null until the chart has been laid out.
+ */
+const DrawingLayer: React.FC<{
+  tool: DrawingTool;
+  timestamps: number[];
+  isBand: boolean;
+  onComplete: (type: DrawingTool, points: PriceDataPoint[]) => void;
+}> = ({ tool, timestamps, isBand, onComplete }) => {
+  const [draft, setDraft] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const plotArea = usePlotArea();
+  const yDomain = useYAxisDomain();
+
+  if (!plotArea || !yDomain || typeof yDomain[0] !== 'number' || typeof yDomain[1] !== 'number' || timestamps.length === 0) return null;
+  const [min, max] = yDomain as [number, number];
+  const count = timestamps.length;
+
+  const toDataPoint = ({ x, y }: { x: number; y: number }): PriceDataPoint => {
+    const relX = Math.min(Math.max(x / plotArea.width, 0), 1);
+    const index = isBand ? Math.min(Math.floor(relX * count), count - 1) : Math.round(relX * (count - 1));
+    return { timestamp: timestamps[index], price: max - (y / plotArea.height) * (max - min) };
+  };
+  const getPosition = (e: React.PointerEvent<SVGRectElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - box.left, y: e.clientY - box.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGRectElement>) => {
+    const position = getPosition(e);
+    if (tool === 'level') {
+      onComplete('level', [toDataPoint(position)]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ start: position, end: position });
+  };
+  const handlePointerMove = (e: React.PointerEvent<SVGRectElement>) => {
+    if (draft) setDraft({ ...draft, end: getPosition(e) });
+  };
+  const handlePointerUp = () => {
+    if (!draft) return;
+    if (Math.hypot(draft.end.x - draft.start.x, draft.end.y - draft.start.y) >= MIN_DRAG_PX) {
+      onComplete(tool, [toDataPoint(draft.start), toDataPoint(draft.end)]);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <g>
+      <rect
+        x={plotArea.x}
+        y={plotArea.y}
+        width={plotArea.width}
+        height={plotArea.height}
+        fill="transparent"
+        style={{ cursor: 'crosshair' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+      {draft && tool === 'trendline' && (
+        <line
+          x1={plotArea.x + draft.start.x} y1={plotArea.y + draft.start.y}
+          x2={plotArea.x + draft.end.x} y2={plotArea.y + draft.end.y}
+          stroke={DRAWING_COLOR} strokeWidth={1.5} pointerEvents="none"
+        />
+      )}
+      {draft && tool === 'rectangle' && (
+        <rect
+          x={plotArea.x + Math.min(draft.start.x, draft.end.x)} y={plotArea.y + Math.min(draft.start.y, draft.end.y)}
+          width={Math.abs(draft.end.x - draft.start.x)} height={Math.abs(draft.end.y - draft.start.y)}
+          stroke={DRAWING_COLOR} fill={DRAWING_COLOR} fillOpacity={0.1} pointerEvents="none"
+        />
+      )}
+    </g>
+  );
+};
+
+/**
+ * A small label drawn in the corner of a sub-pane.
+ * @param {object} props - The component properties.
+ * @param {string} props.text - The label text.
+ * @returns {JSX.Element} The rendered label.
+ */
+const PaneLabel: React.FC<{ text: string }> = ({ text }) => (
+  <span className="absolute left-1 top-0 z-10 text-[10px] text-brand-text-secondary pointer-events-none">{text}</span>
+);
+
+/**
+ * A sub-component that overlays the compared coins' performance on a shared percentage axis, with a
+ * legend and a crosshair tooltip. When a benchmark is chosen, a synchronised sub-pane shows how much
+ * each other coin has outperformed it.
+ * @param {object} props - The component properties.
+ * @param {ComparisonSeries[]} props.series - The coins to compare; the first one sets the time axis.
+ * @param {string | null} props.benchmarkId - The coin to measure relative strength against, if any.
+ * @param {string} props.syncId - The sync group shared by the panes.
+ * @returns {JSX.Element} The rendered comparison chart.
+ */
+const ComparisonChart: React.FC<{ series: ComparisonSeries[]; benchmarkId: string | null; syncId: string }> = ({ series, benchmarkId, syncId }) => {
+  const rows = buildComparisonRows(series, benchmarkId);
+  const spanMs = rows.length > 1 ? rows[rows.length - 1].timestamp - rows[0].timestamp : 0;
+  const tickFormatter = (timestamp: number) => formatAxisLabel(timestamp, spanMs);
+  const benchmark = series.find(s => s.coinId === benchmarkId);
+  const colorOf = (index: number) => COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+  const lineProps = { type: 'monotone' as const, dot: false, strokeWidth: 2, isAnimationActive: false, connectNulls: true };
+  const cursor = { stroke: 'var(--color-text-secondary)', strokeDasharray: '3 3' };
+
+  return (
+    <div className="w-full flex flex-col">
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mb-1 text-xs">
+        {series.map(({ coinId, label }, i) => (
+          <span key={coinId} className="flex items-center gap-1 text-brand-text-secondary">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(i) }} />
+            {label}
+          </span>
+        ))}
+      </div>
+      <div className={benchmark ? 'h-36' : 'h-48'}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} syncId={syncId} margin={{ top: 5, right: 20, left: -20, bottom: benchmark ? 0 : 5 }}>
+            <XAxis dataKey="timestamp" tickFormatter={tickFormatter} hide={!!benchmark} tickLine={false} axisLine={false} tick={{ fill: '#8B949E', fontSize: 12 }} />
+            <YAxis domain={['auto', 'auto']} hide />
+            <Tooltip content={<ComparisonTooltip series={series} benchmark={benchmark} />} cursor={cursor} />
+            <ReferenceLine y={0} stroke="var(--color-text-secondary)" strokeDasharray="3 3" strokeOpacity={0.6} />
+            {series.map(({ coinId, label }, i) => (
+              <Line key={coinId} name={label} dataKey={(row: ComparisonDatum) => row.performance[coinId]} stroke={colorOf(i)} {...lineProps} />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {benchmark && (
+        <div className="relative h-16">
+          <PaneLabel text={`Relative strength vs ${benchmark.label}`} />
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} syncId={syncId} margin={{ top: 4, right: 20, left: -20, bottom: 5 }}>
+              <XAxis dataKey="timestamp" tickFormatter={tickFormatter} tickLine={false} axisLine={false} tick={{ fill: '#8B949E', fontSize: 10 }} />
+              <YAxis domain={['auto', 'auto']} hide />
+              <Tooltip content={() => null} cursor={cursor} />
+              <ReferenceLine y={0} stroke={colorOf(series.indexOf(benchmark))} strokeDasharray="3 3" strokeOpacity={0.6} />
+              {series.map(({ coinId, label }, i) => coinId !== benchmark.coinId && (
+                <Line key={coinId} name={`${label}/${benchmark.label}`} dataKey={(row: ComparisonDatum) => row.strength[coinId]} stroke={colorOf(i)} {...lineProps} strokeWidth={1.5} />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Renders a responsive chart for visualizing cryptocurrency price data, either as an area chart
+ * or as candlesticks with a volume sub-panel. Enabled indicators are overlaid on the price
+ * (moving averages, Bollinger Bands) or drawn in synchronised sub-panes below it (RSI, MACD).
+ * In 'compare' mode the `comparison` series are plotted instead, rebased to 0%. Drawings and alert lines
+ * are shown over the price in the other modes.
  * @param {ChartProps} props - The properties for the component.
- * @returns {JSX.Element} A responsive chart container with the area chart.
+ * @returns {JSX.Element} A responsive chart container with the selected chart type.
  */
-export const Chart: React.FC<ChartProps> = ({ data }) => {
+export const Chart: React.FC<ChartProps> = ({
+  data,
+  currency,
+  mode = 'area',
+  ohlcData = [],
+  indicators = [],
+  comparison = [],
+  benchmarkId = null,
+  drawings = [],
+  alertPrices = [],
+  drawingTool = null,
+  onDrawingComplete,
+}) => {
   // FIX: Use 'as const' to ensure TypeScript infers a tuple type, which is required by the recharts 'domain' prop.
   // This calculates a small buffer around the min/max data points for better visual spacing.
   const yAxisDomain = [
     (dataMin: number) => (dataMin * 0.98),
     (dataMax: number) => (dataMax * 1.02)
   ] as const;
+  // Each chart gets its own sync group so hovering one card does not move the cursors of the others.
+  const syncId = useId();
+
+  if (mode === 'compare') {
+    return <ComparisonChart series={comparison} benchmarkId={benchmarkId} syncId={syncId} />;
+  }
+
+  const points: { timestamp: number }[] = mode === 'candles' ? ohlcData : data;
+  const spanMs = points.length > 1 ? points[points.length - 1].timestamp - points[0].timestamp : 0;
+  const tickFormatter = (timestamp: number) => formatAxisLabel(timestamp, spanMs);
+  const candles: CandleDatum[] = ohlcData.map(candle => ({ ...candle, range: [candle.low, candle.high] }));
+  const rows: (PriceDataPoint | CandleDatum)[] = mode === 'candles'
+    ? withIndicators(candles, candles.map(candle => candle.close), indicators)
+    : withIndicators(data, data.map(point => point.price), indicators);
+
+  const showVolume = mode === 'candles' && candles.some(candle => candle.volume !== undefined);
+  const showRsi = indicators.includes('rsi');
+  const showMacd = indicators.includes('macd');
+  const hasLowerPanes = showVolume || showRsi || showMacd;
+  const xAxisProps = { dataKey: 'timestamp', tickFormatter, tickLine: false, axisLine: false, tick: { fill: '#8B949E', fontSize: 10 } };
+  const paneCursor = { stroke: 'var(--color-text-secondary)', strokeDasharray: '3 3' };
+  const timestamps = points.map(point => point.timestamp);
+  const drawingLayer = drawingTool && onDrawingComplete && (
+    <DrawingLayer tool={drawingTool} timestamps={timestamps} isBand={mode === 'candles'} onComplete={onDrawingComplete} />
+  );
 
   return (
-    <div className="w-full h-48">
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={data} margin={{ top: 5, right: 20, left: -20, bottom: 5 }}>
-            <defs>
-                <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.4}/>
-                    <stop offset="95%" stopColor="#3B82F6" stopOpacity={0}/>
-                </linearGradient>
-            </defs>
-          <XAxis dataKey="name" tickLine={false} axisLine={false} tick={{ fill: '#8B949E', fontSize: 12 }} />
-          <YAxis domain={yAxisDomain} hide />
-          <Tooltip 
-            content={<CustomTooltip />} 
-            cursor={{ stroke: 'var(--color-text-secondary)', strokeDasharray: '3 3' }} 
-          />
-          <Area 
-            type="monotone" 
-            dataKey="price" 
-            stroke="#3B82F6" 
-            strokeWidth={2} 
-            fillOpacity={1} 
-            fill="url(#colorPrice)"
-            activeDot={{ r: 6, strokeWidth: 2, fill: '#3B82F6', stroke: 'var(--color-background)' }} 
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+    <div className="w-full flex flex-col">
+      <div className={hasLowerPanes ? 'h-36' : 'h-48'}>
+        <ResponsiveContainer width="100%" height="100%">
+          {mode === 'candles' ? (
+            <ComposedChart data={rows} syncId={syncId} margin={{ top: 5, right: 20, left: -20, bottom: hasLowerPanes ? 0 : 5 }}>
+              <XAxis dataKey="timestamp" tickFormatter={tickFormatter} hide={hasLowerPanes} tickLine={false} axisLine={false} tick={{ fill: '#8B949E', fontSize: 12 }} />
+              <YAxis domain={yAxisDomain} hide />
+              <Tooltip
+                content={<CandleTooltip currency={currency} />}
+                cursor={{ stroke: 'var(--color-text-secondary)', strokeDasharray: '3 3' }}
+              />
+              <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+              {renderOverlays(indicators)}
+              {renderDrawings(drawings, alertPrices, timestamps)}
+              {drawingLayer}
+            </ComposedChart>
+          ) : (
+            <ComposedChart data={rows} syncId={syncId} margin={{ top: 5, right: 20, left: -20, bottom: hasLowerPanes ? 0 : 5 }}>
+                <defs>
+                    <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.4}/>
+                        <stop offset="95%" stopColor="#3B82F6" stopOpacity={0}/>
+                    </linearGradient>
+                </defs>
+              <XAxis dataKey="timestamp" tickFormatter={tickFormatter} hide={hasLowerPanes} tickLine={false} axisLine={false} tick={{ fill: '#8B949E', fontSize: 12 }} />
+              <YAxis domain={yAxisDomain} hide />
+              <Tooltip 
+                content={<CustomTooltip currency={currency} />} 
+                cursor={{ stroke: 'var(--color-text-secondary)', strokeDasharray: '3 3' }} 
+              />
+              <Area 
+                type="monotone" 
+                dataKey="price" 
+                stroke="#3B82F6" 
+                strokeWidth={2} 
+                fillOpacity={1} 
+                fill="url(#colorPrice)"
+                activeDot={{ r: 6, strokeWidth: 2, fill: '#3B82F6', stroke: 'var(--color-background)' }} 
+              />
+              {renderOverlays(indicators)}
+              {renderDrawings(drawings, alertPrices, timestamps)}
+              {drawingLayer}
+            </ComposedChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+      {showVolume && (
+        <div className="h-12">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={rows} syncId={syncId} margin={{ top: 0, right: 20, left: -20, bottom: 0 }}>
+              <XAxis {...xAxisProps} hide={showRsi || showMacd} />
+              <YAxis hide />
+              <Tooltip content={() => null} cursor={{ fill: 'var(--color-border)', opacity: 0.4 }} />
+              <Bar dataKey="volume" fill="#8B949E" fillOpacity={0.5} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {showRsi && (
+        <div className="relative h-16">
+          <PaneLabel text={`RSI ${INDICATOR_PARAMS.rsi.period}`} />
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} syncId={syncId} margin={{ top: 4, right: 20, left: -20, bottom: 0 }}>
+              <XAxis {...xAxisProps} hide={showMacd} />
+              <YAxis domain={[0, 100]} hide />
+              <Tooltip content={() => null} cursor={paneCursor} />
+              <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" strokeOpacity={0.6} />
+              <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" strokeOpacity={0.6} />
+              <Line type="monotone" dataKey="rsi" stroke={INDICATOR_COLORS.rsi} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {showMacd && (
+        <div className="relative h-16">
+          <PaneLabel text={`MACD ${INDICATOR_PARAMS.macd.fastPeriod}/${INDICATOR_PARAMS.macd.slowPeriod}/${INDICATOR_PARAMS.macd.signalPeriod}`} />
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} syncId={syncId} margin={{ top: 4, right: 20, left: -20, bottom: 5 }}>
+              <XAxis {...xAxisProps} />
+              <YAxis hide />
+              <Tooltip content={() => null} cursor={paneCursor} />
+              <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                {rows.map((row, i) => (
+                  <Cell key={i} fill={((row as IndicatorValues).macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                ))}
+              </Bar>
+              <Line type="monotone" dataKey="macd" stroke={INDICATOR_COLORS.macd} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              <Line type="monotone" dataKey="macdSignal" stroke={INDICATOR_COLORS.macdSignal} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
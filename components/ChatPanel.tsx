@@ -1,16 +1,26 @@
 /**
  * @file This component provides the main chat interface for the application.
- * It displays the conversation history, handles user input, shows a typing indicator,
- * and allows the user to toggle web search for grounded responses.
+ * It displays the conversation history (including the market-data tools the AI called, inline),
+ * handles user input, shows a typing indicator, and allows the user to toggle web search for grounded responses
+ * and to pick the model the session talks to. A streaming response can be stopped and the last one regenerated;
+ * editing a past question forks the conversation, and messages with alternatives let the user switch between branches.
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { Message, GroundingChunk } from '../types';
+import type { Message, GroundingChunk, CoinSearchResult, ToolCall, ChatModel, LLMProviderId } from '../types';
 import { SparkleIcon } from './icons/SparkleIcon';
 import { UserIcon } from './icons/UserIcon';
 import { SendIcon } from './icons/SendIcon';
+import { StopIcon } from './icons/StopIcon';
+import { EditIcon } from './icons/EditIcon';
+import { RefreshIcon } from './icons/RefreshIcon';
 import { GlobeIcon } from './icons/GlobeIcon';
+import { CheckIcon } from './icons/CheckIcon';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { CoinSearchInput } from './CoinSearchInput';
+import { getLLMProvider, listChatModels } from '../services/aiService';
+import type { ChatModelGroup } from '../services/aiService';
+import type { MessageBranchInfo } from '../services/chatBranches';
 
 /**
  * Props for the ChatPanel component.
@@ -26,6 +36,30 @@ interface ChatPanelProps {
    * @param {boolean} useWebSearch - Whether web search should be enabled for this message.
    */
   onSendMessage: (message: string, useWebSearch: boolean) => void;
+  /** The model the current session talks to. */
+  model: ChatModel;
+  /** Callback function to switch the current session to another model. */
+  onModelChange: (model: ChatModel) => void;
+  /** The alternatives to the messages shown, keyed by message ID, for messages that have any. */
+  branches: Record<string, MessageBranchInfo>;
+  /**
+   * Callback function to switch to another branch.
+   * @param {string} messageId - The ID of the sibling message to show instead.
+   */
+  onSelectBranch: (messageId: string) => void;
+  /** Callback function to stop the response being streamed. */
+  onStop: () => void;
+  /**
+   * Callback function to ask for a new response in place of an AI message.
+   * @param {string} messageId - The ID of the AI message.
+   */
+  onRegenerate: (messageId: string) => void;
+  /**
+   * Callback function to send an edited copy of a past user message, forking the conversation.
+   * @param {string} messageId - The ID of the user message.
+   * @param {string} text - The edited text.
+   */
+  onEditMessage: (messageId: string, text: string) => void;
 }
 
 /**
@@ -68,15 +102,204 @@ const MessageSources: React.FC<{ sources: GroundingChunk[] }> = ({ sources }) =>
     </div>
 );
 
+/**
+ * Formats a tool call's arguments for display, e.g. `coin: "bitcoin", timeframe: "1M"`.
+ * @param {Record<string, unknown>} args - The call's arguments.
+ * @returns {string} The formatted arguments.
+ */
+const formatToolArgs = (args: Record<string, unknown>): string =>
+    Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+/**
+ * A component to display the tools the AI called for a message, each expandable to show its result.
+ * @param {object} props - Component properties.
+ * @param {ToolCall[]} props.toolCalls - The tool calls, in call order.
+ * @returns {JSX.Element} A list of the tool calls and their results.
+ */
+const MessageToolCalls: React.FC<{ toolCalls: ToolCall[] }> = ({ toolCalls }) => (
+    <div className="not-prose mb-3 space-y-1.5">
+      {toolCalls.map(call => (
+        <details key={call.id} className="bg-brand-surface/50 rounded-md text-xs">
+          <summary className="flex items-center gap-2 p-2 cursor-pointer">
+            <span className="font-mono text-brand-blue truncate">{`${call.name}(${formatToolArgs(call.args)})`}</span>
+            <span className="ml-auto flex-shrink-0">
+              {call.status === 'running' ? (
+                <span className="text-brand-text-secondary animate-pulse">Running...</span>
+              ) : call.status === 'done' ? (
+                <CheckIcon className="w-4 h-4 text-brand-green" />
+              ) : (
+                <span className="text-red-500">Failed</span>
+              )}
+            </span>
+          </summary>
+          {call.status !== 'running' && (
+            <pre className="px-2 pb-2 max-h-48 overflow-auto whitespace-pre-wrap break-all text-brand-text-secondary">
+              {call.status === 'error' ? call.error : JSON.stringify(call.result, null, 2)}
+            </pre>
+          )}
+        </details>
+      ))}
+    </div>
+);
+
+/**
+ * A control for switching between a message and its alternatives, e.g. "‹ 2/3 ›".
+ * @param {object} props - Component properties.
+ * @param {MessageBranchInfo} props.info - The message's siblings and its position among them.
+ * @param {(messageId: string) => void} props.onSelect - Callback for the sibling to show.
+ * @param {boolean} props.disabled - Whether switching is disabled (e.g., while a response is streaming).
+ * @returns {JSX.Element} The rendered navigator.
+ */
+const BranchNavigator: React.FC<{ info: MessageBranchInfo; onSelect: (messageId: string) => void; disabled: boolean }> = ({ info, onSelect, disabled }) => {
+    const { siblingIds, index } = info;
+    const buttonClass = 'px-1 rounded hover:text-brand-text-primary disabled:opacity-40 disabled:cursor-not-allowed';
+    return (
+        <span className="flex items-center gap-1 tabular-nums">
+            <button type="button" className={buttonClass} disabled={disabled || index === 0} onClick={() => onSelect(siblingIds[index - 1])} aria-label="Previous branch">‹</button>
+            <span>{`${index + 1}/${siblingIds.length}`}</span>
+            <button type="button" className={buttonClass} disabled={disabled || index === siblingIds.length - 1} onClick={() => onSelect(siblingIds[index + 1])} aria-label="Next branch">›</button>
+        </span>
+    );
+};
+
+/**
+ * An inline editor for a sent user message. Saving sends the edited text as a new branch; the original stays.
+ * @param {object} props - Component properties.
+ * @param {string} props.initialText - The message's text.
+ * @param {(text: string) => void} props.onSave - Callback for the edited text.
+ * @param {() => void} props.onCancel - Callback to close the editor without sending.
+ * @returns {JSX.Element} The rendered editor.
+ */
+const MessageEditor: React.FC<{ initialText: string; onSave: (text: string) => void; onCancel: () => void }> = ({ initialText, onSave, onCancel }) => {
+    const [text, setText] = useState(initialText);
+    const canSave = text.trim() !== '' && text.trim() !== initialText.trim();
+
+    /**
+     * Saves on 'Enter' and cancels on 'Escape', allowing 'Shift+Enter' for new lines.
+     * @param {React.KeyboardEvent<HTMLTextAreaElement>} e - The keyboard event.
+     */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            if (canSave) onSave(text.trim());
+        } else if (e.key === 'Escape') {
+            onCancel();
+        }
+    };
+
+    return (
+        <div className="w-full max-w-xl">
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={handleKeyDown}
+                rows={Math.min(8, text.split('\n').length + 1)}
+                className="w-full bg-brand-background border border-brand-border rounded-lg py-2 px-3 text-sm text-brand-text-primary resize-none focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                aria-label="Edit message"
+                autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-2">
+                <button type="button" onClick={onCancel} className="px-3 py-1 rounded-lg text-sm text-brand-text-secondary hover:text-brand-text-primary transition-colors">
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onSave(text.trim())}
+                    disabled={!canSave}
+                    className="px-3 py-1 rounded-lg text-sm text-white bg-brand-blue hover:bg-brand-blue-light disabled:bg-brand-border disabled:cursor-not-allowed transition-colors"
+                >
+                    Send
+                </button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Encodes a model as a single select option value, e.g. 'ollama:llama3.1:8b'.
+ * @param {ChatModel} model - The model.
+ * @returns {string} The option value.
+ */
+const toModelValue = (model: ChatModel): string => `${model.provider}:${model.model}`;
+
+/**
+ * Decodes a select option value back into a model. Model names may themselves contain colons.
+ * @param {string} value - The option value.
+ * @returns {ChatModel} The model.
+ */
+const fromModelValue = (value: string): ChatModel => {
+    const separator = value.indexOf(':');
+    return { provider: value.slice(0, separator) as LLMProviderId, model: value.slice(separator + 1) };
+};
+
+/**
+ * A dropdown for picking the session's model, grouped by provider. The current model stays listed
+ * (marked unavailable) even if its provider cannot be reached right now, and a provider's security
+ * warning (e.g., a public API key) is shown next to it while one of its models is picked.
+ * @param {object} props - Component properties.
+ * @param {ChatModel} props.model - The session's model.
+ * @param {(model: ChatModel) => void} props.onChange - Callback for the picked model.
+ * @param {boolean} props.disabled - Whether picking is disabled (e.g., while a response is streaming).
+ * @returns {JSX.Element} The rendered picker.
+ */
+const ModelPicker: React.FC<{ model: ChatModel; onChange: (model: ChatModel) => void; disabled: boolean }> = ({ model, onChange, disabled }) => {
+    const [groups, setGroups] = useState<ChatModelGroup[]>([]);
+
+    // Effect to load the models of the configured providers.
+    useEffect(() => {
+        let isCancelled = false;
+        listChatModels().then(result => {
+            if (!isCancelled) setGroups(result);
+        });
+        return () => { isCancelled = true; };
+    }, []);
+
+    const isListed = groups.some(group => group.provider === model.provider && group.models.includes(model.model));
+    const securityWarning = getLLMProvider(model.provider).securityWarning;
+
+    return (
+        <div className="flex items-center gap-2 min-w-0">
+            <select
+                value={toModelValue(model)}
+                onChange={(e) => onChange(fromModelValue(e.target.value))}
+                disabled={disabled}
+                className="min-w-0 max-w-[14rem] bg-brand-background border border-brand-border rounded-lg py-1 px-2 text-sm text-brand-text-primary focus:outline-none focus:ring-2 focus:ring-brand-blue disabled:opacity-50"
+                aria-label="Model"
+                title="The model this chat talks to"
+            >
+                {!isListed && (
+                    <option value={toModelValue(model)}>
+                        {`${model.model}${groups.length > 0 ? ' (unavailable)' : ''}`}
+                    </option>
+                )}
+                {groups.map(group => (
+                    <optgroup key={group.provider} label={group.name}>
+                        {group.models.map(name => (
+                            <option key={name} value={toModelValue({ provider: group.provider, model: name })}>{name}</option>
+                        ))}
+                    </optgroup>
+                ))}
+            </select>
+            {securityWarning && (
+                <span className="text-xs text-yellow-500 whitespace-nowrap" title={securityWarning}>Key exposed</span>
+            )}
+        </div>
+    );
+};
+
 /**
  * The main chat panel component.
  * It manages its own state for the input field and the web search toggle.
  * @param {ChatPanelProps} props - The properties for the component.
  * @returns {JSX.Element} The rendered chat panel.
  */
-export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, onSendMessage }) => {
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, onSendMessage, model, onModelChange, branches, onSelectBranch, onStop, onRegenerate, onEditMessage }) => {
   const [inputValue, setInputValue] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [isWebSearchEnabled, setIsWebSearchEnabled] = useState(false);
+  const provider = getLLMProvider(model.provider);
+  // Models that cannot search the web answer with the market-data tools instead.
+  const isWebSearchActive = isWebSearchEnabled && provider.supportsGrounding;
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
@@ -107,11 +330,31 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, onSen
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (inputValue.trim() && !isLoading) {
-      onSendMessage(inputValue.trim(), isWebSearchEnabled);
+      onSendMessage(inputValue.trim(), isWebSearchActive);
       setInputValue('');
     }
   };
 
+  /**
+   * Sends the edited text of a past message and closes the editor.
+   * @param {string} messageId - The ID of the edited message.
+   * @param {string} text - The edited text.
+   */
+  const handleSaveEdit = (messageId: string, text: string) => {
+    setEditingMessageId(null);
+    onEditMessage(messageId, text);
+  };
+
+  /**
+   * Inserts a reference to a searched coin into the message being composed.
+   * @param {CoinSearchResult} coin - The coin picked from the search input.
+   */
+  const handleInsertCoin = (coin: CoinSearchResult) => {
+    const mention = `${coin.name} (${coin.symbol.toUpperCase()})`;
+    setInputValue(prev => (prev && !prev.endsWith(' ') ? `${prev} ${mention} ` : `${prev}${mention} `));
+    textareaRef.current?.focus();
+  };
+
   /**
    * Handles the 'Enter' key press in the textarea to send messages,
    * while allowing 'Shift+Enter' for new lines.
@@ -136,7 +379,13 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, onSen
                 <p className="text-sm mt-4">Toggle on 'Web Search' for real-time data.</p>
             </div>
         )}
-        {messages.map((message) => (
+        {messages.map((message, index) => {
+          const branchInfo = branches[message.id];
+          const isLastAiMessage = message.sender === 'ai' && index === messages.length - 1;
+          const canRegenerate = isLastAiMessage && !isLoading && messages[index - 1]?.sender === 'user';
+          const canEdit = message.sender === 'user' && !isLoading;
+          const actionClass = 'p-1 rounded hover:text-brand-text-primary transition-colors';
+          return (
           <div
             key={message.id}
             className={`flex items-start gap-3 max-w-2xl ${
@@ -154,18 +403,42 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, onSen
                 <UserIcon className="w-5 h-5 text-white" />
               )}
             </div>
-            <div
-              className={`p-4 rounded-2xl prose prose-sm max-w-full break-words ${
-                message.sender === 'ai'
-                  ? 'bg-brand-background text-brand-text-primary'
-                  : 'bg-brand-blue text-white prose-invert'
-              }`}
-            >
-              {message.sender === 'ai' ? <MarkdownRenderer text={message.text} /> : <p className="whitespace-pre-wrap">{message.text}</p>}
-              {message.sources && message.sources.length > 0 && <MessageSources sources={message.sources} />}
+            <div className={`flex flex-col min-w-0 ${message.sender === 'user' ? 'items-end' : 'items-start'}`}>
+              {editingMessageId === message.id ? (
+                <MessageEditor initialText={message.text} onSave={(text) => handleSaveEdit(message.id, text)} onCancel={() => setEditingMessageId(null)} />
+              ) : (
+                <div
+                  className={`p-4 rounded-2xl prose prose-sm max-w-full break-words ${
+                    message.sender === 'ai'
+                      ? 'bg-brand-background text-brand-text-primary'
+                      : 'bg-brand-blue text-white prose-invert'
+                  }`}
+                >
+                  {message.toolCalls && message.toolCalls.length > 0 && <MessageToolCalls toolCalls={message.toolCalls} />}
+                  {message.sender === 'ai' ? <MarkdownRenderer text={message.text} /> : <p className="whitespace-pre-wrap">{message.text}</p>}
+                  {message.isStopped && <p className="text-xs italic text-brand-text-secondary">Response stopped.</p>}
+                  {message.sources && message.sources.length > 0 && <MessageSources sources={message.sources} />}
+                </div>
+              )}
+              {editingMessageId !== message.id && (branchInfo || canRegenerate || canEdit) && (
+                <div className="flex items-center gap-1 mt-1 text-xs text-brand-text-secondary">
+                  {branchInfo && <BranchNavigator info={branchInfo} onSelect={onSelectBranch} disabled={isLoading} />}
+                  {canEdit && (
+                    <button type="button" onClick={() => setEditingMessageId(message.id)} className={actionClass} aria-label="Edit message" title="Edit and resend as a new branch">
+                      <EditIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                  {canRegenerate && (
+                    <button type="button" onClick={() => onRegenerate(message.id)} className={actionClass} aria-label="Regenerate response" title="Regenerate response">
+                      <RefreshIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
-        ))}
+          );
+        })}
         {isLoading && (
           <div className="flex items-start gap-3">
             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-brand-blue flex items-center justify-center">
@@ -187,36 +460,55 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, isLoading, onSen
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={isWebSearchEnabled ? "Ask about real-time market events..." : "Ask anything about crypto..."}
+            placeholder={isWebSearchActive ? "Ask about real-time market events..." : "Ask anything about crypto..."}
             rows={1}
             className="w-full bg-brand-background border border-brand-border rounded-lg py-3 pl-4 pr-12 text-brand-text-primary resize-none focus:outline-none focus:ring-2 focus:ring-brand-blue transition-all"
             disabled={isLoading}
             style={{ maxHeight: '150px' }}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !inputValue.trim()}
-            className="absolute right-3 bottom-2.5 p-2 rounded-full bg-brand-blue hover:bg-brand-blue-light disabled:bg-brand-border disabled:cursor-not-allowed transition-colors"
-            aria-label="Send message"
-          >
-            <SendIcon className="w-5 h-5 text-white" />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="absolute right-3 bottom-2.5 p-2 rounded-full bg-brand-blue hover:bg-brand-blue-light transition-colors"
+              aria-label="Stop response"
+              title="Stop response"
+            >
+              <StopIcon className="w-5 h-5 text-white" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!inputValue.trim()}
+              className="absolute right-3 bottom-2.5 p-2 rounded-full bg-brand-blue hover:bg-brand-blue-light disabled:bg-brand-border disabled:cursor-not-allowed transition-colors"
+              aria-label="Send message"
+            >
+              <SendIcon className="w-5 h-5 text-white" />
+            </button>
+          )}
         </form>
-        <div className="flex items-center justify-end mt-2">
-            <label htmlFor="web-search-toggle" className="flex items-center cursor-pointer group">
-                <span className={`text-sm font-medium ${isWebSearchEnabled ? 'text-brand-blue' : 'text-brand-text-secondary'} group-hover:text-brand-text-primary transition-colors mr-2`}>Web Search</span>
+        <div className="flex items-center justify-between gap-4 mt-2">
+            <CoinSearchInput onSelect={handleInsertCoin} placeholder="Mention a coin..." dropUp className="w-56 text-sm" />
+            <ModelPicker model={model} onChange={onModelChange} disabled={isLoading} />
+            <label
+                htmlFor="web-search-toggle"
+                className={`flex items-center group ${provider.supportsGrounding ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}`}
+                title={provider.supportsGrounding ? undefined : `${provider.name} models cannot search the web; they use live market data tools instead.`}
+            >
+                <span className={`text-sm font-medium ${isWebSearchActive ? 'text-brand-blue' : 'text-brand-text-secondary'} group-hover:text-brand-text-primary transition-colors mr-2`}>Web Search</span>
                 <div className="relative">
                     <input 
                         type="checkbox" 
                         id="web-search-toggle" 
                         className="sr-only" 
-                        checked={isWebSearchEnabled}
+                        checked={isWebSearchActive}
+                        disabled={!provider.supportsGrounding}
                         onChange={() => setIsWebSearchEnabled(!isWebSearchEnabled)}
                     />
-                    <div className={`block w-10 h-6 rounded-full transition-colors ${isWebSearchEnabled ? 'bg-brand-blue' : 'bg-brand-border'}`}></div>
-                    <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${isWebSearchEnabled ? 'translate-x-4' : ''}`}></div>
+                    <div className={`block w-10 h-6 rounded-full transition-colors ${isWebSearchActive ? 'bg-brand-blue' : 'bg-brand-border'}`}></div>
+                    <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${isWebSearchActive ? 'translate-x-4' : ''}`}></div>
                 </div>
-                <GlobeIcon className={`w-5 h-5 ml-2 transition-colors ${isWebSearchEnabled ? 'text-brand-blue' : 'text-brand-text-secondary'}`} />
+                <GlobeIcon className={`w-5 h-5 ml-2 transition-colors ${isWebSearchActive ? 'text-brand-blue' : 'text-brand-text-secondary'}`} />
             </label>
         </div>
       </div>
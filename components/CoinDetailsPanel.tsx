@@ -0,0 +1,200 @@
+/**
+ * @file This component shows a coin's fundamentals: valuation, supply, volume, all-time high and low,
+ * categories, project links and description. It loads them itself from the coin details endpoint.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { CoinDetails, DataFreshness, QuoteCurrency } from '../types';
+import { fetchCoinDetails } from '../services/coingeckoService';
+import { formatPrice, formatCompactAmount } from '../services/currencyService';
+import { FreshnessBadge } from './CryptoCard';
+
+/**
+ * Props for the CoinDetailsPanel component.
+ */
+interface CoinDetailsPanelProps {
+  /** The ID of the coin to show. */
+  coinId: string;
+  /** The quote currency to show amounts in. */
+  currency: QuoteCurrency;
+}
+
+/** The number of characters of the description shown before it is expanded. */
+const DESCRIPTION_PREVIEW_LENGTH = 280;
+
+const supplyFormatter = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 2 });
+
+/**
+ * Formats a supply figure in units of the coin, e.g. '19.7M BTC'.
+ * @param {number | null} value - The supply.
+ * @param {string} symbol - The coin's ticker symbol.
+ * @returns {string} The formatted supply, or a dash if unknown.
+ */
+const formatSupply = (value: number | null, symbol: string): string =>
+  value === null ? '—' : `${supplyFormatter.format(value)} ${symbol.toUpperCase()}`;
+
+/**
+ * Formats an all-time high or low with its date and the current price's distance from it.
+ * @param {number | null} price - The all-time high or low.
+ * @param {number | null} date - When it was reached, in milliseconds.
+ * @param {number | null} change - The current price's percentage distance from it.
+ * @param {QuoteCurrency} currency - The currency the price is quoted in.
+ * @returns {{ value: string, detail: string | null }} The formatted price and its detail line.
+ */
+const formatExtreme = (price: number | null, date: number | null, change: number | null, currency: QuoteCurrency) => ({
+  value: price === null ? '—' : formatPrice(price, currency),
+  detail: [
+    date !== null ? new Date(date).toLocaleDateString() : null,
+    change !== null ? `${change > 0 ? '+' : ''}${change.toFixed(1)}% from here` : null,
+  ].filter(Boolean).join(' · ') || null,
+});
+
+/**
+ * A sub-component showing a single labelled figure.
+ * @param {object} props - The component properties.
+ * @param {string} props.label - The figure's name.
+ * @param {string} props.value - The formatted figure.
+ * @param {string | null} [props.detail] - An optional line shown below the figure.
+ * @returns {JSX.Element} The rendered figure.
+ */
+const Figure: React.FC<{ label: string; value: string; detail?: string | null }> = ({ label, value, detail }) => (
+  <div>
+    <p className="text-xs text-brand-text-secondary">{label}</p>
+    <p className="text-sm font-semibold text-brand-text-primary">{value}</p>
+    {detail && <p className="text-xs text-brand-text-secondary">{detail}</p>}
+  </div>
+);
+
+/**
+ * Lists a coin's links as label/URL pairs, skipping those it does not have.
+ * @param {CoinDetails['links']} links - The coin's links.
+ * @returns {{ label: string, url: string }[]} The links to show.
+ */
+const getLinkList = (links: CoinDetails['links']): { label: string; url: string }[] => [
+  links.homepage && { label: 'Website', url: links.homepage },
+  links.whitepaper && { label: 'Whitepaper', url: links.whitepaper },
+  links.explorers[0] && { label: 'Explorer', url: links.explorers[0] },
+  links.github[0] && { label: 'GitHub', url: links.github[0] },
+  links.twitter && { label: 'Twitter', url: links.twitter },
+  links.reddit && { label: 'Reddit', url: links.reddit },
+].filter((link): link is { label: string; url: string } => !!link);
+
+/**
+ * A panel with a coin's fundamentals, loaded whenever the coin or currency changes.
+ * @param {CoinDetailsPanelProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered panel.
+ */
+export const CoinDetailsPanel: React.FC<CoinDetailsPanelProps> = ({ coinId, currency }) => {
+  const [details, setDetails] = useState<CoinDetails | null>(null);
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
+
+  // Effect to load the coin's details, ignoring responses for a coin or currency that is no longer shown.
+  useEffect(() => {
+    let isCancelled = false;
+    const loadDetails = async () => {
+      setIsLoading(true);
+      setError(null);
+      setDetails(null);
+      setFreshness(null);
+      setIsDescriptionExpanded(false);
+      try {
+        const result = await fetchCoinDetails(coinId, currency, revalidated => {
+          if (isCancelled) return;
+          setDetails(revalidated.data);
+          setFreshness(revalidated.freshness);
+        });
+        if (isCancelled) return;
+        setDetails(result.data);
+        setFreshness(result.freshness);
+      } catch (err: any) {
+        if (isCancelled) return;
+        setError(err.message || 'Could not load coin details.');
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+    loadDetails();
+    return () => { isCancelled = true; };
+  }, [coinId, currency]);
+
+  /**
+   * Renders the panel's content based on the current state.
+   * @returns {JSX.Element} The content to be displayed (loader, error, or details).
+   */
+  const renderContent = () => {
+    if (isLoading) {
+      return <div className="text-brand-text-secondary text-center p-4">Loading fundamentals...</div>;
+    }
+    if (error || !details) {
+      return <div className="text-brand-text-secondary text-center p-4">Fundamentals are unavailable right now.</div>;
+    }
+    const ath = formatExtreme(details.ath, details.ath_date, details.ath_change_percentage, currency);
+    const atl = formatExtreme(details.atl, details.atl_date, details.atl_change_percentage, currency);
+    const links = getLinkList(details.links);
+    const isLongDescription = details.description.length > DESCRIPTION_PREVIEW_LENGTH;
+    const description = isLongDescription && !isDescriptionExpanded
+      ? `${details.description.slice(0, DESCRIPTION_PREVIEW_LENGTH).trimEnd()}…`
+      : details.description;
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Figure
+            label="Market Cap"
+            value={details.market_cap !== null ? formatCompactAmount(details.market_cap, currency) : '—'}
+            detail={details.market_cap_rank ? `Rank #${details.market_cap_rank}` : null}
+          />
+          <Figure label="Fully Diluted Valuation" value={details.fully_diluted_valuation !== null ? formatCompactAmount(details.fully_diluted_valuation, currency) : '—'} />
+          <Figure label="Volume (24h)" value={details.total_volume !== null ? formatCompactAmount(details.total_volume, currency) : '—'} />
+          <Figure label="Circulating Supply" value={formatSupply(details.circulating_supply, details.symbol)} />
+          <Figure label="Total Supply" value={formatSupply(details.total_supply, details.symbol)} />
+          <Figure label="Max Supply" value={details.max_supply !== null ? formatSupply(details.max_supply, details.symbol) : '∞'} />
+          <Figure label="All-Time High" value={ath.value} detail={ath.detail} />
+          <Figure label="All-Time Low" value={atl.value} detail={atl.detail} />
+        </div>
+
+        {details.categories.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {details.categories.map(category => (
+              <span key={category} className="py-0.5 px-2 rounded-full text-xs bg-brand-background text-brand-text-secondary">{category}</span>
+            ))}
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <div className="flex flex-wrap gap-3 text-sm">
+            {links.map(({ label, url }) => (
+              <a key={label} href={url} target="_blank" rel="noopener noreferrer" className="text-brand-blue hover:underline">{label}</a>
+            ))}
+          </div>
+        )}
+
+        {description && (
+          <div className="text-sm text-brand-text-secondary whitespace-pre-line">
+            {description}
+            {isLongDescription && (
+              <button onClick={() => setIsDescriptionExpanded(prev => !prev)} className="ml-1 text-brand-blue hover:underline">
+                {isDescriptionExpanded ? 'Show less' : 'Read more'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full shadow-lg">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h4 className="text-lg font-bold text-brand-text-primary">
+          Fundamentals{details ? ` · ${details.symbol.toUpperCase()}` : ''}
+        </h4>
+        <FreshnessBadge freshness={freshness} />
+      </div>
+      {renderContent()}
+    </div>
+  );
+};
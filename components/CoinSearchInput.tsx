@@ -0,0 +1,176 @@
+/**
+ * @file This component provides a debounced autocomplete input for finding cryptocurrencies
+ * by name, ticker or contract address. It resolves the user's input to a canonical coin ID
+ * via the `coingeckoService` search functions.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { CoinSearchResult } from '../types';
+import { searchCoins, resolveCoin } from '../services/coingeckoService';
+
+/**
+ * Props for the CoinSearchInput component.
+ */
+interface CoinSearchInputProps {
+  /** Callback function invoked with the coin the user picked or typed. */
+  onSelect: (coin: CoinSearchResult) => void;
+  /** Optional placeholder text for the input field. */
+  placeholder?: string;
+  /** Whether the suggestions list should open above the input (e.g., near the bottom of the screen). */
+  dropUp?: boolean;
+  /** Optional additional CSS classes for the container. */
+  className?: string;
+}
+
+/** The delay in milliseconds before a search is issued after the user stops typing. */
+const DEBOUNCE_MS = 300;
+/** The minimum query length before suggestions are fetched. */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * An autocomplete input that suggests coins as the user types.
+ * It manages its own state for the query, the suggestions and keyboard highlighting.
+ * @param {CoinSearchInputProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered search input and suggestions list.
+ */
+export const CoinSearchInput: React.FC<CoinSearchInputProps> = ({
+  onSelect,
+  placeholder = 'Search coin by name, ticker or contract',
+  dropUp = false,
+  className = '',
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CoinSearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const latestQueryRef = useRef('');
+
+  // Effect to debounce the query and fetch suggestions.
+  useEffect(() => {
+    const trimmed = query.trim();
+    latestQueryRef.current = trimmed;
+    setError(null);
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchCoins(trimmed);
+      // Ignore responses for queries the user has already moved past.
+      if (latestQueryRef.current !== trimmed) return;
+      setResults(found);
+      setHighlightedIndex(found.length > 0 ? 0 : -1);
+      setIsSearching(false);
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  /**
+   * Selects a coin, notifies the parent and resets the input.
+   * @param {CoinSearchResult} coin - The chosen coin.
+   */
+  const selectCoin = (coin: CoinSearchResult) => {
+    onSelect(coin);
+    setQuery('');
+    setResults([]);
+    setIsOpen(false);
+  };
+
+  /**
+   * Handles the form submission. If a suggestion is highlighted it is used; otherwise
+   * the raw input is resolved to a coin ID (e.g., a full name or contract address).
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (highlightedIndex >= 0 && results[highlightedIndex]) {
+      selectCoin(results[highlightedIndex]);
+      return;
+    }
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    const coin = await resolveCoin(trimmed);
+    if (coin) {
+      selectCoin(coin);
+    } else {
+      setError(`No coin found for "${trimmed}".`);
+    }
+  };
+
+  /**
+   * Handles arrow-key navigation and closing of the suggestions list.
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - The keyboard event.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlightedIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showSuggestions = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <form onSubmit={handleSubmit} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={placeholder}
+        className="w-full bg-brand-background border border-brand-border rounded-lg py-2 px-3 text-brand-text-primary placeholder-brand-text-secondary focus:outline-none focus:ring-2 focus:ring-brand-blue"
+        aria-label="Search coins"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+      />
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className={`absolute left-0 right-0 z-20 max-h-64 overflow-y-auto bg-brand-surface border border-brand-border rounded-lg shadow-2xl ${
+            dropUp ? 'bottom-full mb-1' : 'top-full mt-1'
+          }`}
+        >
+          {isSearching && results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-brand-text-secondary">Searching...</li>
+          ) : results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-brand-text-secondary">No matches. Press Enter to resolve.</li>
+          ) : (
+            results.map((coin, index) => (
+              <li
+                key={coin.id}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                onMouseDown={(e) => e.preventDefault()} // Keep focus so the click registers before blur
+                onClick={() => selectCoin(coin)}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                className={`flex items-center gap-2 px-3 py-2 cursor-pointer text-sm ${
+                  index === highlightedIndex ? 'bg-brand-blue/20' : 'hover:bg-brand-border/50'
+                }`}
+              >
+                {coin.thumb ? <img src={coin.thumb} alt="" className="w-5 h-5 rounded-full" /> : <span className="w-5 h-5" />}
+                <span className="font-semibold text-brand-text-primary truncate">{coin.name}</span>
+                <span className="text-brand-text-secondary uppercase">{coin.symbol}</span>
+                {coin.market_cap_rank && <span className="ml-auto text-xs text-brand-text-secondary">#{coin.market_cap_rank}</span>}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </form>
+  );
+};
\ No newline at end of file
@@ -1,16 +1,23 @@
 /**
  * @file This component displays a detailed card for a single cryptocurrency.
- * It includes the current price, 24h change, a historical price chart,
- * timeframe selection, and an option to set price alerts. It also visualizes
+ * It includes the current price, 24h change, a historical price chart (as an area or as candlesticks
+ * with volume), timeframe selection, and an option to set price alerts. It also visualizes
  * the data connection status.
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { Timeframe, PriceDataPoint, CoinData } from '../types';
-import { fetchCoinHistory } from '../services/coingeckoService';
+import type { Timeframe, ChartPeriod, DateRange, DataFreshness, PriceDataPoint, OhlcDataPoint, ChartMode, CoinData, QuoteCurrency, IndicatorType, ComparisonSeries, CoinSearchResult, Alert, ChartDrawing, DrawingTool } from '../types';
+import { fetchCoinHistory, fetchCoinOhlc } from '../services/coingeckoService';
+import { formatPrice } from '../services/currencyService';
+import { INDICATORS } from '../services/indicators';
+import { getPeriodKey } from '../services/marketDataProviders';
+import { exportCoinHistory, downloadExportFile } from '../services/exportService';
 import type { ConnectionStatus } from '../services/coingeckoService';
 import { Chart } from './Chart';
+import { ExportMenu } from './ExportMenu';
+import { CoinSearchInput } from './CoinSearchInput';
 import { BellIcon } from './icons/BellIcon';
+import { TrashIcon } from './icons/TrashIcon';
 import { WifiIcon } from './icons/WifiIcon';
 import { WifiOffIcon } from './icons/WifiOffIcon';
 import { RefreshIcon } from './icons/RefreshIcon';
@@ -23,6 +30,10 @@ interface ConnectionState {
   status: ConnectionStatus;
   /** A timestamp until which the connection is suspended (if applicable). */
   trippedUntil: number;
+  /** The name of the data provider that last answered (e.g., 'CoinGecko'), if any. */
+  provider: string | null;
+  /** The current polling cadence in milliseconds, or null while streaming or paused. */
+  pollIntervalMs: number | null;
 }
 
 /**
@@ -31,24 +42,76 @@ interface ConnectionState {
 interface CryptoCardProps {
   /** The data for the cryptocurrency to display. */
   coinData: CoinData;
+  /** The quote currency that `coinData` and the chart are priced in. */
+  currency: QuoteCurrency;
   /** Callback function to open the price alert modal. */
   onOpenAlertModal: (coinId: string, coinName: string, currentPrice: number) => void;
   /** The current state of the data connection. */
   connectionState: ConnectionState;
   /** Callback function to manually trigger a data reconnection attempt. */
   onManualReconnect: () => void;
+  /** Whether this card is the currently selected coin (e.g., for AI analysis). */
+  isSelected?: boolean;
+  /** Optional callback function invoked when the card is clicked to select its coin. */
+  onSelect?: (coinId: string) => void;
+  /** Optional callback function to remove the coin from the watchlist. */
+  onRemove?: (coinId: string) => void;
+  /** The technical indicators enabled on this card's chart. */
+  indicators?: IndicatorType[];
+  /** Optional callback function invoked when the user toggles an indicator. */
+  onIndicatorsChange?: (coinId: string, indicators: IndicatorType[]) => void;
+  /** The user's drawings on this card's chart, keyed by period (see `getPeriodKey`). */
+  drawings?: Record<string, ChartDrawing[]>;
+  /** Optional callback function invoked when the user adds or removes drawings for a period. */
+  onDrawingsChange?: (coinId: string, periodKey: string, drawings: ChartDrawing[]) => void;
+  /** The price alerts set for this coin, drawn as dashed lines on the chart. */
+  alerts?: Alert[];
+  /** Optional callback function to create a price alert from a drawn level. */
+  onCreateAlert?: (alert: Omit<Alert, 'id' | 'createdAt'>) => void;
 }
 
+/** A coin compared against the card's coin in 'compare' mode. */
+interface ComparedCoin {
+  /** The canonical coin ID. */
+  id: string;
+  /** The coin's ticker symbol, used as its label. */
+  symbol: string;
+}
+
+/** The coins compared against a card's coin until the user picks others. */
+const DEFAULT_COMPARED_COINS: ComparedCoin[] = [
+  { id: 'bitcoin', symbol: 'btc' },
+  { id: 'ethereum', symbol: 'eth' },
+];
+
+/** The most coins that can be compared against a card's coin at once. */
+const MAX_COMPARED_COINS = 5;
+
+/** The drawing tools offered on the chart, in toolbar order. */
+const DRAWING_TOOLS: { tool: DrawingTool; label: string }[] = [
+  { tool: 'level', label: 'Level' },
+  { tool: 'trendline', label: 'Trend line' },
+  { tool: 'rectangle', label: 'Rectangle' },
+];
+
+/**
+ * Formats a polling cadence, e.g. '15s' or '5m'.
+ * @param {number} intervalMs - The interval in milliseconds.
+ * @returns {string} The formatted interval.
+ */
+const formatPollInterval = (intervalMs: number): string =>
+    intervalMs < 60000 ? `${Math.round(intervalMs / 1000)}s` : `${Math.round(intervalMs / 60000)}m`;
+
 /**
  * A sub-component that displays the current data connection status
- * (polling, disconnected, or suspended) with appropriate icons and text.
+ * (streaming, polling, disconnected, or suspended) with appropriate icons and text.
  * @param {object} props - The component properties.
  * @param {ConnectionState} props.state - The current connection state.
  * @param {() => void} props.onReconnect - Callback to trigger a manual reconnect.
  * @returns {JSX.Element} The rendered status indicator.
  */
 const StatusIndicator: React.FC<{ state: ConnectionState; onReconnect: () => void }> = ({ state, onReconnect }) => {
-    const { status, trippedUntil } = state;
+    const { status, trippedUntil, provider, pollIntervalMs } = state;
     const [countdown, setCountdown] = useState(0);
 
     // Effect to manage the countdown timer when the connection is suspended.
@@ -78,7 +141,14 @@ const StatusIndicator: React.FC<{ state: ConnectionState; onReconnect: () => voi
     }, [status, trippedUntil]);
 
     const statusInfo = {
-        polling: { icon: WifiIcon, color: 'text-yellow-500', text: 'Connection active. Updates via polling.' },
+        streaming: { icon: WifiIcon, color: 'text-brand-green', text: 'Connection active. Streaming live prices.' },
+        polling: {
+            icon: WifiIcon,
+            color: 'text-yellow-500',
+            text: pollIntervalMs
+                ? `Connection active. Updates via polling every ${formatPollInterval(pollIntervalMs)}.`
+                : 'Connection active. Polling paused while the tab is hidden.',
+        },
         disconnected: { icon: WifiOffIcon, color: 'text-red-500', text: 'Connection failed. Displaying cached data.' },
         suspended: { icon: WifiOffIcon, color: 'text-orange-500', text: 'Connection suspended. Retrying...' },
     };
@@ -107,34 +177,342 @@ const StatusIndicator: React.FC<{ state: ConnectionState; onReconnect: () => voi
                     <Icon className={`w-5 h-5 transition-colors ${color}`} />
                 </>
             ) : (
-                <div className="relative">
-                     <Icon className={`w-5 h-5 transition-colors ${color}`} />
-                     {/* Keep tooltip for polling status for less UI clutter */}
-                     <div className="absolute top-full right-0 mt-2 w-max bg-brand-surface border border-brand-border text-brand-text-primary text-xs rounded-md px-2 py-1 shadow-lg opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                        {text}
+                <>
+                    {provider && <span className="text-xs text-brand-text-secondary">{provider}</span>}
+                    <div className="relative">
+                        <Icon className={`w-5 h-5 transition-colors ${color}`} />
+                        {/* Keep tooltip for streaming and polling statuses for less UI clutter */}
+                        <div className="absolute top-full right-0 mt-2 w-max bg-brand-surface border border-brand-border text-brand-text-primary text-xs rounded-md px-2 py-1 shadow-lg opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                            {text}{provider ? ` Source: ${provider}.` : ''}
+                        </div>
                     </div>
-                </div>
+                </>
             )}
         </div>
     );
 };
 
+/**
+ * Formats how long ago a timestamp was, e.g. '5m ago' or '2d ago'.
+ * @param {number} timestamp - The timestamp in milliseconds.
+ * @returns {string} The relative age.
+ */
+const formatAge = (timestamp: number): string => {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+};
+
+/**
+ * A sub-component that labels data which was not just fetched: cached, stale or simulated.
+ * Live data is not labelled.
+ * @param {object} props - The component properties.
+ * @param {DataFreshness} [props.freshness] - The freshness of the data.
+ * @returns {JSX.Element | null} The rendered label, or null for live data.
+ */
+export const FreshnessBadge: React.FC<{ freshness?: DataFreshness | null }> = ({ freshness }) => {
+    if (!freshness || freshness.source === 'live') return null;
+    if (freshness.source === 'mock') {
+        return <span className="text-xs text-orange-500" title="Prices are generated by the market simulator.">Simulated</span>;
+    }
+    const age = freshness.fetchedAt ? formatAge(freshness.fetchedAt) : '';
+    return freshness.isStale ? (
+        <span className="text-xs text-yellow-500" title="This data is out of date. A refresh is pending.">Stale · {age}</span>
+    ) : (
+        <span className="text-xs text-brand-text-secondary" title="Served from the local cache.">Cached · {age}</span>
+    );
+};
+
+/**
+ * Formats a timestamp for a date input (`YYYY-MM-DD`, local time).
+ * @param {number} timestamp - The timestamp in milliseconds.
+ * @returns {string} The input value.
+ */
+const toDateInputValue = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Parses a date input value as local midnight.
+ * @param {string} value - The input value (`YYYY-MM-DD`).
+ * @returns {number} The timestamp in milliseconds, or NaN if the value is empty or invalid.
+ */
+const fromDateInputValue = (value: string): number => {
+    const [year, month, day] = value.split('-').map(Number);
+    return value ? new Date(year, month - 1, day).getTime() : NaN;
+};
+
+/**
+ * A sub-component for picking a custom chart range. The end date is inclusive, and a range
+ * ending today ends now.
+ * @param {object} props - The component properties.
+ * @param {DateRange | null} props.initialRange - The range to prefill, if one was applied before.
+ * @param {(range: DateRange) => void} props.onApply - Callback invoked with a valid range.
+ * @param {() => void} props.onCancel - Callback to close the picker without changes.
+ * @returns {JSX.Element} The rendered range picker.
+ */
+const CustomRangePicker: React.FC<{ initialRange: DateRange | null; onApply: (range: DateRange) => void; onCancel: () => void }> = ({ initialRange, onApply, onCancel }) => {
+    const [from, setFrom] = useState(() => toDateInputValue(initialRange?.from ?? Date.now() - 30 * 24 * 60 * 60 * 1000));
+    const [to, setTo] = useState(() => toDateInputValue(initialRange?.to ?? Date.now()));
+    const [error, setError] = useState<string | null>(null);
+    const today = toDateInputValue(Date.now());
+
+    const handleApply = () => {
+        const start = fromDateInputValue(from);
+        const endOfDay = fromDateInputValue(to) + 24 * 60 * 60 * 1000 - 1;
+        if (isNaN(start) || isNaN(endOfDay)) {
+            setError('Please choose both dates.');
+            return;
+        }
+        const end = Math.min(endOfDay, Date.now());
+        if (start >= end) {
+            setError('The start date must be before the end date.');
+            return;
+        }
+        onApply({ from: start, to: end });
+    };
+
+    return (
+        <div className="flex flex-col gap-2 mt-2 p-2 bg-brand-background rounded-lg" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center gap-2 text-xs text-brand-text-secondary">
+                <label className="flex items-center gap-1">
+                    From
+                    <input
+                        type="date"
+                        value={from}
+                        max={today}
+                        onChange={(e) => { setFrom(e.target.value); setError(null); }}
+                        className="bg-brand-surface border border-brand-border rounded-md px-1 py-0.5 text-brand-text-primary"
+                    />
+                </label>
+                <label className="flex items-center gap-1">
+                    To
+                    <input
+                        type="date"
+                        value={to}
+                        max={today}
+                        onChange={(e) => { setTo(e.target.value); setError(null); }}
+                        className="bg-brand-surface border border-brand-border rounded-md px-1 py-0.5 text-brand-text-primary"
+                    />
+                </label>
+            </div>
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="py-1 px-2 rounded-md text-xs font-semibold text-brand-text-secondary hover:bg-brand-border/50">
+                    Cancel
+                </button>
+                <button onClick={handleApply} className="py-1 px-2 rounded-md text-xs font-semibold bg-brand-blue text-white hover:bg-brand-blue/80">
+                    Apply
+                </button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * A sub-component for choosing the coins to compare against the card's coin and the benchmark
+ * their relative strength is measured against.
+ * @param {object} props - The component properties.
+ * @param {ComparedCoin} props.primary - The card's own coin, which is always compared.
+ * @param {ComparedCoin[]} props.coins - The other compared coins.
+ * @param {string | null} props.benchmarkId - The ID of the benchmark coin, or null for none.
+ * @param {(coin: CoinSearchResult) => void} props.onAdd - Callback to add a coin to the comparison.
+ * @param {(coinId: string) => void} props.onRemove - Callback to remove a coin from the comparison.
+ * @param {(coinId: string | null) => void} props.onBenchmarkChange - Callback to choose the benchmark.
+ * @returns {JSX.Element} The rendered controls.
+ */
+const ComparisonControls: React.FC<{
+    primary: ComparedCoin;
+    coins: ComparedCoin[];
+    benchmarkId: string | null;
+    onAdd: (coin: CoinSearchResult) => void;
+    onRemove: (coinId: string) => void;
+    onBenchmarkChange: (coinId: string | null) => void;
+}> = ({ primary, coins, benchmarkId, onAdd, onRemove, onBenchmarkChange }) => (
+    <div className="flex flex-col gap-2 mb-2 p-2 bg-brand-background rounded-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex flex-wrap items-center gap-1">
+            <span className="py-0.5 px-2 rounded-full text-xs font-semibold bg-brand-blue/20 text-brand-blue">{primary.symbol.toUpperCase()}</span>
+            {coins.map(coin => (
+                <span key={coin.id} className="flex items-center gap-1 py-0.5 pl-2 pr-1 rounded-full text-xs font-semibold bg-brand-surface text-brand-text-primary">
+                    {coin.symbol.toUpperCase()}
+                    <button
+                        onClick={() => onRemove(coin.id)}
+                        className="px-1 rounded-full text-brand-text-secondary hover:text-red-400"
+                        aria-label={`Stop comparing ${coin.symbol.toUpperCase()}`}
+                    >
+                        ×
+                    </button>
+                </span>
+            ))}
+        </div>
+        <div className="flex items-center gap-2">
+            {coins.length < MAX_COMPARED_COINS && (
+                <CoinSearchInput onSelect={onAdd} placeholder="Compare with..." className="flex-grow text-xs" />
+            )}
+            <label className="flex items-center gap-1 text-xs text-brand-text-secondary">
+                Benchmark
+                <select
+                    value={benchmarkId ?? ''}
+                    onChange={(e) => onBenchmarkChange(e.target.value || null)}
+                    className="bg-brand-surface border border-brand-border rounded-md px-1 py-0.5 text-brand-text-primary"
+                >
+                    <option value="">None</option>
+                    {[primary, ...coins].map(coin => (
+                        <option key={coin.id} value={coin.id}>{coin.symbol.toUpperCase()}</option>
+                    ))}
+                </select>
+            </label>
+        </div>
+    </div>
+);
+
+/**
+ * A sub-component for choosing a drawing tool and managing the drawings on the current chart.
+ * Levels can be turned into price alerts.
+ * @param {object} props - The component properties.
+ * @param {DrawingTool | null} props.activeTool - The selected tool, or null if none is selected.
+ * @param {ChartDrawing[]} props.drawings - The drawings on the current chart.
+ * @param {QuoteCurrency} props.currency - The currency the drawings' prices are expressed in.
+ * @param {(price: number) => boolean} props.hasAlertAt - Whether an alert already exists at a price.
+ * @param {(tool: DrawingTool | null) => void} props.onToolChange - Callback to select or deselect a tool.
+ * @param {(drawingId: string) => void} props.onRemove - Callback to delete a drawing.
+ * @param {() => void} props.onClear - Callback to delete every drawing on the current chart.
+ * @param {((price: number) => void) | undefined} props.onCreateAlert - Callback to create an alert at a level's price.
+ * @returns {JSX.Element} The rendered toolbar.
+ */
+const DrawingToolbar: React.FC<{
+    activeTool: DrawingTool | null;
+    drawings: ChartDrawing[];
+    currency: QuoteCurrency;
+    hasAlertAt: (price: number) => boolean;
+    onToolChange: (tool: DrawingTool | null) => void;
+    onRemove: (drawingId: string) => void;
+    onClear: () => void;
+    onCreateAlert?: (price: number) => void;
+}> = ({ activeTool, drawings, currency, hasAlertAt, onToolChange, onRemove, onClear, onCreateAlert }) => (
+    <div className="flex flex-col gap-2 mb-2 p-2 bg-brand-background rounded-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-1">
+            {DRAWING_TOOLS.map(({ tool, label }) => (
+                <button
+                    key={tool}
+                    onClick={() => onToolChange(activeTool === tool ? null : tool)}
+                    className={`py-1 px-2 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                        activeTool === tool
+                            ? 'bg-brand-blue/20 text-brand-blue'
+                            : 'text-brand-text-secondary hover:bg-brand-border/50'
+                    }`}
+                    aria-pressed={activeTool === tool}
+                >
+                    {label}
+                </button>
+            ))}
+            {drawings.length > 0 && (
+                <button onClick={onClear} className="ml-auto py-1 px-2 rounded-md text-xs font-semibold text-brand-text-secondary hover:bg-red-500/20 hover:text-red-400">
+                    Clear all
+                </button>
+            )}
+        </div>
+        {activeTool && (
+            <p className="text-xs text-brand-text-secondary">
+                {activeTool === 'level' ? 'Click the chart to place a level.' : 'Drag across the chart to draw.'}
+            </p>
+        )}
+        {drawings.length > 0 && (
+            <ul className="space-y-1">
+                {drawings.map(drawing => {
+                    const label = DRAWING_TOOLS.find(t => t.tool === drawing.type)?.label;
+                    const price = drawing.points[0].price;
+                    return (
+                        <li key={drawing.id} className="flex items-center gap-2 text-xs">
+                            <span className="text-brand-text-primary">
+                                {drawing.type === 'level' ? `${label} ${formatPrice(price, currency)}` : label}
+                            </span>
+                            {drawing.type === 'level' && onCreateAlert && (
+                                <button
+                                    onClick={() => onCreateAlert(price)}
+                                    disabled={hasAlertAt(price)}
+                                    className="flex items-center gap-1 py-0.5 px-1 rounded-md text-brand-text-secondary hover:text-brand-blue disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title={hasAlertAt(price) ? 'An alert is already set at this price' : 'Set a price alert at this level'}
+                                >
+                                    <BellIcon className="w-3 h-3" /> Alert
+                                </button>
+                            )}
+                            <button
+                                onClick={() => onRemove(drawing.id)}
+                                className="ml-auto px-1 rounded-md text-brand-text-secondary hover:text-red-400"
+                                aria-label={`Delete ${label}`}
+                            >
+                                ×
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        )}
+    </div>
+);
+
 /**
  * The main component for displaying cryptocurrency data in a card format.
  * It manages its own state for chart data and timeframe selection.
  * @param {CryptoCardProps} props - The properties for the component.
  * @returns {JSX.Element} The rendered cryptocurrency card.
  */
-export const CryptoCard: React.FC<CryptoCardProps> = ({ coinData, onOpenAlertModal, connectionState, onManualReconnect }) => {
-  const [activeTimeframe, setActiveTimeframe] = useState<Timeframe>('1H');
+export const CryptoCard: React.FC<CryptoCardProps> = ({
+  coinData,
+  currency,
+  onOpenAlertModal,
+  connectionState,
+  onManualReconnect,
+  isSelected = false,
+  onSelect,
+  onRemove,
+  indicators = [],
+  onIndicatorsChange,
+  drawings = {},
+  onDrawingsChange,
+  alerts = [],
+  onCreateAlert,
+}) => {
+  const [activePeriod, setActivePeriod] = useState<ChartPeriod>('1H');
+  const [isRangePickerOpen, setIsRangePickerOpen] = useState(false);
+  const [chartMode, setChartMode] = useState<ChartMode>('area');
   const [chartData, setChartData] = useState<PriceDataPoint[]>([]);
+  const [ohlcData, setOhlcData] = useState<OhlcDataPoint[]>([]);
+  const [comparedCoins, setComparedCoins] = useState<ComparedCoin[]>(() => DEFAULT_COMPARED_COINS.filter(coin => coin.id !== coinData.id));
+  const [benchmarkId, setBenchmarkId] = useState<string | null>(null);
+  const [comparisonData, setComparisonData] = useState<ComparisonSeries[]>([]);
+  const [isDrawingToolbarOpen, setIsDrawingToolbarOpen] = useState(false);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool | null>(null);
+  const [chartFreshness, setChartFreshness] = useState<DataFreshness | null>(null);
   const [isChartLoading, setIsChartLoading] = useState(true);
   const [chartError, setChartError] = useState<string | null>(null);
 
   const [priceColorClass, setPriceColorClass] = useState('text-brand-text-primary');
   const prevPriceRef = useRef<number | undefined>(undefined);
 
-  const timeframes: Timeframe[] = ['1H', '1D', '1W', '1M'];
+  const timeframes: Timeframe[] = ['1H', '1D', '1W', '1M', '3M', '1Y', 'YTD', 'ALL'];
+  const customRange = typeof activePeriod === 'string' ? null : activePeriod;
+  // A stable key for the period, so that an equal custom range does not trigger a refetch.
+  const periodKey = getPeriodKey(activePeriod);
+  const chartModes: { mode: ChartMode; label: string }[] = [
+    { mode: 'area', label: 'Area' },
+    { mode: 'candles', label: 'Candles' },
+    { mode: 'compare', label: 'Compare' },
+  ];
+  // A stable key for the compared coins, so that re-rendering with the same list does not trigger a refetch.
+  const comparedKey = comparedCoins.map(coin => coin.id).join(',');
+  // Drawings are kept per period, and only those priced in the current currency are shown.
+  const periodDrawings = drawings[periodKey] ?? [];
+  const visibleDrawings = periodDrawings.filter(drawing => drawing.currency === currency);
+  const alertPrices = alerts
+    .filter(alert => alert.coinId === coinData.id && alert.currency === currency)
+    .map(alert => alert.targetPrice);
+  const canDraw = !!onDrawingsChange && chartMode !== 'compare';
 
   // Effect to flash the price green or red on change.
   useEffect(() => {
@@ -155,31 +533,127 @@ export const CryptoCard: React.FC<CryptoCardProps> = ({ coinData, onOpenAlertMod
     prevPriceRef.current = coinData.current_price;
   }, [coinData.current_price]);
 
-  // Effect to load chart data when the active timeframe or coin changes.
+  // Effect to load chart data when the active period, chart mode, coin or compared coins change.
   useEffect(() => {
+    let isCancelled = false;
     const loadChartData = async () => {
       setIsChartLoading(true);
       setChartError(null);
       try {
-        const history = await fetchCoinHistory(coinData.id, activeTimeframe);
-        setChartData(history);
+        // Stale cached data is shown at once and replaced when the background refresh completes.
+        if (chartMode === 'candles') {
+          const applyCandles = ({ data, freshness }: { data: OhlcDataPoint[]; freshness: DataFreshness }) => {
+            if (isCancelled) return;
+            setOhlcData(data);
+            setChartFreshness(freshness);
+          };
+          applyCandles(await fetchCoinOhlc(coinData.id, activePeriod, currency, applyCandles));
+        } else if (chartMode === 'compare') {
+          // A compared coin that fails to load is left out rather than failing the whole chart.
+          const coins = [{ id: coinData.id, symbol: coinData.symbol }, ...comparedCoins];
+          const results = await Promise.allSettled(coins.map(coin => fetchCoinHistory(coin.id, activePeriod, currency)));
+          if (isCancelled) return;
+          const [primary] = results;
+          if (primary.status === 'rejected') throw primary.reason;
+          const series: ComparisonSeries[] = [];
+          results.forEach((result, i) => {
+            if (result.status === 'fulfilled') {
+              series.push({ coinId: coins[i].id, label: coins[i].symbol.toUpperCase(), data: result.value.data });
+            } else {
+              console.warn(`Failed to load ${coins[i].id} for comparison. Reason: ${result.reason?.message}`);
+            }
+          });
+          setComparisonData(series);
+          setChartFreshness(primary.value.freshness);
+        } else {
+          const applyHistory = ({ data, freshness }: { data: PriceDataPoint[]; freshness: DataFreshness }) => {
+            if (isCancelled) return;
+            setChartData(data);
+            setChartFreshness(freshness);
+          };
+          applyHistory(await fetchCoinHistory(coinData.id, activePeriod, currency, applyHistory));
+        }
       } catch (error: any) {
-        setChartError(error.message || 'Could not load chart data.');
+        if (!isCancelled) setChartError(error.message || 'Could not load chart data.');
       } finally {
-        setIsChartLoading(false);
+        if (!isCancelled) setIsChartLoading(false);
       }
     };
 
     if (coinData?.id) {
         loadChartData();
     }
-  }, [coinData.id, activeTimeframe, coinData.name]);
+    // Ignore responses for a period or mode the user has already switched away from.
+    return () => { isCancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [coinData.id, periodKey, chartMode, coinData.name, currency, comparedKey]);
+
+  const hasChartData = chartMode === 'candles'
+    ? ohlcData.length > 0
+    : chartMode === 'compare'
+      ? comparisonData.some(series => series.data.length > 0)
+      : chartData.length > 0;
+
+  /**
+   * Saves a shape the user has just drawn on the chart and deselects the tool.
+   * @param {DrawingTool} type - The kind of shape.
+   * @param {PriceDataPoint[]} points - The shape's anchor points.
+   */
+  const addDrawing = (type: DrawingTool, points: PriceDataPoint[]) => {
+    const drawing: ChartDrawing = { id: Date.now().toString(), type, points, currency, createdAt: Date.now() };
+    onDrawingsChange?.(coinData.id, periodKey, [...periodDrawings, drawing]);
+    setDrawingTool(null);
+  };
+
+  /**
+   * Creates a price alert at a drawn level's price.
+   * @param {number} price - The level's price.
+   */
+  const createAlertAtLevel = (price: number) => {
+    onCreateAlert?.({ coinId: coinData.id, coinName: coinData.name, targetPrice: price, currency });
+  };
+
+  /**
+   * Adds a coin to the comparison, ignoring the card's own coin and coins already compared.
+   * @param {CoinSearchResult} coin - The coin to add.
+   */
+  const addComparedCoin = (coin: CoinSearchResult) => {
+    if (coin.id === coinData.id) return;
+    setComparedCoins(prev =>
+      prev.some(c => c.id === coin.id) || prev.length >= MAX_COMPARED_COINS ? prev : [...prev, { id: coin.id, symbol: coin.symbol }]
+    );
+  };
+
+  /**
+   * Removes a coin from the comparison, clearing the benchmark if it was that coin.
+   * @param {string} coinId - The ID of the coin to remove.
+   */
+  const removeComparedCoin = (coinId: string) => {
+    setComparedCoins(prev => prev.filter(c => c.id !== coinId));
+    if (benchmarkId === coinId) setBenchmarkId(null);
+  };
+
+  /**
+   * Enables or disables an indicator on this card's chart.
+   * @param {IndicatorType} indicator - The indicator to toggle.
+   */
+  const toggleIndicator = (indicator: IndicatorType) => {
+    const next = indicators.includes(indicator)
+      ? indicators.filter(i => i !== indicator)
+      : [...indicators, indicator];
+    onIndicatorsChange?.(coinData.id, next);
+  };
   
   const priceChange = coinData.price_change_percentage_24h;
   const priceChangeColor = priceChange >= 0 ? 'text-brand-green' : 'text-red-500';
 
   return (
-    <div className="relative bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-md shadow-lg transition-all duration-300 hover:shadow-2xl hover:border-brand-blue/50 flex flex-col">
+    <div
+      onClick={() => onSelect?.(coinData.id)}
+      className={`relative bg-brand-surface border rounded-2xl p-6 w-full max-w-md shadow-lg transition-all duration-300 hover:shadow-2xl hover:border-brand-blue/50 flex flex-col ${
+        isSelected ? 'border-brand-blue' : 'border-brand-border'
+      }`}
+    >
       <StatusIndicator state={connectionState} onReconnect={onManualReconnect} />
       <div className="flex items-start justify-between mb-4">
         <div className="flex items-center gap-3">
@@ -191,34 +665,128 @@ export const CryptoCard: React.FC<CryptoCardProps> = ({ coinData, onOpenAlertMod
         </div>
         <div className="flex flex-col items-end">
             <p className={`text-2xl font-bold transition-colors duration-500 ${priceColorClass}`}>
-                ${coinData.current_price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })}
+                {formatPrice(coinData.current_price, currency)}
             </p>
             <p className={`font-semibold transition-colors duration-500 ${priceChangeColor}`}>
                 {priceChange ? priceChange.toFixed(2) : '0.00'}%
             </p>
+            <FreshnessBadge freshness={coinData.freshness} />
         </div>
       </div>
       
-      <div className="w-full h-48 flex items-center justify-center flex-grow">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex flex-wrap gap-1">
+          {onIndicatorsChange && chartMode !== 'compare' && INDICATORS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => toggleIndicator(id)}
+              className={`py-1 px-2 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                indicators.includes(id)
+                  ? 'bg-brand-blue/20 text-brand-blue'
+                  : 'text-brand-text-secondary hover:bg-brand-border/50'
+              }`}
+              aria-pressed={indicators.includes(id)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {chartModes.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setChartMode(mode)}
+              className={`py-1 px-2 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                chartMode === mode
+                  ? 'bg-brand-blue/20 text-brand-blue'
+                  : 'text-brand-text-secondary hover:bg-brand-border/50'
+              }`}
+              aria-pressed={chartMode === mode}
+            >
+              {label}
+            </button>
+          ))}
+          {onDrawingsChange && (
+            <button
+              onClick={() => { setIsDrawingToolbarOpen(open => !open); setDrawingTool(null); }}
+              disabled={chartMode === 'compare'}
+              className={`py-1 px-2 rounded-md text-xs font-semibold transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                isDrawingToolbarOpen && canDraw
+                  ? 'bg-brand-blue/20 text-brand-blue'
+                  : 'text-brand-text-secondary hover:bg-brand-border/50'
+              }`}
+              aria-pressed={isDrawingToolbarOpen && canDraw}
+            >
+              Draw
+            </button>
+          )}
+          <ExportMenu
+            onExport={async (format) => downloadExportFile(await exportCoinHistory(coinData.id, activePeriod, format, currency))}
+          />
+        </div>
+      </div>
+
+      {chartMode === 'compare' && (
+        <ComparisonControls
+            primary={{ id: coinData.id, symbol: coinData.symbol }}
+            coins={comparedCoins}
+            benchmarkId={benchmarkId}
+            onAdd={addComparedCoin}
+            onRemove={removeComparedCoin}
+            onBenchmarkChange={setBenchmarkId}
+        />
+      )}
+
+      {isDrawingToolbarOpen && canDraw && (
+        <DrawingToolbar
+            activeTool={drawingTool}
+            drawings={visibleDrawings}
+            currency={currency}
+            hasAlertAt={(price) => alertPrices.includes(price)}
+            onToolChange={setDrawingTool}
+            onRemove={(drawingId) => onDrawingsChange?.(coinData.id, periodKey, periodDrawings.filter(d => d.id !== drawingId))}
+            onClear={() => onDrawingsChange?.(coinData.id, periodKey, periodDrawings.filter(d => d.currency !== currency))}
+            onCreateAlert={onCreateAlert ? createAlertAtLevel : undefined}
+        />
+      )}
+
+      <div className="w-full min-h-48 flex items-center justify-center flex-grow">
         {isChartLoading ? (
             <div className="text-brand-text-secondary">Loading Chart...</div>
         ) : chartError ? (
             <div className="text-red-500 text-sm text-center">{chartError}</div>
-        ) : chartData.length > 0 ? (
-            <Chart data={chartData} />
+        ) : hasChartData ? (
+            <Chart
+                data={chartData}
+                currency={currency}
+                mode={chartMode}
+                ohlcData={ohlcData}
+                indicators={indicators}
+                comparison={comparisonData}
+                benchmarkId={benchmarkId}
+                drawings={visibleDrawings}
+                alertPrices={alertPrices}
+                drawingTool={canDraw && isDrawingToolbarOpen ? drawingTool : null}
+                onDrawingComplete={addDrawing}
+            />
         ) : (
             <div className="text-brand-text-secondary">No chart data available.</div>
         )}
       </div>
+      {!isChartLoading && hasChartData && (
+        <div className="flex justify-end mt-1">
+            <FreshnessBadge freshness={chartFreshness} />
+        </div>
+      )}
 
       <div className="flex items-center justify-center gap-1 mt-4">
-        <div className="flex items-center justify-center gap-2 bg-brand-background p-1 rounded-lg flex-grow">
+        <div className="flex items-center justify-center gap-0.5 bg-brand-background p-1 rounded-lg flex-grow">
             {timeframes.map((tf) => (
             <button
                 key={tf}
-                onClick={() => setActiveTimeframe(tf)}
-                className={`w-full text-center py-2 px-4 rounded-md text-sm font-semibold transition-colors duration-200 ${
-                activeTimeframe === tf
+                onClick={() => { setActivePeriod(tf); setIsRangePickerOpen(false); }}
+                className={`w-full text-center py-2 px-1 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                activePeriod === tf
                     ? 'bg-brand-blue text-white'
                     : 'text-brand-text-secondary hover:bg-brand-border/50'
                 }`}
@@ -226,6 +794,18 @@ export const CryptoCard: React.FC<CryptoCardProps> = ({ coinData, onOpenAlertMod
                 {tf}
             </button>
             ))}
+            <button
+                onClick={() => setIsRangePickerOpen(open => !open)}
+                className={`w-full text-center py-2 px-1 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                customRange
+                    ? 'bg-brand-blue text-white'
+                    : 'text-brand-text-secondary hover:bg-brand-border/50'
+                }`}
+                title={customRange ? `${new Date(customRange.from).toLocaleDateString()} – ${new Date(customRange.to).toLocaleDateString()}` : 'Choose a custom date range'}
+                aria-expanded={isRangePickerOpen}
+            >
+                Custom
+            </button>
         </div>
         <button 
             onClick={() => onOpenAlertModal(coinData.id, coinData.name, coinData.current_price)}
@@ -234,7 +814,26 @@ export const CryptoCard: React.FC<CryptoCardProps> = ({ coinData, onOpenAlertMod
         >
             <BellIcon className="w-5 h-5" />
         </button>
+        {onRemove && (
+            <button 
+                onClick={(e) => {
+                    e.stopPropagation(); // Prevent selecting a coin that is being removed
+                    onRemove(coinData.id);
+                }}
+                className="p-3 bg-brand-background hover:bg-red-500/20 rounded-lg text-brand-text-secondary hover:text-red-400 transition-colors"
+                aria-label={`Remove ${coinData.name} from watchlist`}
+            >
+                <TrashIcon className="w-5 h-5" />
+            </button>
+        )}
       </div>
+      {isRangePickerOpen && (
+        <CustomRangePicker
+            initialRange={customRange}
+            onApply={(range) => { setActivePeriod(range); setIsRangePickerOpen(false); }}
+            onCancel={() => setIsRangePickerOpen(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * @file This component defines a modal panel with live health diagnostics for the data sources.
+ * For the market-data providers and the news service, it shows each proxy's success rate, latency
+ * percentiles, last error and cooldown, and each client's circuit-breaker state. Proxies and breakers
+ * can be reset from the panel, and a rolling log of request attempts is shown below.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { getRequestLog, clearRequestLog, resetProxyCooldown } from '../services/httpClient';
+import type { HttpClient, ClientDiagnostics, RequestLogEntry, RequestOutcome } from '../services/httpClient';
+import { getMarketDataClients } from '../services/coingeckoService';
+import { getNewsClient } from '../services/newsService';
+
+/**
+ * Props for the DiagnosticsPanel component.
+ */
+interface DiagnosticsPanelProps {
+  /** Whether the panel is currently visible. */
+  isOpen: boolean;
+  /** Callback function to close the panel. */
+  onClose: () => void;
+}
+
+/** How often the panel re-reads the diagnostics while it is open. */
+const REFRESH_INTERVAL_MS = 1000;
+/** The number of request log entries shown. */
+const VISIBLE_LOG_ENTRIES = 50;
+
+/** The text colour used for each request outcome in the log. */
+const OUTCOME_COLORS: { [key in RequestOutcome]: string } = {
+  success: 'text-brand-green',
+  error: 'text-red-500',
+  'rate-limited': 'text-orange-500',
+  'circuit-open': 'text-orange-500',
+  cooldown: 'text-yellow-500',
+};
+
+/**
+ * Formats the time left until a timestamp, e.g. '45s'.
+ * @param {number} until - The timestamp in milliseconds.
+ * @returns {string} The remaining time in seconds.
+ */
+const formatRemaining = (until: number): string => `${Math.max(0, Math.ceil((until - Date.now()) / 1000))}s`;
+
+/**
+ * Shortens an upstream URL to its path and query for the log.
+ * @param {string} url - The full URL.
+ * @returns {string} The path and query.
+ */
+const formatUrlPath = (url: string): string => {
+  try {
+    const { pathname, search } = new URL(url);
+    return `${pathname}${search}`;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * A sub-component showing one client's breaker state and the health of each of its proxies.
+ * @param {object} props - The component properties.
+ * @param {HttpClient} props.client - The client to show.
+ * @param {() => void} props.onChange - Callback to refresh the panel after a reset.
+ * @returns {JSX.Element} The rendered client section.
+ */
+const ClientHealth: React.FC<{ client: HttpClient; onChange: () => void }> = ({ client, onChange }) => {
+  const { name, circuit, proxies }: ClientDiagnostics = client.getDiagnostics();
+
+  return (
+    <div className="bg-brand-background rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-brand-text-primary">{name}</span>
+          {circuit.isOpen ? (
+            <span className="text-xs font-semibold text-orange-500">Breaker open · {formatRemaining(circuit.trippedUntil)}</span>
+          ) : (
+            <span className="text-xs text-brand-text-secondary">
+              Breaker closed · {circuit.failureCount}/{circuit.failureThreshold} failures
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => { client.resetCircuit(); onChange(); }}
+          disabled={!circuit.isOpen && circuit.failureCount === 0}
+          className="py-1 px-2 rounded-md text-xs font-semibold text-brand-text-secondary hover:bg-brand-border/50 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Reset breaker
+        </button>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-brand-text-secondary">
+            <th className="font-medium py-1">Proxy</th>
+            <th className="font-medium py-1">Success</th>
+            <th className="font-medium py-1">p50 / p90 / p99</th>
+            <th className="font-medium py-1">Last error</th>
+            <th className="font-medium py-1">Cooldown</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {proxies.map(proxy => (
+            <tr key={proxy.id} className="border-t border-brand-border/50 text-brand-text-primary">
+              <td className="py-1">
+                {proxy.name}
+                {proxy.isLastWorking && <span className="ml-1 text-brand-green" title="Tried first: this proxy answered last.">●</span>}
+              </td>
+              <td className="py-1">
+                {proxy.successRate === null ? '—' : `${Math.round(proxy.successRate * 100)}% (${proxy.successes}/${proxy.attempts})`}
+              </td>
+              <td className="py-1 font-mono">
+                {proxy.latency ? `${proxy.latency.p50} / ${proxy.latency.p90} / ${proxy.latency.p99} ms` : '—'}
+              </td>
+              <td className="py-1 max-w-[12rem] truncate text-red-400" title={proxy.lastError?.message}>
+                {proxy.lastError ? `${new Date(proxy.lastError.at).toLocaleTimeString()} ${proxy.lastError.message}` : '—'}
+              </td>
+              <td className="py-1">{proxy.cooldownUntil ? formatRemaining(proxy.cooldownUntil) : '—'}</td>
+              <td className="py-1 text-right">
+                <button
+                  onClick={() => { resetProxyCooldown(proxy.id); onChange(); }}
+                  disabled={!proxy.cooldownUntil}
+                  className="py-0.5 px-2 rounded-md font-semibold text-brand-text-secondary hover:bg-brand-border/50 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Reset
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/**
+ * A modal panel with live data-source diagnostics, refreshed every second while open.
+ * @param {DiagnosticsPanelProps} props - The properties for the component.
+ * @returns {JSX.Element | null} The rendered panel or null if not open.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ isOpen, onClose }) => {
+  // Diagnostics live in module state outside React, so the panel re-renders on a timer to pick up changes.
+  const [, setRefreshCount] = useState(0);
+  const refresh = () => setRefreshCount(count => count + 1);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const intervalId = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const sections: { title: string; clients: HttpClient[] }[] = [
+    { title: 'Market Data', clients: getMarketDataClients() },
+    { title: 'News', clients: [getNewsClient()] },
+  ];
+  const log: RequestLogEntry[] = getRequestLog().slice(0, VISIBLE_LOG_ENTRIES);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 transition-opacity"
+      onClick={onClose}
+    >
+      <div
+        className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl m-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-brand-text-primary">Data Source Diagnostics</h2>
+          <button onClick={onClose} className="text-brand-text-secondary hover:text-brand-text-primary">&times;</button>
+        </div>
+
+        {sections.map(({ title, clients }) => (
+          <section key={title} className="mb-4">
+            <h3 className="text-sm font-semibold text-brand-text-secondary uppercase tracking-wide mb-2">{title}</h3>
+            <div className="space-y-2">
+              {clients.map(client => <ClientHealth key={client.getDiagnostics().name} client={client} onChange={refresh} />)}
+            </div>
+          </section>
+        ))}
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-brand-text-secondary uppercase tracking-wide">Request Log</h3>
+            <button
+              onClick={() => { clearRequestLog(); refresh(); }}
+              className="py-1 px-2 rounded-md text-xs font-semibold text-brand-text-secondary hover:bg-brand-border/50"
+            >
+              Clear log
+            </button>
+          </div>
+          {log.length === 0 ? (
+            <p className="text-xs text-brand-text-secondary">No requests yet.</p>
+          ) : (
+            <div className="bg-brand-background rounded-lg p-2 font-mono text-xs space-y-0.5">
+              {log.map(entry => (
+                <div key={entry.id} className="flex gap-2 text-brand-text-primary" title={entry.message ?? entry.url}>
+                  <span className="text-brand-text-secondary">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                  <span className="w-20 truncate">{entry.client}</span>
+                  <span className="w-24 truncate text-brand-text-secondary">{entry.proxy ?? '—'}</span>
+                  <span className={`w-24 ${OUTCOME_COLORS[entry.outcome]}`}>{entry.outcome}{entry.status ? ` ${entry.status}` : ''}</span>
+                  <span className="w-16 text-right">{entry.durationMs} ms</span>
+                  <span className="flex-1 truncate text-brand-text-secondary">{formatUrlPath(entry.url)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
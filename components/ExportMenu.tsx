@@ -0,0 +1,87 @@
+/**
+ * @file This component renders a small "Export" button with a dropdown of file formats.
+ * The caller builds and saves the file; the menu only reports which format was chosen.
+ */
+
+import React, { useState } from 'react';
+import { ExportUnavailableError } from '../services/exportService';
+import type { ExportFormat } from '../services/exportService';
+
+/**
+ * Props for the ExportMenu component.
+ */
+interface ExportMenuProps {
+  /** Callback function to export in the chosen format; it may return a promise while the data loads. */
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  /** The button's label. */
+  label?: string;
+  /** Whether the menu is disabled (e.g., when there is nothing to export). */
+  disabled?: boolean;
+}
+
+/** The formats offered to the user, in menu order. */
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'columns', label: 'Columns (Parquet-style JSON)' },
+];
+
+/**
+ * A button that opens a list of export formats and runs the export for the one selected.
+ * @param {ExportMenuProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered menu.
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, label = 'Export', disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Runs the export for the chosen format, showing an error if it fails.
+   * @param {ExportFormat} format - The format to export in.
+   */
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(format);
+    } catch (err: any) {
+      console.warn(`Export failed. Reason: ${err.message}`);
+      setError(err instanceof ExportUnavailableError ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        onBlur={() => setIsOpen(false)}
+        disabled={disabled || isExporting}
+        className="py-1 px-2 rounded-md text-xs font-semibold text-brand-text-secondary hover:bg-brand-border/50 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {isExporting ? 'Exporting...' : label}
+      </button>
+      {isOpen && (
+        <ul role="menu" className="absolute right-0 top-full mt-1 z-20 min-w-max bg-brand-surface border border-brand-border rounded-lg shadow-2xl py-1">
+          {EXPORT_OPTIONS.map(({ format, label: optionLabel }) => (
+            <li
+              key={format}
+              role="menuitem"
+              onMouseDown={(e) => e.preventDefault()} // Keep focus so the click registers before blur
+              onClick={() => handleExport(format)}
+              className="px-3 py-1.5 text-xs text-brand-text-primary cursor-pointer hover:bg-brand-border/50"
+            >
+              {optionLabel}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="absolute right-0 top-full mt-1 text-xs text-red-500 whitespace-nowrap">{error}</p>}
+    </div>
+  );
+};
@@ -1,14 +1,17 @@
 /**
  * @file This file defines the main Header component for the application.
- * It includes the application title, a theme toggle button, a "Connect Wallet" button,
- * and a menu button for mobile navigation.
+ * It includes the application title, a quote currency selector, a data-source diagnostics button, a theme toggle
+ * button, a "Connect Wallet" button, and a menu button for mobile navigation.
  */
 
 import React from 'react';
+import type { QuoteCurrency } from '../types';
+import { QUOTE_CURRENCIES } from '../services/currencyService';
 import { BtcIcon } from './icons/BtcIcon';
 import { SunIcon } from './icons/SunIcon';
 import { MoonIcon } from './icons/MoonIcon';
 import { MenuIcon } from './icons/MenuIcon';
+import { ActivityIcon } from './icons/ActivityIcon';
 
 /**
  * Defines the possible theme states.
@@ -21,8 +24,14 @@ type Theme = 'light' | 'dark';
 interface HeaderProps {
   /** The current theme of the application. */
   theme: Theme;
+  /** The currency that prices are quoted in across the app. */
+  currency: QuoteCurrency;
+  /** Callback function to change the quote currency. */
+  onCurrencyChange: (currency: QuoteCurrency) => void;
   /** Callback function to toggle the theme. */
   onThemeToggle: () => void;
+  /** Callback function to open the data-source diagnostics panel. */
+  onDiagnosticsClick: () => void;
   /** Callback function to open the wallet connection modal. */
   onWalletClick: () => void;
   /** Callback function to open the sidebar on mobile devices. */
@@ -35,7 +44,7 @@ interface HeaderProps {
  * @param {HeaderProps} props - The properties for the component.
  * @returns {JSX.Element} The rendered header element.
  */
-export const Header: React.FC<HeaderProps> = ({ theme, onThemeToggle, onWalletClick, onMenuClick }) => {
+export const Header: React.FC<HeaderProps> = ({ theme, currency, onCurrencyChange, onThemeToggle, onDiagnosticsClick, onWalletClick, onMenuClick }) => {
   return (
     <header className="w-full py-4 px-6 flex justify-between items-center border-b border-brand-border sticky top-0 bg-brand-background/80 backdrop-blur-sm z-30 flex-shrink-0">
       <div className="flex items-center gap-3">
@@ -48,6 +57,24 @@ export const Header: React.FC<HeaderProps> = ({ theme, onThemeToggle, onWalletCl
         </div>
       </div>
       <div className="flex items-center gap-4">
+        <select
+          value={currency}
+          onChange={(e) => onCurrencyChange(e.target.value as QuoteCurrency)}
+          className="bg-brand-surface border border-brand-border rounded-lg py-2 px-2 text-sm font-semibold text-brand-text-primary focus:outline-none focus:ring-2 focus:ring-brand-blue"
+          aria-label="Quote currency"
+        >
+          {QUOTE_CURRENCIES.map(({ code, name }) => (
+            <option key={code} value={code} title={name}>{code.toUpperCase()}</option>
+          ))}
+        </select>
+        <button
+          onClick={onDiagnosticsClick}
+          className="p-2 rounded-full text-brand-text-secondary hover:bg-brand-surface transition-colors"
+          aria-label="Data source diagnostics"
+          title="Data source diagnostics"
+        >
+          <ActivityIcon className="w-6 h-6" />
+        </button>
         <button
           onClick={onThemeToggle}
           className="p-2 rounded-full text-brand-text-secondary hover:bg-brand-surface transition-colors"
@@ -0,0 +1,372 @@
+/**
+ * @file This component renders the market overview: global market figures, the top 100 coins by
+ * market cap in a sortable table with 7-day sparklines, the day's top gainers and losers, and the
+ * coins trending in searches. Selecting any coin opens its card and analysis in the app.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { CoinSearchResult, DataFreshness, GlobalMarketData, MarketCoin, QuoteCurrency } from '../types';
+import { fetchTopCoins, fetchGlobalMarketData, fetchTrendingCoins, MARKETS_PAGE_SIZE, MAX_OVERVIEW_COINS } from '../services/marketOverviewService';
+import { formatPrice, formatCompactAmount } from '../services/currencyService';
+import { FreshnessBadge } from './CryptoCard';
+import { GlobeIcon } from './icons/GlobeIcon';
+
+/**
+ * Props for the MarketOverview component.
+ */
+interface MarketOverviewProps {
+  /** The quote currency to show prices and totals in. */
+  currency: QuoteCurrency;
+  /** The ID of the coin currently opened from the overview, or null if none is. */
+  selectedCoinId: string | null;
+  /** Callback function to open a coin's card and analysis. */
+  onSelectCoin: (coinId: string) => void;
+}
+
+/** The columns the table can be sorted by. */
+type SortKey = 'rank' | 'price' | 'change24h' | 'change7d' | 'marketCap' | 'volume';
+
+/** How often the loaded data is refreshed while the overview is shown. */
+const REFRESH_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
+/** The number of coins listed as top gainers and as top losers. */
+const MOVERS_COUNT = 5;
+
+/** Reads the value a column is sorted by; null values are always sorted last. */
+const SORT_VALUES: { [key in SortKey]: (coin: MarketCoin) => number | null } = {
+  rank: coin => coin.market_cap_rank,
+  price: coin => coin.current_price,
+  change24h: coin => coin.price_change_percentage_24h,
+  change7d: coin => coin.price_change_percentage_7d,
+  marketCap: coin => coin.market_cap,
+  volume: coin => coin.total_volume,
+};
+
+/** A sortable table column. */
+interface SortableColumn {
+  key: SortKey;
+  label: string;
+  /** Alignment and responsive visibility classes for the column's cells. */
+  className: string;
+}
+
+const RANK_COLUMN: SortableColumn = { key: 'rank', label: '#', className: 'text-left' };
+const VALUE_COLUMNS: SortableColumn[] = [
+  { key: 'price', label: 'Price', className: 'text-right' },
+  { key: 'change24h', label: '24h', className: 'text-right' },
+  { key: 'change7d', label: '7d', className: 'text-right' },
+  { key: 'marketCap', label: 'Market Cap', className: 'text-right hidden md:table-cell' },
+  { key: 'volume', label: 'Volume (24h)', className: 'text-right hidden xl:table-cell' },
+];
+
+/**
+ * Formats a percentage change with its sign, e.g. '+1.23%'.
+ * @param {number | null} value - The percentage change.
+ * @returns {string} The formatted change, or a dash if unknown.
+ */
+const formatChange = (value: number | null): string =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Picks the text colour for a percentage change.
+ * @param {number | null} value - The percentage change.
+ * @returns {string} The Tailwind text colour class.
+ */
+const changeColor = (value: number | null): string =>
+  value === null || value === 0 ? 'text-brand-text-secondary' : value > 0 ? 'text-brand-green' : 'text-red-500';
+
+/**
+ * A sub-component that draws a minimal line chart of a price series.
+ * It is drawn as a plain SVG so that a hundred rows stay cheap to render.
+ * @param {object} props - The component properties.
+ * @param {number[]} props.prices - The prices to draw, oldest first.
+ * @returns {JSX.Element} The rendered sparkline.
+ */
+const Sparkline: React.FC<{ prices: number[] }> = ({ prices }) => {
+  const width = 100;
+  const height = 32;
+  if (prices.length < 2) return <svg width={width} height={height} />;
+  const min = Math.min(...prices);
+  const range = Math.max(...prices) - min || 1;
+  const points = prices
+    .map((price, i) => `${((i / (prices.length - 1)) * width).toFixed(1)},${(height - ((price - min) / range) * height).toFixed(1)}`)
+    .join(' ');
+  const color = prices[prices.length - 1] >= prices[0] ? 'text-brand-green' : 'text-red-500';
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={color} aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" />
+    </svg>
+  );
+};
+
+/**
+ * A sub-component that renders a sortable column header, marking the current sort direction.
+ * @param {object} props - The component properties.
+ * @param {SortableColumn} props.column - The column.
+ * @param {SortKey} props.sortKey - The column the table is currently sorted by.
+ * @param {boolean} props.isAscending - Whether the table is sorted in ascending order.
+ * @param {(key: SortKey) => void} props.onSort - Callback to sort by the column.
+ * @returns {JSX.Element} The rendered header cell.
+ */
+const SortHeader: React.FC<{ column: SortableColumn; sortKey: SortKey; isAscending: boolean; onSort: (key: SortKey) => void }> = ({ column, sortKey, isAscending, onSort }) => {
+  const isSorted = column.key === sortKey;
+  return (
+    <th className={`font-medium py-2 ${column.className}`} aria-sort={isSorted ? (isAscending ? 'ascending' : 'descending') : 'none'}>
+      <button onClick={() => onSort(column.key)} className={`hover:text-brand-text-primary ${isSorted ? 'text-brand-text-primary' : ''}`}>
+        {column.label}{isSorted ? (isAscending ? ' ▲' : ' ▼') : ''}
+      </button>
+    </th>
+  );
+};
+
+/**
+ * A sub-component showing a single market-wide figure.
+ * @param {object} props - The component properties.
+ * @param {string} props.label - The figure's name.
+ * @param {string} props.value - The formatted figure.
+ * @param {React.ReactNode} [props.detail] - An optional line shown below the figure.
+ * @returns {JSX.Element} The rendered stat.
+ */
+const Stat: React.FC<{ label: string; value: string; detail?: React.ReactNode }> = ({ label, value, detail }) => (
+  <div className="bg-brand-background rounded-lg p-3">
+    <p className="text-xs text-brand-text-secondary">{label}</p>
+    <p className="text-lg font-bold text-brand-text-primary">{value}</p>
+    {detail && <p className="text-xs">{detail}</p>}
+  </div>
+);
+
+/**
+ * A sub-component listing coins with their 24h change, used for the gainers and losers.
+ * @param {object} props - The component properties.
+ * @param {string} props.title - The list's heading.
+ * @param {MarketCoin[]} props.coins - The coins to list.
+ * @param {(coinId: string) => void} props.onSelect - Callback to open a coin.
+ * @returns {JSX.Element} The rendered list.
+ */
+const MoversList: React.FC<{ title: string; coins: MarketCoin[]; onSelect: (coinId: string) => void }> = ({ title, coins, onSelect }) => (
+  <div className="bg-brand-background rounded-lg p-3">
+    <h4 className="text-sm font-semibold text-brand-text-secondary mb-2">{title}</h4>
+    {coins.length === 0 ? (
+      <p className="text-xs text-brand-text-secondary">No data.</p>
+    ) : (
+      <ul className="space-y-1">
+        {coins.map(coin => (
+          <li key={coin.id}>
+            <button onClick={() => onSelect(coin.id)} className="w-full flex items-center justify-between gap-2 text-sm hover:bg-brand-border/50 rounded-md px-1">
+              <span className="flex items-center gap-2 min-w-0">
+                <img src={coin.image} alt="" className="w-4 h-4" />
+                <span className="truncate text-brand-text-primary">{coin.symbol.toUpperCase()}</span>
+              </span>
+              <span className={`font-semibold ${changeColor(coin.price_change_percentage_24h)}`}>{formatChange(coin.price_change_percentage_24h)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * The market overview panel. It loads its own data, refreshes it periodically, and sorts
+ * the table locally. It is expected to be remounted (keyed) when the quote currency changes.
+ * @param {MarketOverviewProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered overview.
+ */
+export const MarketOverview: React.FC<MarketOverviewProps> = ({ currency, selectedCoinId, onSelectCoin }) => {
+  const [pages, setPages] = useState<MarketCoin[][]>([]);
+  const [pageCount, setPageCount] = useState(1);
+  const [coinsFreshness, setCoinsFreshness] = useState<DataFreshness | null>(null);
+  const [global, setGlobal] = useState<GlobalMarketData | null>(null);
+  const [trending, setTrending] = useState<CoinSearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortKey, setSortKey] = useState<SortKey>('rank');
+  const [isAscending, setIsAscending] = useState(true);
+
+  // Effect to load every shown page, the global figures and the trending coins, and to refresh them periodically.
+  useEffect(() => {
+    let isCancelled = false;
+
+    /**
+     * Stores a page of coins.
+     * @param {number} index - The 0-based page index.
+     * @param {MarketCoin[]} coins - The page's coins.
+     */
+    const applyPage = (index: number, coins: MarketCoin[]) => {
+      setPages(prev => {
+        const next = [...prev];
+        next[index] = coins;
+        return next;
+      });
+    };
+
+    const load = async () => {
+      setIsLoading(true);
+      const pageNumbers = Array.from({ length: pageCount }, (_, i) => i + 1);
+      const [pageResults, globalResult, trendingResult] = await Promise.all([
+        Promise.all(pageNumbers.map(page => fetchTopCoins(page, currency, revalidated => {
+          if (!isCancelled) applyPage(page - 1, revalidated.data);
+        }))),
+        fetchGlobalMarketData(currency, revalidated => {
+          if (!isCancelled) setGlobal(revalidated.data);
+        }).catch((error: any) => {
+          console.warn(`Global market data is unavailable. Reason: ${error.message}`);
+          return null;
+        }),
+        fetchTrendingCoins(revalidated => {
+          if (!isCancelled) setTrending(revalidated.data);
+        }).catch((error: any) => {
+          console.warn(`Trending coins are unavailable. Reason: ${error.message}`);
+          return null;
+        }),
+      ]);
+      if (isCancelled) return;
+      pageResults.forEach((result, i) => applyPage(i, result.data));
+      setCoinsFreshness(pageResults[0]?.freshness ?? null);
+      if (globalResult) setGlobal(globalResult.data);
+      setTrending(trendingResult ? trendingResult.data : []);
+      setIsLoading(false);
+    };
+
+    load();
+    const intervalId = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      isCancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [currency, pageCount]);
+
+  const coins = pages.flat();
+  // A short final page means there are no more coins to load.
+  const canLoadMore = coins.length < MAX_OVERVIEW_COINS && pages.length === pageCount && pages[pages.length - 1]?.length === MARKETS_PAGE_SIZE;
+
+  const sortedCoins = [...coins].sort((a, b) => {
+    const aValue = SORT_VALUES[sortKey](a);
+    const bValue = SORT_VALUES[sortKey](b);
+    if (aValue === null || bValue === null) return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+    return isAscending ? aValue - bValue : bValue - aValue;
+  });
+
+  const byChange = [...coins].sort((a, b) => b.price_change_percentage_24h - a.price_change_percentage_24h);
+  const gainers = byChange.slice(0, MOVERS_COUNT).filter(coin => coin.price_change_percentage_24h > 0);
+  const losers = byChange.slice(-MOVERS_COUNT).reverse().filter(coin => coin.price_change_percentage_24h < 0);
+
+  /**
+   * Sorts the table by a column, toggling the direction if it is already sorted by it.
+   * Ranks sort ascending by default; every other column sorts largest first.
+   * @param {SortKey} key - The column to sort by.
+   */
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setIsAscending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setIsAscending(key === 'rank');
+    }
+  };
+
+  return (
+    <div className="bg-brand-surface border border-brand-border rounded-2xl p-4 sm:p-6 w-full shadow-lg space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <GlobeIcon className="w-5 h-5 text-brand-text-primary" />
+          <h3 className="text-lg font-bold text-brand-text-primary">Market Overview</h3>
+        </div>
+        <FreshnessBadge freshness={coinsFreshness} />
+      </div>
+
+      <div className="grid grid-cols-2 xl:grid-cols-4 gap-3">
+        <Stat
+          label="Total Market Cap"
+          value={global ? formatCompactAmount(global.total_market_cap, currency) : '—'}
+          detail={global && <span className={changeColor(global.market_cap_change_percentage_24h)}>{formatChange(global.market_cap_change_percentage_24h)} (24h)</span>}
+        />
+        <Stat label="Volume (24h)" value={global ? formatCompactAmount(global.total_volume, currency) : '—'} />
+        <Stat
+          label="BTC Dominance"
+          value={global ? `${global.btc_dominance.toFixed(1)}%` : '—'}
+          detail={global && <span className="text-brand-text-secondary">ETH {global.eth_dominance.toFixed(1)}%</span>}
+        />
+        <Stat label="Active Coins" value={global ? global.active_cryptocurrencies.toLocaleString() : '—'} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <MoversList title="Top Gainers (24h)" coins={gainers} onSelect={onSelectCoin} />
+        <MoversList title="Top Losers (24h)" coins={losers} onSelect={onSelectCoin} />
+        <div className="bg-brand-background rounded-lg p-3">
+          <h4 className="text-sm font-semibold text-brand-text-secondary mb-2">Trending</h4>
+          {trending.length === 0 ? (
+            <p className="text-xs text-brand-text-secondary">No data.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {trending.map(coin => (
+                <button
+                  key={coin.id}
+                  onClick={() => onSelectCoin(coin.id)}
+                  className="flex items-center gap-1 py-1 px-2 rounded-full text-xs font-semibold bg-brand-surface text-brand-text-primary hover:bg-brand-border/50"
+                  title={coin.market_cap_rank ? `${coin.name} · Rank #${coin.market_cap_rank}` : coin.name}
+                >
+                  {coin.thumb && <img src={coin.thumb} alt="" className="w-4 h-4 rounded-full" />}
+                  {coin.symbol.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isLoading && coins.length === 0 ? (
+        <div className="text-brand-text-secondary text-center p-4">Loading market data...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-brand-text-secondary">
+                <SortHeader column={RANK_COLUMN} sortKey={sortKey} isAscending={isAscending} onSort={handleSort} />
+                <th className="font-medium py-2 text-left">Coin</th>
+                {VALUE_COLUMNS.map(column => (
+                  <SortHeader key={column.key} column={column} sortKey={sortKey} isAscending={isAscending} onSort={handleSort} />
+                ))}
+                <th className="font-medium py-2 text-right hidden sm:table-cell">Last 7 Days</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedCoins.map(coin => (
+                <tr
+                  key={coin.id}
+                  onClick={() => onSelectCoin(coin.id)}
+                  className={`border-t border-brand-border/50 cursor-pointer transition-colors ${coin.id === selectedCoinId ? 'bg-brand-blue/10' : 'hover:bg-brand-border/30'}`}
+                >
+                  <td className="py-2 text-brand-text-secondary">{coin.market_cap_rank ?? '—'}</td>
+                  <td className="py-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <img src={coin.image} alt="" className="w-6 h-6" />
+                      <span className="font-semibold text-brand-text-primary truncate">{coin.name}</span>
+                      <span className="text-xs text-brand-text-secondary">{coin.symbol.toUpperCase()}</span>
+                    </div>
+                  </td>
+                  <td className="py-2 text-right text-brand-text-primary">{formatPrice(coin.current_price, currency)}</td>
+                  <td className={`py-2 text-right ${changeColor(coin.price_change_percentage_24h)}`}>{formatChange(coin.price_change_percentage_24h)}</td>
+                  <td className={`py-2 text-right ${changeColor(coin.price_change_percentage_7d)}`}>{formatChange(coin.price_change_percentage_7d)}</td>
+                  <td className="py-2 text-right text-brand-text-primary hidden md:table-cell">{coin.market_cap !== null ? formatCompactAmount(coin.market_cap, currency) : '—'}</td>
+                  <td className="py-2 text-right text-brand-text-primary hidden xl:table-cell">{coin.total_volume !== null ? formatCompactAmount(coin.total_volume, currency) : '—'}</td>
+                  <td className="py-2 hidden sm:table-cell">
+                    <div className="flex justify-end"><Sparkline prices={coin.sparkline} /></div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {canLoadMore && (
+            <button
+              onClick={() => setPageCount(prev => prev + 1)}
+              disabled={isLoading}
+              className="w-full mt-3 py-2 rounded-lg text-sm font-semibold text-brand-text-secondary hover:bg-brand-border/50 disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : `Show top ${Math.min(coins.length + MARKETS_PAGE_SIZE, MAX_OVERVIEW_COINS)}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+};
@@ -0,0 +1,172 @@
+/**
+ * @file This component renders the user's watchlist of cryptocurrencies.
+ * It displays one CryptoCard per watched coin and provides controls for adding coins via search,
+ * removing them, and reordering the list by dragging a card's grip.
+ */
+
+import React, { useState } from 'react';
+import type { Alert, ChartDrawing, CoinData, IndicatorType, QuoteCurrency } from '../types';
+import type { ConnectionState } from '../services/coingeckoService';
+import { exportWatchlist, downloadExportFile } from '../services/exportService';
+import { CryptoCard } from './CryptoCard';
+import { CoinSearchInput } from './CoinSearchInput';
+import { ExportMenu } from './ExportMenu';
+import { GripVerticalIcon } from './icons/GripVerticalIcon';
+
+/**
+ * Props for the Watchlist component.
+ */
+interface WatchlistProps {
+  /** The market data for every watched coin, in watchlist order. */
+  coins: CoinData[];
+  /** The quote currency the coins are priced in. */
+  currency: QuoteCurrency;
+  /** A boolean indicating if the market data is currently being loaded. */
+  isLoading: boolean;
+  /** An error message to display if the market data failed to load. */
+  error: string | null;
+  /** The ID of the currently selected coin, or null if none is selected. */
+  selectedCoinId: string | null;
+  /** The current state of the data connection, shared by all cards. */
+  connectionState: ConnectionState;
+  /** Callback function to select a coin. */
+  onSelectCoin: (coinId: string) => void;
+  /** Callback function to add a coin to the watchlist by its canonical ID. */
+  onAddCoin: (coinId: string) => void;
+  /** Callback function to remove a coin from the watchlist. */
+  onRemoveCoin: (coinId: string) => void;
+  /** Callback function to move a coin to the position currently held by another coin. */
+  onReorder: (coinId: string, targetCoinId: string) => void;
+  /** Callback function to open the price alert modal. */
+  onOpenAlertModal: (coinId: string, coinName: string, currentPrice: number) => void;
+  /** Callback function to manually trigger a data reconnection attempt. */
+  onManualReconnect: () => void;
+  /** The technical indicators enabled on each coin's chart, keyed by coin ID. */
+  chartIndicators: Record<string, IndicatorType[]>;
+  /** Callback function to change the indicators enabled on a coin's chart. */
+  onIndicatorsChange: (coinId: string, indicators: IndicatorType[]) => void;
+  /** The drawings on each coin's chart, keyed by coin ID and then by period. */
+  chartDrawings: Record<string, Record<string, ChartDrawing[]>>;
+  /** Callback function to change the drawings on a coin's chart for a period. */
+  onDrawingsChange: (coinId: string, periodKey: string, drawings: ChartDrawing[]) => void;
+  /** The user's price alerts, drawn on the matching coins' charts. */
+  alerts: Alert[];
+  /** Callback function to create a price alert from a drawn level. */
+  onCreateAlert: (alert: Omit<Alert, 'id' | 'createdAt'>) => void;
+}
+
+/**
+ * A panel that lists all watched coins as draggable cards. A card only becomes draggable while its grip
+ * is pressed, so dragging on a chart (e.g., to draw a trend line) does not pick the card up.
+ * It manages its own state for the current drag operation.
+ * @param {WatchlistProps} props - The properties for the component.
+ * @returns {JSX.Element} The rendered watchlist.
+ */
+export const Watchlist: React.FC<WatchlistProps> = ({
+  coins,
+  currency,
+  isLoading,
+  error,
+  selectedCoinId,
+  connectionState,
+  onSelectCoin,
+  onAddCoin,
+  onRemoveCoin,
+  onReorder,
+  onOpenAlertModal,
+  onManualReconnect,
+  chartIndicators,
+  onIndicatorsChange,
+  chartDrawings,
+  onDrawingsChange,
+  alerts,
+  onCreateAlert,
+}) => {
+  const [draggedCoinId, setDraggedCoinId] = useState<string | null>(null);
+  const [grippedCoinId, setGrippedCoinId] = useState<string | null>(null);
+
+  /**
+   * Makes a card draggable while its grip is pressed. The pointer may be released anywhere, so the
+   * release is listened for on the window.
+   * @param {string} coinId - The ID of the coin whose grip was pressed.
+   */
+  const handleGripPointerDown = (coinId: string) => {
+    setGrippedCoinId(coinId);
+    window.addEventListener('pointerup', () => setGrippedCoinId(null), { once: true });
+  };
+
+  /**
+   * Handles dropping a dragged card onto another card's position.
+   * @param {React.DragEvent<HTMLDivElement>} e - The drop event.
+   * @param {string} targetCoinId - The ID of the coin whose card was dropped onto.
+   */
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, targetCoinId: string) => {
+    e.preventDefault();
+    if (draggedCoinId !== null && draggedCoinId !== targetCoinId) {
+      onReorder(draggedCoinId, targetCoinId);
+    }
+    setDraggedCoinId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 w-full max-w-md">
+        <CoinSearchInput
+          onSelect={(coin) => onAddCoin(coin.id)}
+          placeholder="Add coin by name, ticker or contract"
+          className="flex-grow"
+        />
+        <ExportMenu
+          label="Export snapshot"
+          disabled={coins.length === 0}
+          onExport={(format) => downloadExportFile(exportWatchlist(coins, format, currency))}
+        />
+      </div>
+
+      {isLoading && coins.length === 0 ? (
+        <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-md shadow-lg h-[370px] flex items-center justify-center">Loading market data...</div>
+      ) : error && coins.length === 0 ? (
+        <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-md shadow-lg h-[370px] flex items-center justify-center text-red-500">{error}</div>
+      ) : coins.length === 0 ? (
+        <div className="bg-brand-surface border border-brand-border rounded-2xl p-6 w-full max-w-md shadow-lg text-center text-brand-text-secondary">
+          Your watchlist is empty. Add a coin to start tracking it.
+        </div>
+      ) : (
+        coins.map((coin) => (
+          <div
+            key={coin.id}
+            draggable={grippedCoinId === coin.id}
+            onDragStart={() => setDraggedCoinId(coin.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, coin.id)}
+            onDragEnd={() => {
+              setDraggedCoinId(null);
+              setGrippedCoinId(null);
+            }}
+            className={`flex items-start gap-1 transition-opacity ${draggedCoinId === coin.id ? 'opacity-50' : ''}`}
+          >
+            <div onPointerDown={() => handleGripPointerDown(coin.id)} className="mt-6 flex-shrink-0 cursor-move" title="Drag to reorder">
+              <GripVerticalIcon className="w-5 h-5 text-brand-text-secondary" />
+            </div>
+            <CryptoCard
+              coinData={coin}
+              currency={currency}
+              isSelected={coin.id === selectedCoinId}
+              onSelect={onSelectCoin}
+              onRemove={onRemoveCoin}
+              onOpenAlertModal={onOpenAlertModal}
+              connectionState={connectionState}
+              onManualReconnect={onManualReconnect}
+              indicators={chartIndicators[coin.id]}
+              onIndicatorsChange={onIndicatorsChange}
+              drawings={chartDrawings[coin.id]}
+              onDrawingsChange={onDrawingsChange}
+              alerts={alerts}
+              onCreateAlert={onCreateAlert}
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
\ No newline at end of file
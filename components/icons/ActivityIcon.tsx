@@ -0,0 +1,26 @@
+/**
+ * @file Renders an activity (pulse line) icon.
+ * This is used for the button that opens the data-source diagnostics panel.
+ */
+import React from 'react';
+
+/**
+ * A functional component that renders an activity SVG icon.
+ * @param {object} props - The component's properties.
+ * @param {string} [props.className] - Optional CSS classes to apply to the SVG element.
+ * @returns {JSX.Element} The rendered SVG icon.
+ */
+export const ActivityIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    className={className}
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <polyline points="22 12 18 12 15 21 9 3 6 12 2 12" />
+  </svg>
+);
\ No newline at end of file
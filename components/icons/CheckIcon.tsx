@@ -1,7 +1,6 @@
 /**
  * @file Renders a checkmark icon.
  * This can be used to indicate success or completion.
- * @deprecated This icon is part of an unused customizable dashboard feature.
  */
 import React from 'react';
 
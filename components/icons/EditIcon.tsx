@@ -1,7 +1,6 @@
 /**
  * @file Renders an edit (pencil) icon.
- * This is used for actions like enabling an edit mode on the dashboard.
- * @deprecated This icon is part of an unused customizable dashboard feature.
+ * This is used for editing a sent chat message.
  */
 import React from 'react';
 
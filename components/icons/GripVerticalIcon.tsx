@@ -1,7 +1,6 @@
 /**
  * @file Renders a vertical grip icon.
- * This is used as a drag handle for reordering items, such as dashboard widgets.
- * @deprecated This icon is part of an unused customizable dashboard feature.
+ * This is used as a drag handle for reordering items, such as watchlist cards.
  */
 import React from 'react';
 
@@ -1,6 +1,6 @@
 /**
  * @file Renders a refresh/reload icon.
- * This is used for the manual reconnect button when the data connection is lost.
+ * This is used for the manual reconnect button when the data connection is lost, and for regenerating an AI response.
  */
 import React from 'react';
 
@@ -0,0 +1,26 @@
+/**
+ * @file Renders a "stop" square icon.
+ * This is used for the button that stops an AI response while it is streaming.
+ */
+import React from 'react';
+
+/**
+ * A functional component that renders a stop SVG icon.
+ * @param {object} props - The component's properties.
+ * @param {string} [props.className] - Optional CSS classes to apply to the SVG element.
+ * @returns {JSX.Element} The rendered SVG icon.
+ */
+export const StopIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    className={className}
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="currentColor"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <rect x="6" y="6" width="12" height="12" rx="1" />
+  </svg>
+);
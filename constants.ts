@@ -3,47 +3,65 @@
  * These are primarily used for development, testing, and as fallback data when API calls fail.
  */
 
-import type { PriceHistory } from './types';
+import type { SimulatedCoinConfig } from './types';
 
 /**
- * Mock price history data for the cryptocurrency chart.
- * This is used as a fallback when the CoinGecko API fails to provide chart data,
- * ensuring the chart component still renders something meaningful.
+ * The coins known to the market simulator, which stands in for the market-data providers in
+ * simulation mode and generates fallback data when no live or cached data is available.
+ * Prices are the USD prices at the simulator's epoch (the start of 2024); coins that are not
+ * listed here are simulated with parameters derived from their IDs.
  * @constant
- * @type {PriceHistory}
+ * @type {SimulatedCoinConfig[]}
  */
-export const MOCK_PRICE_HISTORY: PriceHistory = {
-  '1H': [
-    { name: '-60m', price: 27280 },
-    { name: '-50m', price: 27295 },
-    { name: '-40m', price: 27305 },
-    { name: '-30m', price: 27290 },
-    { name: '-20m', price: 27310 },
-    { name: '-10m', price: 27325 },
-    { name: 'Now', price: 27340.12 },
-  ],
-  '1D': [
-    { name: '-24h', price: 27100 },
-    { name: '-18h', price: 27150 },
-    { name: '-12h', price: 27200 },
-    { name: '-6h', price: 27280 },
-    { name: 'Now', price: 27340.12 },
-  ],
-  '1W': [
-    { name: '7d', price: 26800 },
-    { name: '6d', price: 26950 },
-    { name: '5d', price: 27050 },
-    { name: '4d', price: 27000 },
-    { name: '3d', price: 27150 },
-    { name: '2d', price: 27250 },
-    { name: '1d', price: 27100 },
-    { name: 'Now', price: 27340.12 },
-  ],
-  '1M': [
-    { name: '4w', price: 25500 },
-    { name: '3w', price: 26500 },
-    { name: '2w', price: 26200 },
-    { name: '1w', price: 26800 },
-    { name: 'Now', price: 27340.12 },
-  ],
-};
\ No newline at end of file
+export const SIMULATED_COINS: SimulatedCoinConfig[] = [
+  {
+    id: 'bitcoin',
+    symbol: 'btc',
+    name: 'Bitcoin',
+    image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png?1696501400',
+    initialPrice: 42280,
+    drift: 0.3,
+    volatility: 0.55,
+    dailyVolume: 25e9,
+  },
+  {
+    id: 'ethereum',
+    symbol: 'eth',
+    name: 'Ethereum',
+    image: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png?1696501628',
+    initialPrice: 2281,
+    drift: 0.25,
+    volatility: 0.7,
+    dailyVolume: 12e9,
+  },
+  {
+    id: 'solana',
+    symbol: 'sol',
+    name: 'Solana',
+    image: 'https://assets.coingecko.com/coins/images/4128/large/solana.png?1718769756',
+    initialPrice: 101.5,
+    drift: 0.4,
+    volatility: 0.95,
+    dailyVolume: 2.5e9,
+  },
+  {
+    id: 'cardano',
+    symbol: 'ada',
+    name: 'Cardano',
+    image: 'https://assets.coingecko.com/coins/images/975/large/cardano.png?1696502090',
+    initialPrice: 0.59,
+    drift: 0,
+    volatility: 0.85,
+    dailyVolume: 0.4e9,
+  },
+  {
+    id: 'dogecoin',
+    symbol: 'doge',
+    name: 'Dogecoin',
+    image: 'https://assets.coingecko.com/coins/images/5/large/dogecoin.png?1696501409',
+    initialPrice: 0.089,
+    drift: 0.1,
+    volatility: 1,
+    dailyVolume: 0.8e9,
+  },
+];
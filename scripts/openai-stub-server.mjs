@@ -0,0 +1,171 @@
+/**
+ * @file A dependency-free stub of the OpenAI chat completions API, for exercising the OpenAI-compatible
+ * LLM provider offline. It answers deterministically:
+ * 1.  **Chat:** Messages are echoed back, streamed word by word when `stream` is set.
+ * 2.  **Tool Calls:** When tools are offered and the message asks about a price, it calls
+ *     `get_current_price`, then answers with the tool's result once it is sent back.
+ * 3.  **Structured Output:** With a `json_schema` response format, it returns a placeholder value
+ *     that matches the schema.
+ *
+ * Usage: `npm run llm-stub` (or `PORT=9000 node scripts/openai-stub-server.mjs`), then set
+ * `OPENAI_BASE_URL=http://localhost:8787/v1` in `.env`.
+ */
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MODELS = ['stub-echo', 'stub-analyst'];
+/** Coins the stub recognises in a message, mapped to the argument it passes to `get_current_price`. */
+const KNOWN_COINS = { bitcoin: 'bitcoin', btc: 'bitcoin', ethereum: 'ethereum', eth: 'ethereum', solana: 'solana', sol: 'solana' };
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+/**
+ * Builds a placeholder value matching a JSON schema: enums use their first value, numbers their
+ * minimum (or zero), arrays hold a single item and objects fill in every property.
+ * @param {object} schema - The JSON schema.
+ * @returns {unknown} The placeholder value.
+ */
+const sampleFromSchema = (schema = {}) => {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value)]));
+    case 'array':
+      return [sampleFromSchema(schema.items)];
+    case 'integer':
+    case 'number':
+      return Math.max(schema.minimum ?? 0, Math.min(schema.maximum ?? 0, 0));
+    case 'boolean':
+      return false;
+    default:
+      return schema.description ? `Stub: ${schema.description}` : 'Stub value';
+  }
+};
+
+/**
+ * Decides how the stub answers a chat completions request.
+ * @param {object} body - The request body.
+ * @returns {{ content: string | null, toolCalls: object[] }} The answer text or the tool calls to make.
+ */
+const buildAnswer = (body) => {
+  const messages = body.messages ?? [];
+  const last = messages[messages.length - 1] ?? { role: 'user', content: '' };
+  const userTurns = messages.filter(message => message.role === 'user').length;
+
+  if (body.response_format?.type === 'json_schema') {
+    return { content: JSON.stringify(sampleFromSchema(body.response_format.json_schema?.schema)), toolCalls: [] };
+  }
+
+  if (last.role === 'tool') {
+    const result = String(last.content ?? '');
+    return { content: `Here is what the tool returned: ${result.length > 300 ? `${result.slice(0, 300)}…` : result}`, toolCalls: [] };
+  }
+
+  const text = String(last.content ?? '');
+  const offersPriceTool = (body.tools ?? []).some(tool => tool.function?.name === 'get_current_price');
+  if (offersPriceTool && /\bprice\b/i.test(text)) {
+    const word = text.toLowerCase().match(/[a-z]+/g)?.find(token => token in KNOWN_COINS);
+    return {
+      content: null,
+      toolCalls: [{
+        id: `call_${Date.now()}`,
+        type: 'function',
+        function: { name: 'get_current_price', arguments: JSON.stringify({ coin: word ? KNOWN_COINS[word] : 'bitcoin' }) },
+      }],
+    };
+  }
+
+  return { content: `Stub reply #${userTurns} from ${body.model}: you said "${text}".`, toolCalls: [] };
+};
+
+/**
+ * Sends a JSON response.
+ * @param {import('node:http').ServerResponse} res - The response.
+ * @param {number} status - The HTTP status.
+ * @param {object} data - The response body.
+ */
+const sendJson = (res, status, data) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+/**
+ * Streams an answer as server-sent events in the chat completions chunk format.
+ * @param {import('node:http').ServerResponse} res - The response.
+ * @param {string} model - The requested model.
+ * @param {{ content: string | null, toolCalls: object[] }} answer - The answer to stream.
+ */
+const streamAnswer = async (res, model, { content, toolCalls }) => {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const send = (delta, finishReason = null) => res.write(`data: ${JSON.stringify({
+    id: 'chatcmpl-stub',
+    object: 'chat.completion.chunk',
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  })}\n\n`);
+
+  if (toolCalls.length > 0) {
+    send({ role: 'assistant', tool_calls: toolCalls.map((call, index) => ({ index, ...call })) });
+  } else {
+    for (const word of (content ?? '').split(/(?<= )/)) {
+      send({ content: word });
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+  send({}, toolCalls.length > 0 ? 'tool_calls' : 'stop');
+  res.end('data: [DONE]\n\n');
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/v1/models') {
+    sendJson(res, 200, { object: 'list', data: MODELS.map(id => ({ id, object: 'model', owned_by: 'stub' })) });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      let body;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        sendJson(res, 400, { error: { message: 'The request body is not valid JSON.' } });
+        return;
+      }
+      const answer = buildAnswer(body);
+      console.log(`${body.model}: ${answer.toolCalls.length > 0 ? `tool call ${answer.toolCalls[0].function.name}` : 'text'}`);
+      if (body.stream) {
+        streamAnswer(res, body.model, answer);
+        return;
+      }
+      sendJson(res, 200, {
+        id: 'chatcmpl-stub',
+        object: 'chat.completion',
+        model: body.model,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: answer.content, ...(answer.toolCalls.length > 0 && { tool_calls: answer.toolCalls }) },
+          finish_reason: answer.toolCalls.length > 0 ? 'tool_calls' : 'stop',
+        }],
+      });
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: `No route for ${req.method} ${req.url}.` } });
+});
+
+server.listen(PORT, () => console.log(`OpenAI-compatible stub listening on http://localhost:${PORT}/v1`));
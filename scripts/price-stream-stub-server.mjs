@@ -0,0 +1,234 @@
+/**
+ * @file A dependency-free stub of Binance's combined-stream WebSocket and exchange info endpoint, for
+ * exercising the price stream offline. It serves:
+ * 1.  **Exchange Info:** `GET /api/v3/exchangeInfo` lists the pairs in `PAIRS` as trading, so coins whose
+ *     pair is missing from it are left to polling, as with real Binance. Like Binance, a `symbols` (or
+ *     `symbol`) query narrows the list, and is answered with a 400 if it names a pair that is not listed.
+ * 2.  **Combined Streams:** `ws://…/stream?streams=btcusdt@aggTrade/…` sends an aggTrade-style message
+ *     (`{ stream, data: { s, p } }`) for every listed pair it subscribes to, every `TICK_MS`.
+ *     Prices follow a small random walk.
+ * 3.  **Outages:** With `DROP_AFTER_MS` set, each socket is closed after that long, to exercise
+ *     reconnects and the fallback to polling.
+ *
+ * Usage: `npm run price-stream-stub` (or `PORT=9001 PAIRS=BTCUSDT,ETHUSDT node scripts/price-stream-stub-server.mjs`),
+ * then set `PRICE_STREAM_STUB_URL=http://localhost:8788` in `.env`.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8788;
+const TICK_MS = Number(process.env.TICK_MS) || 500;
+const DROP_AFTER_MS = Number(process.env.DROP_AFTER_MS) || 0;
+const PAIRS = (process.env.PAIRS || 'BTCUSDT,ETHUSDT,SOLUSDT,XRPUSDT,DOGEUSDT,BTCEUR,ETHEUR,ETHBTC')
+  .split(',')
+  .map(pair => pair.trim().toUpperCase())
+  .filter(Boolean);
+/** The quote assets the stub knows, longest first so that e.g. 'USDT' is matched before 'BTC'. */
+const QUOTE_ASSETS = ['USDT', 'EUR', 'GBP', 'BTC', 'ETH'];
+/** Starting prices per base asset, in USD; other quote assets are converted with `QUOTE_IN_USD`. */
+const BASE_PRICES_USD = { BTC: 65000, ETH: 3200, SOL: 150, XRP: 0.5, DOGE: 0.15 };
+const QUOTE_IN_USD = { USDT: 1, EUR: 1.08, GBP: 1.27, BTC: 65000, ETH: 3200 };
+
+/** The magic value the WebSocket handshake appends to the client's key (RFC 6455). */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+/**
+ * Splits a pair into its base and quote assets.
+ * @param {string} pair - The uppercase pair (e.g., 'BTCUSDT').
+ * @returns {{ base: string, quote: string } | null} The assets, or null if the quote asset is unknown.
+ */
+const splitPair = (pair) => {
+  const quote = QUOTE_ASSETS.find(asset => pair.endsWith(asset) && pair.length > asset.length);
+  return quote ? { base: pair.slice(0, -quote.length), quote } : null;
+};
+
+/** The latest price of every listed pair. */
+const prices = new Map(PAIRS.map(pair => {
+  const assets = splitPair(pair);
+  const usd = assets ? (BASE_PRICES_USD[assets.base] ?? 1) : 1;
+  return [pair, assets ? usd / QUOTE_IN_USD[assets.quote] : usd];
+}));
+
+/**
+ * Moves every price by up to ±0.1%.
+ */
+const walkPrices = () => {
+  prices.forEach((price, pair) => prices.set(pair, price * (1 + (Math.random() - 0.5) * 0.002)));
+};
+
+/**
+ * Encodes a payload as a final, unmasked WebSocket frame, as servers send them, using the extended
+ * 16- or 64-bit length for payloads of 126 bytes or more.
+ * @param {number} opcode - The frame's opcode (e.g., 0x1 for text, 0xa for pong).
+ * @param {Buffer} payload - The payload.
+ * @returns {Buffer} The frame.
+ */
+const encodeFrame = (opcode, payload) => {
+  const firstByte = 0x80 | opcode;
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([firstByte, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(firstByte, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(firstByte, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Encodes a text message as a WebSocket frame.
+ * @param {string} text - The message.
+ * @returns {Buffer} The frame.
+ */
+const encodeTextFrame = (text) => encodeFrame(0x1, Buffer.from(text));
+
+/** A close frame with status 1000 (normal closure). */
+const CLOSE_FRAME = Buffer.from([0x88, 0x02, 0x03, 0xe8]);
+
+/**
+ * Answers the opcodes of the client frames that matter to the stub: close is echoed back and ping is
+ * answered with pong. Data frames from the client are ignored.
+ * @param {import('node:net').Socket} socket - The client's socket.
+ * @param {Buffer} data - The received bytes, assumed to hold whole frames.
+ */
+const handleClientFrames = (socket, data) => {
+  let offset = 0;
+  while (offset + 2 <= data.length) {
+    const opcode = data[offset] & 0x0f;
+    let length = data[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      length = data.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      length = Number(data.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    const isMasked = (data[offset + 1] & 0x80) !== 0;
+    const maskStart = offset + headerLength;
+    const payloadStart = maskStart + (isMasked ? 4 : 0);
+    const payload = Buffer.from(data.subarray(payloadStart, payloadStart + length));
+    if (isMasked) payload.forEach((byte, i) => { payload[i] = byte ^ data[maskStart + (i % 4)]; });
+
+    if (opcode === 0x8) {
+      socket.end(CLOSE_FRAME);
+      return;
+    }
+    if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+    offset = payloadStart + length;
+  }
+};
+
+/**
+ * Reads the listed pairs a combined-stream URL subscribes to, e.g. `?streams=btcusdt@aggTrade/xyzusdt@aggTrade`.
+ * @param {URL} url - The request URL.
+ * @returns {{ pair: string, stream: string }[]} The subscribed streams whose pairs are listed.
+ */
+const getSubscriptions = (url) =>
+  (url.searchParams.get('streams') ?? '')
+    .split('/')
+    .filter(Boolean)
+    .map(stream => ({ pair: stream.split('@')[0].toUpperCase(), stream }))
+    .filter(({ pair }) => prices.has(pair));
+
+/**
+ * Reads the pairs an exchange info request is narrowed to, from its `symbols` (a JSON array) or `symbol` query.
+ * @param {URL} url - The request URL.
+ * @returns {string[] | null} The uppercase pairs, or null if the request asks for every pair.
+ */
+const getRequestedPairs = (url) => {
+  const symbols = url.searchParams.get('symbols');
+  if (symbols) {
+    try {
+      const parsed = JSON.parse(symbols);
+      return Array.isArray(parsed) ? parsed.map(pair => String(pair).toUpperCase()) : [];
+    } catch {
+      return [];
+    }
+  }
+  const symbol = url.searchParams.get('symbol');
+  return symbol ? [symbol.toUpperCase()] : null;
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  if (req.method === 'GET' && url.pathname === '/api/v3/exchangeInfo') {
+    const requested = getRequestedPairs(url);
+    if (requested && requested.some(pair => !prices.has(pair))) {
+      res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ code: -1121, msg: 'Invalid symbol.' }));
+      return;
+    }
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      timezone: 'UTC',
+      serverTime: Date.now(),
+      symbols: (requested ?? PAIRS).map(pair => ({ symbol: pair, status: 'TRADING', baseAsset: splitPair(pair)?.base, quoteAsset: splitPair(pair)?.quote })),
+    }));
+    return;
+  }
+  res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ code: -1, msg: `No route for ${req.method} ${req.url}.` }));
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const key = req.headers['sec-websocket-key'];
+  if (url.pathname !== '/stream' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(`${key}${WEBSOCKET_GUID}`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+
+  const subscriptions = getSubscriptions(url);
+  console.log(`Client subscribed to ${subscriptions.length > 0 ? subscriptions.map(s => s.pair).join(', ') : 'no listed pairs'}.`);
+
+  const tickTimer = setInterval(() => {
+    subscriptions.forEach(({ pair, stream }) => {
+      const message = { stream, data: { e: 'aggTrade', E: Date.now(), s: pair, p: prices.get(pair).toPrecision(8), T: Date.now() } };
+      socket.write(encodeTextFrame(JSON.stringify(message)));
+    });
+  }, TICK_MS);
+  const dropTimer = DROP_AFTER_MS > 0 ? setTimeout(() => {
+    console.log('Dropping client, as DROP_AFTER_MS is set.');
+    socket.end(CLOSE_FRAME);
+  }, DROP_AFTER_MS) : null;
+
+  const cleanUp = () => {
+    clearInterval(tickTimer);
+    if (dropTimer) clearTimeout(dropTimer);
+  };
+  socket.on('data', data => handleClientFrames(socket, data));
+  socket.on('close', cleanUp);
+  socket.on('error', cleanUp);
+});
+
+setInterval(walkPrices, TICK_MS);
+
+server.listen(PORT, () => console.log(`Price stream stub listening on ws://localhost:${PORT}/stream (pairs: ${PAIRS.join(', ')})`));
@@ -0,0 +1,371 @@
+/**
+ * @file This service is the app's entry point to the AI analyst. It routes every request to the
+ * provider of the chosen model (see `llmProviders`): Google Gemini, any OpenAI-compatible endpoint or a
+ * local Ollama server. It provides:
+ * 1.  **Chat Sessions:** One chat per session, rebuilt from the branch of stored messages being answered
+ *     (see `chatHistory`) after a reload, a switch of model or branch, or once the conversation outgrows the
+ *     provider's history budget. Chats can call the market-data tools from `chatTools`.
+ * 2.  **Grounded Responses:** Streamed web-searched answers with their sources, from providers that support grounding.
+ * Streamed responses can be stopped with an `AbortSignal`.
+ * 3.  **Structured Analyses:** Reports requested against a JSON response schema and validated before use,
+ *     with a free-form Markdown analysis as the fallback.
+ * 4.  **Model Picker:** The models each configured provider offers.
+ */
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { AnalysisHorizon, AnalysisScenario, ChatModel, IndicatorReading, LLMProviderId, Message, StructuredAnalysis, TrendDirection } from '../types';
+import { CHAT_TOOL_DECLARATIONS } from './chatTools';
+import { buildChatContext, estimateMessagesTokens } from './chatHistory';
+import { geminiProvider } from './geminiService';
+import { ollamaProvider, openAICompatibleProvider } from './llmProviders';
+import type { ChatStreamHandlers, GroundedResponse, LLMChat, LLMProvider } from './llmProviders';
+
+/** The model used by sessions that have not picked one, and for analysis reports. */
+export const DEFAULT_CHAT_MODEL: ChatModel = { provider: 'gemini', model: 'gemini-2.5-flash' };
+
+/** The providers, keyed by ID, in the order they are offered. */
+const LLM_PROVIDERS: { [key in LLMProviderId]: LLMProvider } = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  ollama: ollamaProvider,
+};
+
+/**
+ * Gets the provider with the given ID.
+ * @param {LLMProviderId} id - The provider's ID.
+ * @returns {LLMProvider} The provider.
+ */
+export const getLLMProvider = (id: LLMProviderId): LLMProvider => LLM_PROVIDERS[id];
+
+/**
+ * The models one provider offers, as listed in the model picker.
+ */
+export interface ChatModelGroup {
+  /** The provider's ID. */
+  provider: LLMProviderId;
+  /** The provider's display name. */
+  name: string;
+  /** The provider's models. */
+  models: string[];
+}
+
+/** The model listing, fetched once per page load. */
+let chatModelListing: Promise<ChatModelGroup[]> | null = null;
+
+/**
+ * Lists the models of every configured provider. Providers that cannot be reached (e.g., an Ollama
+ * server that is not running) are left out.
+ * @returns {Promise<ChatModelGroup[]>} A promise that resolves to the available models, grouped by provider.
+ */
+export const listChatModels = (): Promise<ChatModelGroup[]> => {
+  chatModelListing ??= (async () => {
+    const providers = Object.values(LLM_PROVIDERS).filter(provider => provider.isConfigured);
+    const results = await Promise.allSettled(providers.map(provider => provider.listModels()));
+    return results.flatMap((result, i): ChatModelGroup[] => {
+      if (result.status === 'rejected') {
+        console.warn(`Could not list ${providers[i].name} models. Reason: ${result.reason?.message ?? result.reason}`);
+        return [];
+      }
+      return result.value.length > 0 ? [{ provider: providers[i].id, name: providers[i].name, models: result.value }] : [];
+    });
+  })();
+  return chatModelListing;
+};
+
+/**
+ * An active chat instance, with what it needs to know to tell whether it is still in sync with its session.
+ */
+interface ActiveChat {
+  /** The model the chat was created for, as 'provider:model'. */
+  modelKey: string;
+  /** The chat. */
+  chat: LLMChat;
+  /** The ID of the last stored message the chat has seen, or null if it has seen none. Since every branch ends in a distinct message, this identifies the whole conversation. */
+  lastMessageId: string | null;
+}
+
+/**
+ * A message to send to a chat session.
+ */
+export interface ChatRequest {
+  /** The ID of the chat session. */
+  sessionId: string;
+  /** The model the session talks to. */
+  model: ChatModel;
+  /** The stored messages of the branch being answered, before this one; used to rebuild the chat's context when needed. */
+  previousMessages: Message[];
+  /** The user's message. */
+  message: string;
+  /** The ID under which the response will be stored. */
+  responseId: string;
+  /** A signal that stops the response. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A map to store and manage active chat instances, keyed by a unique session ID.
+ * This allows for multiple, independent conversations.
+ * @constant
+ */
+const chatSessions = new Map<string, ActiveChat>();
+
+/**
+ * The system instruction for the analyst: how to structure a full market analysis.
+ * @constant
+ */
+const ANALYST_SYSTEM_INSTRUCTION = `You are a professional crypto trading analyst. Your goal is to provide comprehensive and well-structured market analysis.
+
+When a user asks for an analysis of a cryptocurrency, you must provide a detailed report covering the following sections:
+
+1.  **Executive Summary:** A brief, high-level overview of the current market sentiment and key takeaways.
+2.  **Technical Analysis:**
+    *   **Moving Averages (MA):** Analyze key moving averages (e.g., 50-day, 200-day) to determine the long-term and short-term trends.
+    *   **Relative Strength Index (RSI):** Evaluate the RSI to identify overbought or oversold conditions.
+    *   **MACD (Moving Average Convergence Divergence):** Analyze the MACD line, signal line, and histogram to identify momentum and potential trend reversals.
+3.  **Fundamental Analysis:**
+    *   **Valuation & Supply:** Assess the market cap, fully diluted valuation, supply and distance from the all-time high and low. When the request includes current fundamentals, base this on those figures.
+    *   **Recent News:** Summarize any significant recent news that could impact the asset's price.
+    *   **Project Developments:** Mention any recent updates, partnerships, or roadmap progress for the project.
+4.  **Overall Outlook:** Conclude with a balanced outlook, considering both bullish and bearish scenarios based on the analysis.
+
+Always use Markdown for clear formatting, including headings, bold text, and lists.`;
+
+/**
+ * Added to the analyst's instruction in chat sessions, which can call market-data tools.
+ * @constant
+ */
+const TOOL_USE_INSTRUCTION = `You have tools for live market data: current prices, price history, OHLC candles, technical indicators and the latest news. Call them whenever an answer depends on current figures instead of guessing or declining, and quote the figures they return with their timeframe and currency.
+Every tool result has a \`source\` and an \`is_stale\` field. If the source is 'mock', the data is simulated because no real source was reachable: say so plainly and never present those figures as real market data. If \`is_stale\` is true, say the figures may be out of date and when they were fetched (\`fetched_at\`).`;
+
+/**
+ * Retrieves or creates the chat for a session. The active chat is reused only while it has seen exactly
+ * the stored messages, with the same model, and they still fit the provider's history budget. Otherwise
+ * (e.g., after a reload, a switch of model or branch, a web-search answer, or a failed or stopped response)
+ * a new chat is started from the stored messages, keeping the most recent ones and summarising the rest.
+ * @param {string} sessionId - The unique identifier for the chat session.
+ * @param {ChatModel} model - The model the session talks to.
+ * @param {Message[]} previousMessages - The session's stored messages, oldest first.
+ * @returns {LLMChat} The chat for the session.
+ */
+const getChatSession = (sessionId: string, model: ChatModel, previousMessages: Message[]): LLMChat => {
+  const modelKey = `${model.provider}:${model.model}`;
+  const provider = getLLMProvider(model.provider);
+  const existing = chatSessions.get(sessionId);
+  if (
+    existing?.modelKey === modelKey &&
+    existing.lastMessageId === (previousMessages[previousMessages.length - 1]?.id ?? null) &&
+    estimateMessagesTokens(previousMessages) <= provider.historyTokenBudget
+  ) {
+    return existing.chat;
+  }
+
+  const { history, summary } = buildChatContext(previousMessages, provider.historyTokenBudget);
+  console.log(`Creating new chat session for ID: ${sessionId} with ${modelKey}, replaying ${history.length} turns${summary ? ' and a summary of older ones' : ''}.`);
+  const chat = provider.createChat({
+    model: model.model,
+    systemInstruction: [ANALYST_SYSTEM_INSTRUCTION, TOOL_USE_INSTRUCTION, summary].filter(Boolean).join('\n\n'),
+    tools: CHAT_TOOL_DECLARATIONS,
+    history,
+  });
+  chatSessions.set(sessionId, { modelKey, chat, lastMessageId: previousMessages[previousMessages.length - 1]?.id ?? null });
+  return chat;
+};
+
+/**
+ * Removes a chat session from the active sessions map to free up resources.
+ * This should be called when a user deletes a session from the UI.
+ * @param {string} sessionId - The ID of the session to remove.
+ */
+export const removeChatSession = (sessionId: string) => {
+    if (chatSessions.has(sessionId)) {
+        chatSessions.delete(sessionId);
+        console.log(`Removed chat session for ID: ${sessionId}`);
+    }
+};
+
+/**
+ * Sends a message to a chat session and streams the response, including any tool calls the model makes.
+ * @param {ChatRequest} request - The session, model, earlier messages, message and response ID.
+ * @param {ChatStreamHandlers} handlers - Callbacks for the response text and tool calls.
+ * @returns {Promise<void>} A promise that resolves when the response is complete, or rejects if it is stopped.
+ */
+export const streamChatResponse = async (request: ChatRequest, handlers: ChatStreamHandlers): Promise<void> => {
+  const { sessionId, model, previousMessages, message, responseId, signal } = request;
+  const chat = getChatSession(sessionId, model, previousMessages);
+  await chat.streamMessage(message, handlers, signal);
+  // The chat has now seen the message and its response, as will the session once they are stored.
+  const active = chatSessions.get(sessionId);
+  if (active?.chat === chat) active.lastMessageId = responseId;
+};
+
+/**
+ * Streams a response grounded in a web search, for queries that require up-to-date, real-time
+ * information from the web.
+ * @param {string} prompt - The user's prompt.
+ * @param {ChatModel} model - The model to use; its provider must support grounding.
+ * @param {(text: string) => void} onText - Callback for each piece of the response text.
+ * @param {AbortSignal} [signal] - A signal that stops the response.
+ * @returns {Promise<GroundedResponse>} A promise that resolves to the AI's full response and its sources.
+ * @throws {Error} If the model's provider cannot ground responses.
+ */
+export const streamGroundedResponse = async (
+  prompt: string,
+  model: ChatModel,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<GroundedResponse> => {
+    const provider = getLLMProvider(model.provider);
+    if (!provider.streamGrounded) {
+        throw new Error(`${provider.name} models cannot search the web.`);
+    }
+    return provider.streamGrounded(prompt, { model: model.model, signal }, onText);
+};
+
+// --- Structured Analysis ---
+
+/**
+ * The system instruction for structured analyses, which are returned as JSON rather than Markdown.
+ * @constant
+ */
+const STRUCTURED_ANALYSIS_INSTRUCTION = `You are a professional crypto trading analyst. Analyse the requested cryptocurrency and answer only with JSON matching the response schema.
+Base technical readings and price levels on the market data given in the request; express every price in the request's quote currency.
+Give a balanced view: the bull and bear cases should both be plausible, and the confidence should reflect how clear the evidence is.`;
+
+const TRENDS: TrendDirection[] = ['uptrend', 'downtrend', 'sideways'];
+const HORIZONS: AnalysisHorizon[] = ['short', 'medium', 'long'];
+const SIGNALS: IndicatorReading['signal'][] = ['bullish', 'bearish', 'neutral'];
+
+const scenarioSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'What would have to happen, and what is expected to follow.' },
+    targetPrice: { type: Type.NUMBER, nullable: true, description: 'The price the scenario points to.' },
+  },
+  required: ['summary', 'targetPrice'],
+  propertyOrdering: ['summary', 'targetPrice'],
+};
+
+/**
+ * The JSON response schema for structured analyses, mirroring `StructuredAnalysis`.
+ * @constant
+ */
+const ANALYSIS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'A two or three sentence overview.' },
+    sentimentScore: { type: Type.INTEGER, minimum: -100, maximum: 100, description: 'From -100 (very bearish) to 100 (very bullish).' },
+    trend: { type: Type.STRING, enum: TRENDS },
+    supportLevels: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'Key support prices, nearest first.' },
+    resistanceLevels: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'Key resistance prices, nearest first.' },
+    indicators: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          value: { type: Type.STRING },
+          signal: { type: Type.STRING, enum: SIGNALS },
+        },
+        required: ['name', 'value', 'signal'],
+        propertyOrdering: ['name', 'value', 'signal'],
+      },
+    },
+    bullCase: scenarioSchema,
+    bearCase: scenarioSchema,
+    confidence: { type: Type.INTEGER, minimum: 0, maximum: 100, description: 'How confident the view is, from 0 to 100.' },
+    horizon: { type: Type.STRING, enum: HORIZONS, description: "'short' for days, 'medium' for weeks, 'long' for months or more." },
+  },
+  required: ['summary', 'sentimentScore', 'trend', 'supportLevels', 'resistanceLevels', 'indicators', 'bullCase', 'bearCase', 'confidence', 'horizon'],
+  propertyOrdering: ['summary', 'sentimentScore', 'trend', 'supportLevels', 'resistanceLevels', 'indicators', 'bullCase', 'bearCase', 'confidence', 'horizon'],
+};
+
+/**
+ * Clamps a number into a range, rounding it to an integer.
+ * @param {unknown} value - The value to clamp.
+ * @param {number} min - The smallest allowed value.
+ * @param {number} max - The largest allowed value.
+ * @returns {number} The clamped value.
+ * @throws {Error} If the value is not a number.
+ */
+const toBoundedInteger = (value: unknown, min: number, max: number): number => {
+  if (typeof value !== 'number' || !isFinite(value)) throw new Error('Expected a number.');
+  return Math.round(Math.min(Math.max(value, min), max));
+};
+
+/**
+ * Reads a list of price levels, dropping anything that is not a positive number.
+ * @param {unknown} value - The list to read.
+ * @returns {number[]} The price levels.
+ */
+const toPriceLevels = (value: unknown): number[] =>
+  Array.isArray(value) ? value.filter((level): level is number => typeof level === 'number' && level > 0) : [];
+
+/**
+ * Reads a bull or bear scenario.
+ * @param {any} value - The scenario to read.
+ * @returns {AnalysisScenario} The scenario.
+ * @throws {Error} If the scenario has no summary.
+ */
+const toScenario = (value: any): AnalysisScenario => {
+  if (typeof value?.summary !== 'string') throw new Error('Expected a scenario summary.');
+  return { summary: value.summary, targetPrice: typeof value.targetPrice === 'number' ? value.targetPrice : null };
+};
+
+/**
+ * Parses and validates the model's JSON response, so the UI can rely on the `StructuredAnalysis` shape.
+ * @param {string} text - The response text.
+ * @returns {StructuredAnalysis} The parsed analysis.
+ * @throws {Error} If the response is not valid JSON or does not match the schema.
+ */
+const parseStructuredAnalysis = (text: string): StructuredAnalysis => {
+  const data = JSON.parse(text);
+  if (typeof data?.summary !== 'string') throw new Error('The analysis has no summary.');
+  if (!TRENDS.includes(data.trend)) throw new Error(`Unexpected trend '${data.trend}'.`);
+  if (!HORIZONS.includes(data.horizon)) throw new Error(`Unexpected horizon '${data.horizon}'.`);
+  return {
+    summary: data.summary,
+    sentimentScore: toBoundedInteger(data.sentimentScore, -100, 100),
+    trend: data.trend,
+    supportLevels: toPriceLevels(data.supportLevels),
+    resistanceLevels: toPriceLevels(data.resistanceLevels),
+    indicators: Array.isArray(data.indicators)
+      ? data.indicators
+          .filter((reading: any) => typeof reading?.name === 'string' && typeof reading?.value === 'string')
+          .map((reading: any): IndicatorReading => ({
+            name: reading.name,
+            value: reading.value,
+            signal: SIGNALS.includes(reading.signal) ? reading.signal : 'neutral',
+          }))
+      : [],
+    bullCase: toScenario(data.bullCase),
+    bearCase: toScenario(data.bearCase),
+    confidence: toBoundedInteger(data.confidence, 0, 100),
+    horizon: data.horizon,
+  };
+};
+
+/**
+ * Generates a structured analysis with a JSON response schema. Without a Gemini API key, the default
+ * model returns a mock analysis.
+ * @param {string} prompt - The analysis request, including any market data to base it on.
+ * @param {ChatModel} [model] - The model to use.
+ * @returns {Promise<StructuredAnalysis>} A promise that resolves to the validated analysis.
+ * @throws {Error} If the request fails or the response does not match the schema.
+ */
+export const generateStructuredAnalysis = async (prompt: string, model: ChatModel = DEFAULT_CHAT_MODEL): Promise<StructuredAnalysis> => {
+    const text = await getLLMProvider(model.provider).generateStructured(prompt, ANALYSIS_RESPONSE_SCHEMA, {
+        model: model.model,
+        systemInstruction: STRUCTURED_ANALYSIS_INSTRUCTION,
+    });
+    return parseStructuredAnalysis(text);
+};
+
+/**
+ * Generates a free-form Markdown analysis, used when a structured analysis cannot be produced.
+ * Without a Gemini API key, the default model returns a mock analysis.
+ * @param {string} prompt - The analysis request.
+ * @param {ChatModel} [model] - The model to use.
+ * @returns {Promise<string>} A promise that resolves to the Markdown analysis.
+ */
+export const generateMarkdownAnalysis = (prompt: string, model: ChatModel = DEFAULT_CHAT_MODEL): Promise<string> =>
+    getLLMProvider(model.provider).generateText(prompt, { model: model.model, systemInstruction: ANALYST_SYSTEM_INSTRUCTION });
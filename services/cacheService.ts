@@ -0,0 +1,201 @@
+/**
+ * @file This service provides a persistent response cache for market and chart data.
+ * It provides:
+ * 1.  **Persistent Storage:** Entries are kept in IndexedDB, so the last real data survives reloads
+ *     and outages. An in-memory layer serves repeated reads, and is used on its own where
+ *     IndexedDB is unavailable (e.g., private browsing in some browsers).
+ * 2.  **Stale-While-Revalidate:** Fresh entries are served without a request; stale ones are served
+ *     instantly while a background request refreshes them. Concurrent refreshes of the same key
+ *     share a single request.
+ * 3.  **Freshness Reporting:** Every result says whether it is live, cached or stale, so the UI can label it.
+ */
+
+import type { DataFreshness } from '../types';
+
+/** A cached value and when it was fetched from the network. */
+export interface CacheEntry<T> {
+  key: string;
+  data: T;
+  savedAt: number;
+}
+
+/** A value served through the cache, together with its freshness. */
+export interface CachedData<T> {
+  data: T;
+  freshness: DataFreshness;
+}
+
+const DB_NAME = 'cryptoDashboardCache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+/** Entries older than this are removed when the database is opened. */
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const inFlightRevalidations = new Map<string, Promise<unknown>>();
+let dbRequest: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param {IDBRequest<T>} request - The request to wait for.
+ * @returns {Promise<T>} A promise that resolves to the request's result.
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Removes entries older than `MAX_ENTRY_AGE_MS`, so the cache does not grow without bound.
+ * @param {IDBDatabase} db - The open database.
+ */
+const pruneExpiredEntries = (db: IDBDatabase) => {
+  const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const request = store.index('savedAt').openCursor(IDBKeyRange.upperBound(cutoff));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+/**
+ * Opens the cache database once and shares the connection.
+ * @returns {Promise<IDBDatabase | null>} The database, or null if IndexedDB is unavailable.
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbRequest) {
+    dbRequest = new Promise<IDBDatabase | null>(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('savedAt', 'savedAt');
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        try {
+          pruneExpiredEntries(db);
+        } catch (error) {
+          console.warn('Failed to prune the response cache.', error);
+        }
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.warn('IndexedDB is unavailable. Caching responses in memory only.', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbRequest;
+};
+
+/**
+ * Reads a cache entry, regardless of its age.
+ * @param {string} key - The cache key.
+ * @returns {Promise<CacheEntry<T> | null>} A promise that resolves to the entry, or null if nothing is cached.
+ */
+export const readCache = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const cached = memoryCache.get(key);
+  if (cached) return cached as CacheEntry<T>;
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+    const entry = await promisify<CacheEntry<T> | undefined>(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key));
+    if (!entry) return null;
+    memoryCache.set(key, entry);
+    return entry;
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from the response cache.`, error);
+    return null;
+  }
+};
+
+/**
+ * Stores a freshly fetched value in the cache.
+ * @param {string} key - The cache key.
+ * @param {T} data - The value to store; it must be structured-cloneable.
+ * @returns {Promise<void>} A promise that resolves once the value is persisted (or persisting failed).
+ */
+export const writeCache = async <T>(key: string, data: T): Promise<void> => {
+  const entry: CacheEntry<T> = { key, data, savedAt: Date.now() };
+  memoryCache.set(key, entry);
+  try {
+    const db = await openDatabase();
+    if (db) await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+  } catch (error) {
+    console.warn(`Failed to persist "${key}" to the response cache. Keeping it in memory only.`, error);
+  }
+};
+
+/**
+ * Builds the freshness of a value served from a cache entry.
+ * @param {CacheEntry<unknown>} entry - The cache entry.
+ * @param {number} ttlMs - How long the entry counts as fresh.
+ * @returns {DataFreshness} The entry's freshness.
+ */
+export const getEntryFreshness = (entry: CacheEntry<unknown>, ttlMs: number): DataFreshness => ({
+  source: 'cache',
+  fetchedAt: entry.savedAt,
+  isStale: Date.now() - entry.savedAt >= ttlMs,
+});
+
+/**
+ * Fetches a value and stores it, sharing the request with concurrent callers for the same key.
+ * @param {string} key - The cache key.
+ * @param {() => Promise<T>} fetcher - Fetches the value from the network.
+ * @returns {Promise<T>} A promise that resolves to the fetched value.
+ */
+const revalidate = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  let request = inFlightRevalidations.get(key) as Promise<T> | undefined;
+  if (!request) {
+    request = fetcher()
+      .then(async data => {
+        await writeCache(key, data);
+        return data;
+      })
+      .finally(() => inFlightRevalidations.delete(key));
+    inFlightRevalidations.set(key, request);
+  }
+  return request;
+};
+
+/**
+ * Serves a value with stale-while-revalidate semantics:
+ * - a fresh cache entry is returned without a request;
+ * - a stale entry is returned immediately while it is refreshed in the background, and
+ *   `onRevalidated` receives the new value once it arrives;
+ * - if nothing is cached, the value is fetched and the caller waits for it.
+ * @param {string} key - The cache key.
+ * @param {number} ttlMs - How long an entry counts as fresh.
+ * @param {() => Promise<T>} fetcher - Fetches the value from the network.
+ * @param {(result: CachedData<T>) => void} [onRevalidated] - Callback for values refreshed in the background.
+ * @throws {Error} The fetcher's error if nothing is cached and the request fails.
+ * @returns {Promise<CachedData<T>>} A promise that resolves to the value and its freshness.
+ */
+export const staleWhileRevalidate = async <T>(
+  key: string,
+  ttlMs: number,
+  fetcher: () => Promise<T>,
+  onRevalidated?: (result: CachedData<T>) => void
+): Promise<CachedData<T>> => {
+  const entry = await readCache<T>(key);
+  if (entry) {
+    const freshness = getEntryFreshness(entry, ttlMs);
+    if (freshness.isStale) {
+      revalidate(key, fetcher)
+        .then(data => onRevalidated?.({ data, freshness: { source: 'live', fetchedAt: Date.now(), isStale: false } }))
+        .catch((error: any) => console.warn(`Background refresh of "${key}" failed. Serving cached data. Reason: ${error.message}`));
+    }
+    return { data: entry.data, freshness };
+  }
+  const data = await revalidate(key, fetcher);
+  return { data, freshness: { source: 'live', fetchedAt: Date.now(), isStale: false } };
+};
@@ -0,0 +1,93 @@
+/**
+ * @file This module reads the branch tree of a chat session. A session stores every message it has ever
+ * had, each pointing to the message it answers or follows (`Message.parentId`); regenerating a response or
+ * editing a past message adds a sibling, forking the conversation. It provides:
+ * 1.  **Active Branch:** The path from the first message to the one the session shows (`Session.activeMessageId`).
+ * 2.  **Siblings:** The alternatives to each message on that path, for switching between branches.
+ * Messages saved before branching existed have no `parentId` and follow the message stored before them.
+ */
+
+import type { Message, Session } from '../types';
+
+/**
+ * Where a message sits among its alternatives.
+ */
+export interface MessageBranchInfo {
+  /** The IDs of the message and its siblings, oldest first. */
+  siblingIds: string[];
+  /** The message's position among them. */
+  index: number;
+}
+
+/**
+ * Maps each message to the ID of its parent.
+ * @param {Message[]} messages - The session's messages, in the order they were stored.
+ * @returns {Map<string, string | null>} Each message's parent ID, or null for the first message of a branch.
+ */
+const getParentIds = (messages: Message[]): Map<string, string | null> =>
+  new Map(messages.map((message, i) => [
+    message.id,
+    message.parentId !== undefined ? message.parentId : (i > 0 ? messages[i - 1].id : null),
+  ]));
+
+/**
+ * Lists the children of a message, oldest first.
+ * @param {Message[]} messages - The session's messages.
+ * @param {Map<string, string | null>} parentIds - Each message's parent ID.
+ * @param {string | null} parentId - The parent's ID, or null for the first messages of the session.
+ * @returns {Message[]} The children.
+ */
+const getChildren = (messages: Message[], parentIds: Map<string, string | null>, parentId: string | null): Message[] =>
+  messages.filter(message => parentIds.get(message.id) === parentId);
+
+/**
+ * Gets the messages of the branch a session shows, from the first message to the active one.
+ * @param {Session} session - The session.
+ * @returns {Message[]} The messages, oldest first.
+ */
+export const getActivePath = (session: Session): Message[] => {
+  const { messages } = session;
+  if (messages.length === 0) return [];
+  const parentIds = getParentIds(messages);
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: Message[] = [];
+  let current: Message | undefined = byId.get(session.activeMessageId ?? '') ?? messages[messages.length - 1];
+  while (current) {
+    path.unshift(current);
+    const parentId = parentIds.get(current.id);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Describes the alternatives to each message of the active branch that has any.
+ * @param {Session} session - The session.
+ * @returns {Record<string, MessageBranchInfo>} The branch info, keyed by message ID.
+ */
+export const getBranchInfo = (session: Session): Record<string, MessageBranchInfo> => {
+  const parentIds = getParentIds(session.messages);
+  const info: Record<string, MessageBranchInfo> = {};
+  for (const message of getActivePath(session)) {
+    const siblingIds = getChildren(session.messages, parentIds, parentIds.get(message.id) ?? null).map(sibling => sibling.id);
+    if (siblingIds.length > 1) info[message.id] = { siblingIds, index: siblingIds.indexOf(message.id) };
+  }
+  return info;
+};
+
+/**
+ * Finds the message to show when switching to a branch: the end of its most recent continuation.
+ * @param {Message[]} messages - The session's messages.
+ * @param {string} messageId - The ID of the message the branch starts with.
+ * @returns {string} The ID of the branch's latest message.
+ */
+export const getLatestDescendantId = (messages: Message[], messageId: string): string => {
+  const parentIds = getParentIds(messages);
+  let currentId = messageId;
+  let children = getChildren(messages, parentIds, currentId);
+  while (children.length > 0) {
+    currentId = children[children.length - 1].id;
+    children = getChildren(messages, parentIds, currentId);
+  }
+  return currentId;
+};
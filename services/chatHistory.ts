@@ -0,0 +1,128 @@
+/**
+ * @file This module rebuilds a model's chat context from a session's stored messages, so a conversation
+ * continues where it left off after a reload or a switch of model. It provides:
+ * 1.  **Token Estimates:** A cheap, tokenizer-free estimate of how many tokens a text uses.
+ * 2.  **Truncation:** The most recent turns that fit the provider's history budget are kept verbatim,
+ *     and overly long messages (e.g., pasted reports) are shortened.
+ * 3.  **Summarisation:** Older turns that no longer fit are condensed into a short digest of what the
+ *     user asked, which is added to the system instruction.
+ */
+
+import type { Message } from '../types';
+import type { ChatHistoryTurn } from './llmProviders';
+
+/** The average number of characters per token for English text and JSON, used for estimates. */
+const CHARS_PER_TOKEN = 4;
+/** The share of the budget a single message may use before it is shortened. */
+const MAX_MESSAGE_SHARE = 0.4;
+/** The share of the budget the digest of older turns may use. */
+const SUMMARY_SHARE = 0.1;
+/** The longest excerpt of an older question quoted in the digest, in characters. */
+const SUMMARY_QUESTION_LENGTH = 120;
+
+/**
+ * The context to start a chat with.
+ */
+export interface ChatContext {
+  /** The turns to replay, oldest first. */
+  history: ChatHistoryTurn[];
+  /** A digest of the turns that did not fit, or null if every turn was kept. */
+  summary: string | null;
+}
+
+/**
+ * Estimates the number of tokens a text uses.
+ * @param {string} text - The text.
+ * @returns {number} The estimated token count.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Shortens a text to roughly a number of tokens, keeping its beginning.
+ * @param {string} text - The text.
+ * @param {number} maxTokens - The most tokens to keep.
+ * @returns {string} The text, marked as truncated if it was shortened.
+ */
+const truncateToTokens = (text: string, maxTokens: number): string =>
+  estimateTokens(text) <= maxTokens ? text : `${text.slice(0, maxTokens * CHARS_PER_TOKEN).trimEnd()}… [truncated]`;
+
+/**
+ * Converts stored messages into chat turns, leaving out error notices and merging consecutive turns
+ * from the same side (e.g., a question whose answer failed, followed by the retry).
+ * @param {Message[]} messages - The session's messages, oldest first.
+ * @returns {ChatHistoryTurn[]} The turns, alternating between the user and the model.
+ */
+const toTurns = (messages: Message[]): ChatHistoryTurn[] =>
+  messages.reduce<ChatHistoryTurn[]>((turns, message) => {
+    const text = message.text.trim();
+    if (message.isError || !text) return turns;
+    const role = message.sender === 'user' ? 'user' : 'model';
+    const previous = turns[turns.length - 1];
+    if (previous?.role === role) {
+      turns[turns.length - 1] = { role, text: `${previous.text}\n\n${text}` };
+    } else {
+      turns.push({ role, text });
+    }
+    return turns;
+  }, []);
+
+/**
+ * Writes a digest of turns that no longer fit the context: a list of the questions the user asked,
+ * most recent last, trimmed to the digest's share of the budget.
+ * @param {ChatHistoryTurn[]} omitted - The omitted turns, oldest first.
+ * @param {number} maxTokens - The most tokens the digest may use.
+ * @returns {string | null} The digest, or null if no questions were omitted.
+ */
+const summariseTurns = (omitted: ChatHistoryTurn[], maxTokens: number): string | null => {
+  const questions = omitted
+    .filter(turn => turn.role === 'user')
+    .map(turn => turn.text.replace(/\s+/g, ' '))
+    .map(text => `- ${text.length > SUMMARY_QUESTION_LENGTH ? `${text.slice(0, SUMMARY_QUESTION_LENGTH).trimEnd()}…` : text}`);
+  if (questions.length === 0) return null;
+
+  const header = `Earlier in this conversation (${omitted.length} older turns are no longer shown to you), the user asked about:`;
+  const kept: string[] = [];
+  let tokens = estimateTokens(header);
+  // Keep the most recent questions that fit, since they are the likeliest to be referred back to.
+  for (let i = questions.length - 1; i >= 0; i--) {
+    tokens += estimateTokens(questions[i]) + 1;
+    if (tokens > maxTokens) break;
+    kept.unshift(questions[i]);
+  }
+  const skipped = questions.length - kept.length;
+  return [header, ...(skipped > 0 ? [`- …and ${skipped} earlier question${skipped === 1 ? '' : 's'}`] : []), ...kept].join('\n');
+};
+
+/**
+ * Builds the context for a chat from a session's stored messages. The most recent turns are kept
+ * verbatim while they fit the token budget; older ones are summarised. The kept turns always start
+ * with a user turn, as the model APIs expect.
+ * @param {Message[]} messages - The session's messages, oldest first.
+ * @param {number} tokenBudget - The most tokens the replayed history may use.
+ * @returns {ChatContext} The turns to replay and the digest of the rest.
+ */
+export const buildChatContext = (messages: Message[], tokenBudget: number): ChatContext => {
+  const maxMessageTokens = Math.floor(tokenBudget * MAX_MESSAGE_SHARE);
+  const turns = toTurns(messages).map(turn => ({ ...turn, text: truncateToTokens(turn.text, maxMessageTokens) }));
+
+  let start = turns.length;
+  let tokens = 0;
+  while (start > 0 && tokens + estimateTokens(turns[start - 1].text) <= tokenBudget) {
+    tokens += estimateTokens(turns[start - 1].text);
+    start--;
+  }
+  if (turns[start]?.role === 'model') start++;
+
+  return {
+    history: turns.slice(start),
+    summary: start > 0 ? summariseTurns(turns.slice(0, start), Math.floor(tokenBudget * SUMMARY_SHARE)) : null,
+  };
+};
+
+/**
+ * Estimates the tokens a session's messages would use if replayed in full.
+ * @param {Message[]} messages - The session's messages.
+ * @returns {number} The estimated token count.
+ */
+export const estimateMessagesTokens = (messages: Message[]): number =>
+  messages.reduce((total, message) => total + (message.isError ? 0 : estimateTokens(message.text)), 0);
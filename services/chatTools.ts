@@ -0,0 +1,268 @@
+/**
+ * @file This module defines the tools the AI analyst can call to query live market data, and executes
+ * those calls in the browser. It provides:
+ * 1.  **Declarations:** Gemini function declarations for the current price, price history, OHLC candles,
+ *     technical indicators and the latest news.
+ * 2.  **Execution:** `executeChatTool` runs a call against `coingeckoService`, `indicators` and `newsService`,
+ *     resolving free-form coin names to IDs and condensing long series so results stay small enough for the model.
+ *     Every result states where its data came from, so simulated or stale figures are never passed off as live.
+ */
+
+import { Type } from '@google/genai';
+import type { FunctionDeclaration } from '@google/genai';
+import type { DataFreshness, PriceDataPoint, Timeframe } from '../types';
+import { fetchCoinsData, fetchCoinHistory, fetchCoinOhlc, getQuoteCurrency, resolveCoin } from './coingeckoService';
+import { fetchLatestNews, isMockNews } from './newsService';
+import { INDICATOR_PARAMS, sma, ema, bollingerBands, rsi, macd } from './indicators';
+
+/** The names of the tools the analyst can call. */
+export type ChatToolName = 'get_current_price' | 'get_price_history' | 'get_ohlc' | 'get_indicators' | 'get_latest_news';
+
+/** The timeframes the model can ask for, matching the chart timeframes. */
+const TIMEFRAMES: Timeframe[] = ['1H', '1D', '1W', '1M', '3M', '1Y', 'YTD', 'ALL'];
+/** The most samples of a price series returned to the model. */
+const MAX_HISTORY_POINTS = 60;
+/** The most candles returned to the model. */
+const MAX_CANDLES = 30;
+/** The most news articles returned to the model. */
+const MAX_NEWS_ARTICLES = 10;
+/** The longest article summary returned to the model, in characters. */
+const MAX_NEWS_BODY_LENGTH = 300;
+
+const coinParameter = { type: Type.STRING, description: "The coin's name, ticker or CoinGecko ID, e.g. 'bitcoin', 'ETH' or 'Solana'." };
+const timeframeParameter = {
+  type: Type.STRING,
+  enum: TIMEFRAMES,
+  description: "The period to cover; defaults to '1M'.",
+};
+
+/** The function declarations offered to the model. */
+export const CHAT_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'get_current_price',
+    description: 'Gets the current price and 24-hour change of a coin in the selected quote currency.',
+    parameters: { type: Type.OBJECT, properties: { coin: coinParameter }, required: ['coin'] },
+  },
+  {
+    name: 'get_price_history',
+    description: "Gets a coin's price history over a timeframe: the summary (start, end, high, low, change) and evenly spaced samples.",
+    parameters: { type: Type.OBJECT, properties: { coin: coinParameter, timeframe: timeframeParameter }, required: ['coin'] },
+  },
+  {
+    name: 'get_ohlc',
+    description: "Gets a coin's most recent OHLC candles (with volume when available) over a timeframe.",
+    parameters: { type: Type.OBJECT, properties: { coin: coinParameter, timeframe: timeframeParameter }, required: ['coin'] },
+  },
+  {
+    name: 'get_indicators',
+    description: "Computes the latest technical indicators (SMA, EMA, Bollinger Bands, RSI, MACD) from a coin's price history over a timeframe.",
+    parameters: { type: Type.OBJECT, properties: { coin: coinParameter, timeframe: timeframeParameter }, required: ['coin'] },
+  },
+  {
+    name: 'get_latest_news',
+    description: 'Gets the latest crypto news headlines, optionally only those mentioning a coin.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        coin: { ...coinParameter, description: 'Only return articles mentioning this coin (name or ticker). Optional.' },
+        limit: { type: Type.INTEGER, description: `The number of articles to return, up to ${MAX_NEWS_ARTICLES}; defaults to 5.` },
+      },
+    },
+  },
+];
+
+/**
+ * Resolves the coin named in a tool call.
+ * @param {unknown} query - The `coin` argument.
+ * @returns {Promise<{ id: string, symbol: string, name: string }>} A promise that resolves to the coin.
+ * @throws {Error} If the argument is missing or matches no coin.
+ */
+const resolveCoinArgument = async (query: unknown) => {
+  if (typeof query !== 'string' || !query.trim()) throw new Error('A coin is required.');
+  const coin = await resolveCoin(query);
+  if (!coin) throw new Error(`No coin matches '${query}'.`);
+  return coin;
+};
+
+/**
+ * Reads the timeframe argument of a tool call, defaulting to one month.
+ * @param {unknown} value - The `timeframe` argument.
+ * @returns {Timeframe} The timeframe.
+ */
+const parseTimeframe = (value: unknown): Timeframe =>
+  TIMEFRAMES.includes(value as Timeframe) ? (value as Timeframe) : '1M';
+
+/**
+ * Picks evenly spaced samples from a series, always keeping the first and last points.
+ * @param {T[]} values - The series, oldest first.
+ * @param {number} maxCount - The most samples to keep.
+ * @returns {T[]} The samples, oldest first.
+ */
+const downsample = <T>(values: T[], maxCount: number): T[] => {
+  if (values.length <= maxCount) return values;
+  const step = (values.length - 1) / (maxCount - 1);
+  return Array.from({ length: maxCount }, (_, i) => values[Math.round(i * step)]);
+};
+
+/**
+ * Rounds a number to a sensible number of significant digits for the model.
+ * @param {number | null | undefined} value - The value to round.
+ * @returns {number | null} The rounded value, or null if there is none.
+ */
+const round = (value: number | null | undefined): number | null =>
+  value === null || value === undefined || !isFinite(value) ? null : Number(value.toPrecision(6));
+
+/**
+ * Formats a timestamp as an ISO 8601 string for the model.
+ * @param {number} timestamp - The timestamp in milliseconds.
+ * @returns {string} The ISO timestamp.
+ */
+const toIso = (timestamp: number): string => new Date(timestamp).toISOString();
+
+/**
+ * Describes where a result's data came from: 'live', 'cache' or 'mock' (simulated after every source failed),
+ * and whether it is older than it should be.
+ * @param {DataFreshness} [freshness] - The data's freshness; data without one was just updated live.
+ * @returns {object} The `source`, `is_stale` and `fetched_at` fields of the result.
+ */
+const describeFreshness = (freshness?: DataFreshness) => ({
+  source: freshness?.source ?? 'live',
+  is_stale: freshness?.isStale ?? false,
+  fetched_at: freshness?.fetchedAt ? toIso(freshness.fetchedAt) : null,
+});
+
+/**
+ * Summarises a price series: its first and last prices, extremes and overall change.
+ * @param {PriceDataPoint[]} prices - The series, oldest first.
+ * @returns {object} The summary.
+ */
+const summarisePrices = (prices: PriceDataPoint[]) => {
+  const values = prices.map(point => point.price);
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  return {
+    from: toIso(first.timestamp),
+    to: toIso(last.timestamp),
+    start_price: round(first.price),
+    end_price: round(last.price),
+    high: round(Math.max(...values)),
+    low: round(Math.min(...values)),
+    change_pct: round(((last.price - first.price) / first.price) * 100),
+  };
+};
+
+/**
+ * Executes a tool call from the model.
+ * @param {string} name - The name of the tool.
+ * @param {Record<string, unknown>} args - The call's arguments.
+ * @returns {Promise<Record<string, unknown>>} A promise that resolves to the result to send back to the model.
+ * @throws {Error} If the tool is unknown, the arguments are invalid or the data cannot be fetched.
+ */
+export const executeChatTool = async (name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> => {
+  const currency = getQuoteCurrency();
+
+  switch (name as ChatToolName) {
+    case 'get_current_price': {
+      const coin = await resolveCoinArgument(args.coin);
+      const [data] = await fetchCoinsData([coin.id], currency);
+      if (!data) throw new Error(`No price is available for ${coin.name}.`);
+      return {
+        coin_id: data.id,
+        symbol: data.symbol.toUpperCase(),
+        name: data.name,
+        quote_currency: currency,
+        price: round(data.current_price),
+        change_24h_pct: round(data.price_change_percentage_24h),
+        ...describeFreshness(data.freshness),
+      };
+    }
+
+    case 'get_price_history': {
+      const coin = await resolveCoinArgument(args.coin);
+      const timeframe = parseTimeframe(args.timeframe);
+      const { data, freshness } = await fetchCoinHistory(coin.id, timeframe, currency);
+      if (data.length === 0) throw new Error(`No price history is available for ${coin.name}.`);
+      return {
+        coin_id: coin.id,
+        timeframe,
+        quote_currency: currency,
+        ...describeFreshness(freshness),
+        summary: summarisePrices(data),
+        samples: downsample(data, MAX_HISTORY_POINTS).map(point => [toIso(point.timestamp), round(point.price)]),
+      };
+    }
+
+    case 'get_ohlc': {
+      const coin = await resolveCoinArgument(args.coin);
+      const timeframe = parseTimeframe(args.timeframe);
+      const { data, freshness } = await fetchCoinOhlc(coin.id, timeframe, currency);
+      if (data.length === 0) throw new Error(`No candles are available for ${coin.name}.`);
+      return {
+        coin_id: coin.id,
+        timeframe,
+        quote_currency: currency,
+        ...describeFreshness(freshness),
+        candles: data.slice(-MAX_CANDLES).map(candle => ({
+          time: toIso(candle.timestamp),
+          open: round(candle.open),
+          high: round(candle.high),
+          low: round(candle.low),
+          close: round(candle.close),
+          volume: round(candle.volume),
+        })),
+      };
+    }
+
+    case 'get_indicators': {
+      const coin = await resolveCoinArgument(args.coin);
+      const timeframe = parseTimeframe(args.timeframe);
+      const { data, freshness } = await fetchCoinHistory(coin.id, timeframe, currency);
+      if (data.length === 0) throw new Error(`No price history is available for ${coin.name}.`);
+      const closes = data.map(point => point.price);
+      const latest = <T>(values: (T | null)[]): T | null => values[values.length - 1] ?? null;
+      const { fastPeriod, slowPeriod, signalPeriod } = INDICATOR_PARAMS.macd;
+      const bands = latest(bollingerBands(closes, INDICATOR_PARAMS.bollinger.period, INDICATOR_PARAMS.bollinger.stdDevs));
+      const macdPoint = latest(macd(closes, fastPeriod, slowPeriod, signalPeriod));
+      return {
+        coin_id: coin.id,
+        timeframe,
+        quote_currency: currency,
+        ...describeFreshness(freshness),
+        as_of: toIso(data[data.length - 1].timestamp),
+        samples: data.length,
+        price: round(closes[closes.length - 1]),
+        [`sma_${INDICATOR_PARAMS.sma.period}`]: round(latest(sma(closes, INDICATOR_PARAMS.sma.period))),
+        [`ema_${INDICATOR_PARAMS.ema.period}`]: round(latest(ema(closes, INDICATOR_PARAMS.ema.period))),
+        bollinger: bands && { upper: round(bands.upper), middle: round(bands.middle), lower: round(bands.lower) },
+        [`rsi_${INDICATOR_PARAMS.rsi.period}`]: round(latest(rsi(closes, INDICATOR_PARAMS.rsi.period))),
+        macd: macdPoint && { macd: round(macdPoint.macd), signal: round(macdPoint.signal), histogram: round(macdPoint.histogram) },
+      };
+    }
+
+    case 'get_latest_news': {
+      const limit = Math.min(Math.max(Number(args.limit) || 5, 1), MAX_NEWS_ARTICLES);
+      const coin = args.coin ? await resolveCoinArgument(args.coin) : null;
+      const keywords = coin ? [coin.name.toLowerCase(), coin.symbol.toLowerCase()] : [];
+      const news = await fetchLatestNews();
+      const articles = news.filter(article => {
+        if (keywords.length === 0) return true;
+        const text = `${article.title} ${article.body}`.toLowerCase();
+        return keywords.some(keyword => new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text));
+      });
+      return {
+        coin_id: coin?.id ?? null,
+        ...describeFreshness(isMockNews(news) ? { source: 'mock', fetchedAt: null, isStale: false } : undefined),
+        articles: articles.slice(0, limit).map(article => ({
+          title: article.title,
+          source: article.source,
+          published: toIso(article.published_on * 1000),
+          url: article.url,
+          summary: article.body.length > MAX_NEWS_BODY_LENGTH ? `${article.body.slice(0, MAX_NEWS_BODY_LENGTH)}…` : article.body,
+        })),
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool '${name}'.`);
+  }
+};
@@ -1,71 +1,208 @@
 /**
- * @file This service handles all interactions with the CoinGecko API.
- * It is responsible for fetching cryptocurrency market data and historical chart data.
+ * @file This service handles all market data for the app.
+ * It is responsible for fetching cryptocurrency market data, historical chart data and OHLC candles.
  *
- * To ensure reliability and bypass potential CORS issues, this service implements
- * a robust fetching mechanism with several key features:
- * 1.  **Proxy Rotation:** It cycles through a list of public CORS proxies to make requests.
- * 2.  **Proxy Blacklisting:** Proxies that consistently fail are temporarily put on a cooldown.
- * 3.  **Circuit Breaker:** If multiple consecutive requests fail across all proxies,
+ * To ensure reliability and bypass potential CORS issues, this service builds on
+ * the pluggable providers in `marketDataProviders` (CoinGecko, CoinCap and Binance) and adds:
+ * 1.  **Provider Failover:** Providers are tried in order of priority and health, so a rate-limited
+ *     CoinGecko fails over to CoinCap or Binance before any mock data is used.
+ * 2.  **Circuit Breaker:** Each provider has its own breaker. If all of them are open,
  *     the service enters a "suspended" state for a set duration to avoid spamming the APIs.
- * 4.  **Polling:** It provides a subscription-based polling mechanism for real-time price updates.
- * 5.  **Mock Fallback:** If all data sources fail, it returns mock data to ensure the UI remains functional.
- */
-
-import type { CoinData, PriceDataPoint, Timeframe } from '../types';
-import { MOCK_PRICE_HISTORY } from '../constants';
-
-const COINGECKO_API_BASE_URL = 'https://api.coingecko.com/api/v3';
-
-/** A list of CORS proxy services to use for API requests. */
-const PROXIES = [
-  { name: 'AllOrigins', buildUrl: (target: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(target)}` },
-  { name: 'ThingProxy', buildUrl: (target: string) => `https://thingproxy.freeboard.io/fetch/${target}` },
-  { name: 'CORSProxy.io', buildUrl: (target: string) => `https://corsproxy.io/?${encodeURIComponent(target)}` },
-];
-let lastWorkingProxyIndex = 0;
-
-/** A map to temporarily blacklist failing proxies. */
-const proxyBlacklist = new Map<string, number>();
-const PROXY_BLACKLIST_DURATION_MS = 60 * 1000; // 1 minute
-
-// --- Circuit Breaker State ---
-const FAILURE_THRESHOLD = 3;
-const CIRCUIT_TRIP_DURATION_MS = 2 * 60 * 1000; // 2 minutes
-let failureCount = 0;
-let circuitTrippedUntil = 0;
-
-/** Mock data used as a fallback when the API is unreachable. */
-const MOCK_COIN_DATA: CoinData[] = [
-  {
-    id: 'bitcoin',
-    symbol: 'btc',
-    name: 'Bitcoin',
-    image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png?1696501400',
-    current_price: 68123.45,
-    price_change_percentage_24h: 1.25,
-  },
-];
-
-// --- Simplified Connection Status & Polling Logic ---
-export type ConnectionStatus = 'polling' | 'disconnected' | 'suspended';
-interface ConnectionState {
+ * 3.  **Source Reporting:** The provider that last answered is reported in the connection state.
+ * 4.  **Streaming & Polling:** It provides subscription-based real-time price updates, streamed over a
+ *     ticker WebSocket for the coins Binance lists and polled for the rest, degrading to polling
+ *     for every coin when the socket dies.
+ *     Polling is adaptive: coins with active alerts or a focused card are polled faster than the rest,
+ *     polling is throttled while the tab is hidden, and failed polls back off exponentially with jitter.
+ * 5.  **Simulated Fallback:** If all data sources fail, it returns data from the deterministic market simulator
+ *     to ensure the UI remains functional. In simulation mode, the simulator replaces the providers and the
+ *     stream entirely (see `setSimulationMode`).
+ * 6.  **Quote Currency:** Prices are quoted in a global, selectable currency (e.g., EUR or BTC), which is
+ *     used for every market, history, OHLC and polling request and for the stream's trading pairs.
+ * 7.  **Coin Search:** It resolves names, tickers and contract addresses to canonical coin IDs,
+ *     backed by the `/search` endpoint and a locally cached copy of the `/coins/list` catalogue.
+ * 8.  **Request Scheduling:** Requests are coalesced and rate limited per provider, with polls queued behind
+ *     user-initiated loads; the queue depth and remaining budget are exposed via `getRequestMetrics`.
+ * 9.  **Response Cache:** Markets, history and OHLC responses are cached in IndexedDB with per-endpoint
+ *     TTLs and served stale-while-revalidate, so the last real data is shown during outages. Mock data
+ *     is only used when nothing has been cached.
+ * 10. **Coin Details:** It fetches a coin's fundamentals (supplies, valuation, all-time high and low,
+ *     categories, links and description) from the `/coins/{id}` endpoint, cached like the rest.
+ */
+
+import type { ChartPeriod, CoinData, CoinDetails, CoinSearchResult, DataFreshness, OhlcDataPoint, PriceDataPoint, QuoteCurrency, Timeframe } from '../types';
+import { MARKET_DATA_PROVIDERS, BINANCE_QUOTE_ASSETS, assignBinancePairs, fetchBinanceTradingPairs, fetchCoinGecko, toBinancePair, getPeriodKey, resolvePeriodRange } from './marketDataProviders';
+import { DEFAULT_QUOTE_CURRENCY } from './currencyService';
+import { readCache, writeCache, getEntryFreshness, staleWhileRevalidate } from './cacheService';
+import type { CacheEntry, CachedData } from './cacheService';
+import type { RequestPriority, SchedulerMetrics } from './requestScheduler';
+import type { CoinRef, MarketDataProvider } from './marketDataProviders';
+import type { HttpClient } from './httpClient';
+import { createPriceStream } from './priceStream';
+import { simulatorProvider, createSimulatedPriceStream, configureMarketSimulator, getSimulatedMarkets, getSimulatedHistory, getSimulatedOhlc } from './marketSimulator';
+import type { MarketSimulatorConfig } from './marketSimulator';
+import type { PriceStream, PriceStreamConfig } from './priceStream';
+
+/** The currency every request is quoted in unless the caller asks for another one. */
+let quoteCurrency: QuoteCurrency = DEFAULT_QUOTE_CURRENCY;
+
+/** Whether the market simulator replaces the real providers and the price stream. */
+let isSimulationEnabled = false;
+
+// --- Connection Status, Streaming & Polling Logic ---
+export type ConnectionStatus = 'streaming' | 'polling' | 'disconnected' | 'suspended';
+export interface ConnectionState {
   status: ConnectionStatus;
   trippedUntil: number;
+  /** The name of the provider that last answered a market-data request, if any. */
+  provider: string | null;
+  /**
+   * The current polling cadence in milliseconds: the shortest interval of any polled coin, or the
+   * backoff delay after a failed poll. Null while every price is streamed or polling is paused.
+   */
+  pollIntervalMs: number | null;
 }
 type ConnectionListener = (state: ConnectionState) => void;
 type PriceUpdateListener = (newPrice: number) => void;
 
 const connectionListeners: ConnectionListener[] = [];
 const priceUpdateListeners = new Map<string, PriceUpdateListener[]>();
-let pollingInterval: ReturnType<typeof setInterval> | null = null;
 let currentStatus: ConnectionStatus = 'polling';
+let activeProvider: string | null = null;
+
+/** How often a coin is polled, by how closely it is being watched. */
+const POLL_INTERVALS_MS = {
+  /** Coins with an active alert or a focused card, while the tab is visible. */
+  focused: 15 * 1000,
+  /** Every other coin, while the tab is visible. */
+  background: 60 * 1000,
+  /** Coins with an active alert, while the tab is hidden; other coins are not polled then. */
+  hidden: 5 * 60 * 1000,
+};
+/** Coins that fall due within this window of a poll are fetched with it, so polls stay batched. */
+const POLL_BATCH_WINDOW_MS = 5 * 1000;
+/** The backoff after the first failed poll; it doubles with every further failure up to the maximum. */
+const POLL_BACKOFF_BASE_MS = 15 * 1000;
+const POLL_BACKOFF_MAX_MS = 10 * 60 * 1000; // 10 minutes
+
+let isPollingActive = false;
+let isPollInFlight = false;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+/** When each coin's price was last polled successfully. */
+const lastPolledAt = new Map<string, number>();
+let alertCoinIds = new Set<string>();
+let focusedCoinIds = new Set<string>();
+let consecutivePollFailures = 0;
+let backoffUntil = 0;
+let backoffMs = 0;
+let pollIntervalMs: number | null = null;
+let notifiedPollIntervalMs: number | null = null;
+
+/** How long to stay on polling after the stream gave up before trying to stream again. */
+const STREAM_RETRY_DELAY_MS = 2 * 60 * 1000; // 2 minutes
+let isStreamingEnabled = typeof WebSocket !== 'undefined';
+/** The base URL of a local mock stream server (see `npm run price-stream-stub`), if one is configured. */
+const PRICE_STREAM_STUB_URL = process.env.PRICE_STREAM_STUB_URL?.replace(/\/+$/, '');
+let priceStreamOverrides: Partial<PriceStreamConfig> = PRICE_STREAM_STUB_URL ? { url: `${PRICE_STREAM_STUB_URL.replace(/^http/, 'ws')}/stream` } : {};
+/** The exchange info endpoint listing the pairs that can be streamed, if overridden (e.g., by a local mock server). */
+let exchangeInfoUrlOverride: string | undefined = PRICE_STREAM_STUB_URL ? `${PRICE_STREAM_STUB_URL}/api/v3/exchangeInfo` : undefined;
+let priceStream: PriceStream | null = null;
+let streamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+/** Maps coin IDs to their ticker symbols, which the stream uses to identify trading pairs. */
+const coinSymbols = new Map<string, string>();
+/**
+ * Maps each symbol the stream subscribes to to the one coin its ticks belong to. Coins missing from it
+ * (no listed pair, or a ticker another coin already claimed) are polled instead.
+ */
+let streamedCoins = new Map<string, string>();
+
+/** The freshness reported for synthetic fallback data. */
+const MOCK_FRESHNESS: DataFreshness = { source: 'mock', fetchedAt: null, isStale: false };
+
+/**
+ * Returns simulated market data for the requested coins, keeping the names and logos of coins
+ * that were fetched before.
+ * @param {string[]} coinIds - The IDs of the coins that were requested.
+ * @param {QuoteCurrency} currency - The currency to quote prices in.
+ * @returns {CoinData[]} The simulated coin data to fall back to.
+ */
+const getMockCoinData = (coinIds: string[], currency: QuoteCurrency): CoinData[] =>
+    getSimulatedMarkets(toCoinRefs(coinIds), currency).map(coin => {
+        const known = knownCoins.get(coin.id);
+        return { ...coin, ...(known && { symbol: known.symbol, name: known.name, image: known.image }), freshness: MOCK_FRESHNESS };
+    });
+
+// --- Response Cache Keys & TTLs ---
+
+/** How long cached market data counts as fresh. Polling keeps it current while the app is open. */
+const MARKETS_CACHE_TTL_MS = 60 * 1000; // 1 minute
+
+/** How long cached history and OHLC data count as fresh; longer timeframes change more slowly. */
+const CHART_CACHE_TTL_MS: { [key in Timeframe]: number } = {
+  '1H': 60 * 1000,
+  '1D': 5 * 60 * 1000,
+  '1W': 30 * 60 * 1000,
+  '1M': 30 * 60 * 1000,
+  '3M': 60 * 60 * 1000,
+  '1Y': 6 * 60 * 60 * 1000,
+  'YTD': 60 * 60 * 1000,
+  'ALL': 12 * 60 * 60 * 1000,
+};
+/** Custom ranges that ended over a day ago no longer change, so they are cached for longer. */
+const PAST_RANGE_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const RECENT_RANGE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Returns how long cached chart data for a period counts as fresh.
+ * @param {ChartPeriod} period - The period the chart covers.
+ * @returns {number} The TTL in milliseconds.
+ */
+const getChartCacheTtl = (period: ChartPeriod): number => {
+    if (typeof period === 'string') return CHART_CACHE_TTL_MS[period];
+    return resolvePeriodRange(period).to < Date.now() - 24 * 60 * 60 * 1000 ? PAST_RANGE_CACHE_TTL_MS : RECENT_RANGE_CACHE_TTL_MS;
+};
+
+const getMarketsCacheKey = (currency: QuoteCurrency, coinId: string) => `markets:${currency}:${coinId}`;
+const getChartCacheKey = (kind: 'history' | 'ohlc', currency: QuoteCurrency, coinId: string, period: ChartPeriod) =>
+    `${kind}:${currency}:${coinId}:${getPeriodKey(period)}`;
+
+/**
+ * Returns true if every provider's circuit breaker is open, i.e. no source can currently be queried.
+ * @returns {boolean} Whether market data is suspended.
+ */
+const isMarketDataSuspended = (): boolean =>
+    !isSimulationEnabled && MARKET_DATA_PROVIDERS.every(provider => provider.client.isCircuitOpen());
+
+/**
+ * Returns the time at which the first provider's circuit breaker closes again (0 if none is open).
+ * @returns {number} The earliest timestamp at which a provider becomes available again.
+ */
+const getTrippedUntil = (): number => {
+    const openUntil = MARKET_DATA_PROVIDERS
+        .map(provider => provider.client.getCircuitState().trippedUntil)
+        .filter(trippedUntil => trippedUntil > Date.now());
+    return openUntil.length > 0 ? Math.min(...openUntil) : 0;
+};
 
-/** Notifies all connection status listeners of a state change. */
-const notifyConnectionListeners = (status: ConnectionStatus) => {
-  if (currentStatus !== status || status === 'suspended') {
+/** Builds a snapshot of the current connection state. */
+const getConnectionState = (): ConnectionState => ({
+    status: currentStatus,
+    trippedUntil: getTrippedUntil(),
+    provider: activeProvider,
+    pollIntervalMs,
+});
+
+/**
+ * Notifies all connection status listeners of a state change.
+ * @param {ConnectionStatus} status - The new connection status.
+ * @param {string | null} [provider] - The provider now serving data; unchanged if omitted.
+ */
+const notifyConnectionListeners = (status: ConnectionStatus, provider: string | null = activeProvider) => {
+  if (currentStatus !== status || activeProvider !== provider || notifiedPollIntervalMs !== pollIntervalMs || status === 'suspended') {
     currentStatus = status;
-    const state: ConnectionState = { status, trippedUntil: circuitTrippedUntil };
+    activeProvider = provider;
+    notifiedPollIntervalMs = pollIntervalMs;
+    const state = getConnectionState();
     connectionListeners.forEach(listener => listener(state));
   }
 };
@@ -78,150 +215,401 @@ const notifyPriceUpdateListeners = (coinId: string, newPrice: number) => {
 };
 
 /**
- * A robust fetch implementation that incorporates proxy rotation, retries, and a circuit breaker.
- * @param {string} endpoint - The CoinGecko API endpoint to fetch (e.g., '/coins/markets').
- * @param {number} [retriesPerProxy=2] - The number of retry attempts for each proxy.
- * @throws {Error} If the circuit breaker is open or all proxies fail.
- * @returns {Promise<any>} A promise that resolves with the JSON data from the API.
+ * Records the ticker symbols of the given coins so they can be streamed, then resyncs the stream.
+ * @param {CoinData[]} coins - Coins returned by the markets endpoint.
  */
-const fetchWithRetry = async (
-  endpoint: string,
-  retriesPerProxy = 2
-): Promise<any> => {
-    if (Date.now() < circuitTrippedUntil) {
-        const timeLeft = Math.ceil((circuitTrippedUntil - Date.now()) / 1000);
-        throw new Error(`Circuit breaker is open. Retrying in ${timeLeft}s.`);
-    }
+const rememberCoinSymbols = (coins: CoinData[]) => {
+    coins.forEach(coin => coinSymbols.set(coin.id, coin.symbol.toLowerCase()));
+    syncPriceStream();
+};
+
+/**
+ * Forwards a streamed tick to the coin its symbol is streamed for.
+ * @param {string} symbol - The lowercase ticker symbol (e.g., 'btc').
+ * @param {number} price - The latest traded price.
+ */
+const handleStreamTick = (symbol: string, price: number) => {
+    const coinId = streamedCoins.get(symbol);
+    if (coinId) notifyPriceUpdateListeners(coinId, price);
+};
 
-  const targetUrl = `${COINGECKO_API_BASE_URL}${endpoint}`;
-  let lastError: Error | null = null;
+/**
+ * Returns true if a coin's price currently arrives over the open stream, so it need not be polled.
+ * @param {string} coinId - The ID of the coin.
+ * @returns {boolean} Whether the coin is streamed.
+ */
+const isCoinStreamed = (coinId: string): boolean =>
+    !!priceStream?.isOpen() && Array.from(streamedCoins.values()).includes(coinId);
 
-  try {
-    const availableProxies = PROXIES
-        .map((p, i) => ({...p, originalIndex: i}))
-        .sort((a, b) => a.originalIndex === lastWorkingProxyIndex ? -1 : 1) // Prioritize last working proxy
-        .filter(proxy => {
-            const blacklistedUntil = proxyBlacklist.get(proxy.name);
-            if (blacklistedUntil && Date.now() < blacklistedUntil) {
-                console.log(`[CoinGecko] Proxy ${proxy.name} is on cooldown. Skipping.`);
-                return false;
-            }
-            return true;
+/** Closes the price stream, if one is open, and resumes polling for the coins it covered. */
+const closePriceStream = () => {
+    streamedCoins = new Map();
+    if (priceStream) {
+        priceStream.close();
+        priceStream = null;
+        console.log("Closed price stream.");
+        scheduleNextPoll();
+    }
+};
+
+/**
+ * Opens, updates or closes the price stream so it covers every subscribed coin that Binance lists
+ * a pair for. Only pairs in Binance's exchange info are subscribed, and each pair is attributed to
+ * one coin; coins the stream does not cover keep being polled. While the socket reconnects, its coins are
+ * polled too; when the stream dies, polling resumes for every coin and a new stream is attempted after
+ * `STREAM_RETRY_DELAY_MS`. Currencies without a
+ * Binance market are never streamed.
+ */
+const syncPriceStream = () => {
+    if (isSimulationEnabled) {
+        syncSimulatedPriceStream();
+        return;
+    }
+    if (!isStreamingEnabled || streamRetryTimer) return;
+    const currency = quoteCurrency;
+    const quoteAsset = BINANCE_QUOTE_ASSETS[currency];
+    if (!quoteAsset || priceUpdateListeners.size === 0) {
+        closePriceStream();
+        return;
+    }
+    const coins = toCoinRefs(Array.from(priceUpdateListeners.keys()));
+    const candidates = coins.filter(coin => coin.symbol).map(coin => toBinancePair(coin, currency));
+    fetchBinanceTradingPairs(candidates, 'background', exchangeInfoUrlOverride)
+        .then(listedPairs => {
+            // The settings may have changed while the pairs loaded; the subscriptions are read afresh below.
+            if (currency !== quoteCurrency || isSimulationEnabled || !isStreamingEnabled || streamRetryTimer) return;
+            const pairs = assignBinancePairs(toCoinRefs(Array.from(priceUpdateListeners.keys())), currency, listedPairs);
+            updatePriceStream(new Map(Array.from(pairs.values()).map(coin => [coin.symbol!, coin.id])), quoteAsset);
+        })
+        .catch((error: any) => {
+            console.warn(`Could not load Binance's trading pairs. Prices are polled instead of streamed. Reason: ${error.message}`);
         });
+};
 
-    if (availableProxies.length === 0) {
-        throw new Error("All proxies are on cooldown. Please wait a moment before retrying.");
+/**
+ * Points the price stream at the given coins, opening it if needed or closing it if there are none.
+ * @param {Map<string, string>} coins - The coin ID to stream for each lowercase symbol.
+ * @param {string} quoteAsset - The Binance quote asset of the pairs (e.g., 'USDT').
+ */
+const updatePriceStream = (coins: Map<string, string>, quoteAsset: string) => {
+    if (coins.size === 0) {
+        closePriceStream();
+        return;
     }
+    streamedCoins = coins;
+    const symbols = Array.from(coins.keys());
+    if (priceStream) {
+        priceStream.setSymbols(symbols);
+        // Coins that just left the stream are polled again.
+        scheduleNextPoll();
+        return;
+    }
+    console.log("Opening price stream...");
+    priceStream = createPriceStream(symbols, {
+        onTick: handleStreamTick,
+        onOpen: () => {
+            startPolling();
+            notifyConnectionListeners('streaming', 'Binance Stream');
+        },
+        onDisconnect: (reason) => {
+            // The streamed coins are polled while the socket reconnects.
+            console.warn(`Price stream disconnected (${reason}). Polling until it reconnects.`);
+            notifyConnectionListeners('polling');
+            startPolling();
+        },
+        onDown: (reason) => {
+            console.warn(`Price stream is down (${reason}). Falling back to polling.`);
+            closePriceStream();
+            if (priceUpdateListeners.size === 0) return;
+            notifyConnectionListeners('polling');
+            startPolling();
+            streamRetryTimer = setTimeout(() => {
+                streamRetryTimer = null;
+                syncPriceStream();
+            }, STREAM_RETRY_DELAY_MS);
+        },
+    }, { quoteAsset: quoteAsset.toLowerCase(), ...priceStreamOverrides });
+};
 
-    for (const proxy of availableProxies) {
-        const proxyUrl = proxy.buildUrl(targetUrl);
-        let proxyFailedCompletely = true;
-        
-        for (let j = 0; j < retriesPerProxy; j++) {
-        try {
-            const response = await fetch(proxyUrl);
-            if (!response.ok) {
-            lastError = new Error(`Proxy ${proxy.name} returned status: ${response.status}`);
-            if ([401, 403, 404, 429].includes(response.status)) {
-                console.warn(`[CoinGecko] Proxy ${proxy.name} failed with non-retriable status ${response.status}. Trying next proxy.`);
-                break; 
-            }
-            throw lastError;
-            }
-            
-            let data = await response.json();
-            if (data && typeof data === 'object' && 'contents' in data) {
-                try { data = JSON.parse(data.contents); } catch (e) { data = data.contents; }
-            }
-            if (data && data.status && data.status.error_message) {
-                lastError = new Error(`CoinGecko API Error: ${data.status.error_message}`);
-                console.warn(`API error from proxy ${proxy.name}: ${data.status.error_message}`);
-                if (data.status.error_code === 429) { break; }
-                throw lastError;
-            }
-            
-            lastWorkingProxyIndex = proxy.originalIndex;
-            proxyBlacklist.delete(proxy.name);
-            proxyFailedCompletely = false;
-            failureCount = 0;
-            circuitTrippedUntil = 0;
-            return data;
+/**
+ * Opens, updates or closes the simulated tick stream so it covers every subscribed coin with a known symbol,
+ * each symbol ticking for the first coin that uses it. It never goes down, so the coins it covers are not
+ * polled for as long as simulation mode is on.
+ */
+const syncSimulatedPriceStream = () => {
+    const coinRefs = toCoinRefs(Array.from(priceUpdateListeners.keys()));
+    const coins = new Map<string, string>();
+    coinRefs.forEach(coin => {
+        if (coin.symbol && !coins.has(coin.symbol)) coins.set(coin.symbol, coin.id);
+    });
+    if (coins.size === 0) {
+        closePriceStream();
+        return;
+    }
+    const isUnchanged = !!priceStream && JSON.stringify(Array.from(coins)) === JSON.stringify(Array.from(streamedCoins));
+    if (isUnchanged) return;
+    // The simulated stream is given the coins themselves, so it is recreated (which is cheap) when they change.
+    priceStream?.close();
+    streamedCoins = coins;
+    priceStream = createSimulatedPriceStream(coinRefs, {
+        onTick: handleStreamTick,
+        onOpen: () => {
+            startPolling();
+            notifyConnectionListeners('streaming', simulatorProvider.name);
+        },
+        onDisconnect: () => {},
+        onDown: () => {},
+    }, quoteCurrency);
+    // Coins that just left the stream are polled again.
+    scheduleNextPoll();
+};
+
+/**
+ * Configures the streaming transport, e.g. to point it at a local mock WebSocket server
+ * (see `scripts/price-stream-stub-server.mjs`) or to disable streaming entirely. Any open stream
+ * is reopened with the new settings. An explicit `quoteAsset` takes precedence over the one derived
+ * from the quote currency; `exchangeInfoUrl` replaces Binance's list of the pairs that can be streamed.
+ * @param {Partial<PriceStreamConfig> & { enabled?: boolean, exchangeInfoUrl?: string }} options - Stream settings to override.
+ */
+export const configurePriceStream = (options: Partial<PriceStreamConfig> & { enabled?: boolean; exchangeInfoUrl?: string }) => {
+    const { enabled, exchangeInfoUrl, ...overrides } = options;
+    if (enabled !== undefined) isStreamingEnabled = enabled;
+    if (exchangeInfoUrl !== undefined) exchangeInfoUrlOverride = exchangeInfoUrl;
+    priceStreamOverrides = { ...priceStreamOverrides, ...overrides };
+    closePriceStream();
+    if (priceUpdateListeners.size > 0) {
+        startPolling();
+        syncPriceStream();
+    }
+};
 
+/** The latest known market data per coin, used to fill in metadata some providers lack. */
+const knownCoins = new Map<string, CoinData>();
+
+/**
+ * Returns the providers in the order they should be tried: healthy providers by priority,
+ * followed by those whose circuit breaker is open (which fail fast). In simulation mode,
+ * only the simulator is used.
+ * @returns {MarketDataProvider[]} The ordered providers.
+ */
+const getProvidersByHealth = (): MarketDataProvider[] =>
+    isSimulationEnabled ? [simulatorProvider] : [...MARKET_DATA_PROVIDERS].sort((a, b) => {
+        const healthDiff = Number(a.client.isCircuitOpen()) - Number(b.client.isCircuitOpen());
+        return healthDiff !== 0 ? healthDiff : a.priority - b.priority;
+    });
+
+/**
+ * Runs a request against each provider in turn until one succeeds.
+ * @param {string} operation - A short description of the request, for logging.
+ * @param {(provider: MarketDataProvider) => Promise<T>} request - The request to run against a provider.
+ * @throws {Error} The last provider's error if every provider failed.
+ * @returns {Promise<{ data: T, provider: MarketDataProvider }>} The result and the provider that answered.
+ */
+const requestWithFailover = async <T>(
+    operation: string,
+    request: (provider: MarketDataProvider) => Promise<T>
+): Promise<{ data: T; provider: MarketDataProvider }> => {
+    let lastError: Error | null = null;
+    for (const provider of getProvidersByHealth()) {
+        try {
+            const data = await request(provider);
+            return { data, provider };
         } catch (error: any) {
             lastError = error;
-            console.warn(`[CoinGecko] Attempt ${j + 1}/${retriesPerProxy} with proxy ${proxy.name} failed:`, error.message);
-            if (j < retriesPerProxy - 1) await new Promise(resolve => setTimeout(resolve, 500 * (j + 1)));
-        }
+            console.warn(`[${provider.name}] ${operation} failed. Trying next provider. Reason: ${error.message}`);
         }
+    }
+    throw lastError || new Error("No market data providers are available.");
+};
 
-        if (proxyFailedCompletely) {
-            console.warn(`[CoinGecko] All retries failed for proxy ${proxy.name}. Placing it on cooldown for ${PROXY_BLACKLIST_DURATION_MS / 1000}s.`);
-            proxyBlacklist.set(proxy.name, Date.now() + PROXY_BLACKLIST_DURATION_MS);
-        }
+/**
+ * Builds provider coin references, attaching ticker symbols where they are known.
+ * @param {string[]} coinIds - The IDs of the coins to reference.
+ * @returns {CoinRef[]} The coin references.
+ */
+const toCoinRefs = (coinIds: string[]): CoinRef[] =>
+    coinIds.map(id => ({ id, symbol: coinSymbols.get(id) }));
+
+/**
+ * Fetches market data for the given coins with provider failover, filling in names and logos
+ * from earlier responses for providers that do not supply them.
+ * @param {string[]} coinIds - The IDs of the coins to fetch.
+ * @param {QuoteCurrency} currency - The currency to quote prices in.
+ * @param {RequestPriority} [priority] - The requests' priority in the providers' queues; defaults to 'user'.
+ * @returns {Promise<{ coins: CoinData[], provider: MarketDataProvider }>} The normalised coins and the provider that answered.
+ */
+const fetchMarketsWithFailover = async (
+    coinIds: string[],
+    currency: QuoteCurrency,
+    priority: RequestPriority = 'user'
+): Promise<{ coins: CoinData[]; provider: MarketDataProvider }> => {
+    const { data, provider } = await requestWithFailover('Markets request', p => p.fetchMarkets(toCoinRefs(coinIds), currency, priority));
+    const coins = data.map(coin => {
+        const known = knownCoins.get(coin.id);
+        const merged: CoinData = known
+            ? { ...known, ...coin, name: known.name, image: coin.image || known.image }
+            : coin;
+        knownCoins.set(coin.id, merged);
+        // Simulated prices must never be served as the last real data.
+        if (!isSimulationEnabled) writeCache(getMarketsCacheKey(currency, coin.id), merged);
+        return merged;
+    });
+    rememberCoinSymbols(coins);
+    return { coins, provider };
+};
+
+/**
+ * Returns true if the page is in a background tab or minimised window.
+ * @returns {boolean} Whether the document is hidden.
+ */
+const isDocumentHidden = (): boolean => typeof document !== 'undefined' && document.hidden;
+
+/**
+ * Returns how often a coin should be polled under the current conditions. Streamed coins are not polled.
+ * @param {string} coinId - The ID of the coin.
+ * @returns {number | null} The interval in milliseconds, or null if the coin should not be polled right now.
+ */
+const getCoinPollInterval = (coinId: string): number | null => {
+    if (isCoinStreamed(coinId)) return null;
+    if (isDocumentHidden()) return alertCoinIds.has(coinId) ? POLL_INTERVALS_MS.hidden : null;
+    return alertCoinIds.has(coinId) || focusedCoinIds.has(coinId) ? POLL_INTERVALS_MS.focused : POLL_INTERVALS_MS.background;
+};
+
+/**
+ * Returns when a coin is next due to be polled.
+ * @param {string} coinId - The ID of the coin.
+ * @returns {number} The timestamp in milliseconds, or Infinity if the coin should not be polled right now.
+ */
+const getCoinDueAt = (coinId: string): number => {
+    const interval = getCoinPollInterval(coinId);
+    return interval === null ? Infinity : (lastPolledAt.get(coinId) ?? 0) + interval;
+};
+
+/**
+ * Updates the reported polling cadence, notifying listeners if it changed.
+ * @param {number | null} intervalMs - The new cadence, or null if nothing is being polled.
+ */
+const setPollInterval = (intervalMs: number | null) => {
+    pollIntervalMs = intervalMs;
+    notifyConnectionListeners(currentStatus);
+};
+
+/**
+ * Schedules the next poll for when the first coin falls due, deferring it while a failed poll backs off
+ * or every provider's breaker is open. Polling pauses entirely when no coin should be polled.
+ */
+const scheduleNextPoll = () => {
+    if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = null;
     }
+    if (!isPollingActive || isPollInFlight) return;
 
-    throw lastError || new Error("All data sources are currently unavailable.");
-  } catch(error: any) {
-      failureCount++;
-      if (failureCount >= FAILURE_THRESHOLD) {
-          circuitTrippedUntil = Date.now() + CIRCUIT_TRIP_DURATION_MS;
-          failureCount = 0;
-          console.error(`Circuit breaker tripped for ${CIRCUIT_TRIP_DURATION_MS / 1000}s due to repeated failures.`);
-      }
-      throw error;
-  }
+    const coinIds = Array.from(priceUpdateListeners.keys());
+    const intervals = coinIds.map(getCoinPollInterval).filter((interval): interval is number => interval !== null);
+    if (intervals.length === 0) {
+        setPollInterval(null);
+        return;
+    }
+    const now = Date.now();
+    const nextPollAt = Math.max(
+        Math.min(...coinIds.map(getCoinDueAt)),
+        backoffUntil,
+        isMarketDataSuspended() ? getTrippedUntil() : 0
+    );
+    setPollInterval(backoffUntil > now ? backoffMs : Math.min(...intervals));
+    pollTimer = setTimeout(pollForPriceUpdates, Math.max(0, nextPollAt - now));
+};
+
+/**
+ * Backs off after a failed poll: the delay doubles with every consecutive failure, and is jittered
+ * so that many clients recovering from the same outage do not retry in lockstep.
+ */
+const backOffPolling = () => {
+    consecutivePollFailures++;
+    const delay = Math.min(POLL_BACKOFF_MAX_MS, POLL_BACKOFF_BASE_MS * 2 ** (consecutivePollFailures - 1));
+    backoffMs = Math.round(delay / 2 + Math.random() * delay / 2);
+    backoffUntil = Date.now() + backoffMs;
 };
 
-/** The core polling function that fetches price updates periodically. */
+/** Polls the price of every coin that is due (or nearly due) in one batched request, then schedules the next poll. */
 const pollForPriceUpdates = async () => {
-    const coinIds = Array.from(priceUpdateListeners.keys());
+    pollTimer = null;
+    const dueBy = Date.now() + POLL_BATCH_WINDOW_MS;
+    const coinIds = Array.from(priceUpdateListeners.keys()).filter(coinId => getCoinDueAt(coinId) <= dueBy);
     if (coinIds.length === 0) {
-        stopPolling();
+        scheduleNextPoll();
         return;
     }
 
+    isPollInFlight = true;
     try {
-        if (Date.now() < circuitTrippedUntil) {
-            throw new Error('Polling attempt skipped: circuit breaker is open.');
+        if (isMarketDataSuspended()) {
+            throw new Error('Polling attempt skipped: all provider circuit breakers are open.');
         }
-        const ids = coinIds.join(',');
-        const endpoint = `/coins/markets?vs_currency=usd&ids=${ids}&order=market_cap_desc&per_page=10&page=1&sparkline=false`;
-        const data = await fetchWithRetry(endpoint);
-        
-        if (!Array.isArray(data)) { throw new Error("Invalid data format from polling request. Expected an array."); }
-        
-        data.forEach((coin: CoinData) => notifyPriceUpdateListeners(coin.id, coin.current_price));
-        notifyConnectionListeners('polling');
+        const currency = quoteCurrency;
+        // Polls yield to user-initiated requests when the rate-limit budget runs low.
+        const { coins, provider } = await fetchMarketsWithFailover(coinIds, currency, 'background');
+        // Drop prices quoted in a currency the user has since switched away from.
+        if (currency !== quoteCurrency) return;
+
+        const polledAt = Date.now();
+        coinIds.forEach(coinId => lastPolledAt.set(coinId, polledAt));
+        consecutivePollFailures = 0;
+        backoffUntil = 0;
+        coins.forEach(coin => notifyPriceUpdateListeners(coin.id, coin.current_price));
+        if (!priceStream?.isOpen()) notifyConnectionListeners('polling', provider.name);
     } catch (error: any) {
         console.error("Polling for price updates failed:", error.message);
-        if (Date.now() < circuitTrippedUntil) {
+        if (isMarketDataSuspended()) {
+            // The next poll waits for the first breaker to close instead of backing off.
             notifyConnectionListeners('suspended');
-            stopPolling();
-            console.log(`Polling suspended. Will attempt to restart in ${CIRCUIT_TRIP_DURATION_MS / 1000}s.`);
-            setTimeout(startPolling, CIRCUIT_TRIP_DURATION_MS);
+            console.log(`Polling suspended. Will attempt to restart in ${Math.ceil((getTrippedUntil() - Date.now()) / 1000)}s.`);
         } else {
-            notifyConnectionListeners('disconnected');
+            backOffPolling();
+            // Streamed coins are still live, so a failed poll of the others does not disconnect them.
+            if (!priceStream?.isOpen()) notifyConnectionListeners('disconnected');
+            console.log(`Polling backed off. Will retry in ${Math.ceil(backoffMs / 1000)}s.`);
         }
+    } finally {
+        isPollInFlight = false;
+        scheduleNextPoll();
     }
 };
 
-/** Starts the polling interval if it's not already running. */
+/**
+ * Starts adaptive polling for the coins the stream does not cover, or reschedules it (e.g., after the set of
+ * subscribed coins changed). Coins that have not been polled yet are polled immediately.
+ */
 const startPolling = () => {
-    if (pollingInterval) return;
-    console.log("Starting price update polling...");
-    pollForPriceUpdates();
-    pollingInterval = setInterval(pollForPriceUpdates, 60000);
+    if (!isPollingActive) {
+        console.log("Starting price update polling...");
+        isPollingActive = true;
+    }
+    scheduleNextPoll();
 };
 
-/** Stops the polling interval. */
+/** Stops polling and forgets its schedule and backoff, so it starts afresh when restarted. */
 const stopPolling = () => {
-    if (pollingInterval) {
-        clearInterval(pollingInterval);
-        pollingInterval = null;
+    if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = null;
+    }
+    lastPolledAt.clear();
+    consecutivePollFailures = 0;
+    backoffUntil = 0;
+    if (isPollingActive) {
+        isPollingActive = false;
         console.log("Stopped price update polling.");
     }
+    setPollInterval(null);
 };
 
+// Re-plan polling when the tab is hidden or shown: coins missed while hidden are polled as soon as it is visible again.
+if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', scheduleNextPoll);
+}
+
 /**
  * Subscribes a listener function to connection status changes.
  * @param {ConnectionListener} listener - The callback function to execute on status change.
@@ -229,7 +617,7 @@ const stopPolling = () => {
  */
 export const subscribeToConnectionStatus = (listener: ConnectionListener): (() => void) => {
   connectionListeners.push(listener);
-  listener({ status: currentStatus, trippedUntil: circuitTrippedUntil });
+  listener(getConnectionState());
   return () => {
     const index = connectionListeners.indexOf(listener);
     if (index > -1) connectionListeners.splice(index, 1);
@@ -248,7 +636,9 @@ export const subscribeToPriceUpdates = (coinId: string, listener: PriceUpdateLis
     }
     priceUpdateListeners.get(coinId)!.push(listener);
 
+    // Poll the new coin until the stream covers it, which it never does if Binance does not list it.
     startPolling();
+    syncPriceStream();
 
     return () => {
         if (priceUpdateListeners.has(coinId)) {
@@ -257,122 +647,503 @@ export const subscribeToPriceUpdates = (coinId: string, listener: PriceUpdateLis
                 priceUpdateListeners.set(coinId, listeners);
             } else {
                 priceUpdateListeners.delete(coinId);
+                lastPolledAt.delete(coinId);
             }
         }
         if (priceUpdateListeners.size === 0) {
             stopPolling();
+            closePriceStream();
+        } else {
+            scheduleNextPoll();
+            syncPriceStream();
         }
     };
 };
 
 /**
- * Manually triggers a reconnection attempt by resetting the circuit breaker and restarting the poll.
+ * Manually triggers a reconnection attempt by resetting the circuit breakers, restarting the poll
+ * and retrying the price stream immediately.
  */
 export const manualReconnect = () => {
     console.log("Manual refresh triggered. Forcing price update poll.");
     if (priceUpdateListeners.size > 0) {
-      circuitTrippedUntil = 0;
-      failureCount = 0;
+      MARKET_DATA_PROVIDERS.forEach(provider => provider.client.resetCircuit());
       stopPolling();
       startPolling();
+      if (streamRetryTimer) {
+          clearTimeout(streamRetryTimer);
+          streamRetryTimer = null;
+      }
+      syncPriceStream();
     }
 };
 
 /**
- * Stops all active polling connections.
+ * Tells the poller which coins are being watched closely. Coins with an active alert are polled fastest
+ * and keep being polled (throttled) while the tab is hidden; focused coins (e.g., the selected card) are
+ * polled faster than the rest while the tab is visible.
+ * @param {{ alertCoinIds: string[], focusedCoinIds: string[] }} priorities - The coins with alerts and the focused coins.
+ */
+export const setPollingPriorities = (priorities: { alertCoinIds: string[]; focusedCoinIds: string[] }) => {
+    alertCoinIds = new Set(priorities.alertCoinIds);
+    focusedCoinIds = new Set(priorities.focusedCoinIds);
+    scheduleNextPoll();
+};
+
+/**
+ * Returns the request scheduler metrics of every provider (queue depth, in-flight requests and remaining budget).
+ * @returns {({ provider: string } & SchedulerMetrics)[]} One snapshot per provider, in priority order.
+ */
+export const getRequestMetrics = (): ({ provider: string } & SchedulerMetrics)[] =>
+    MARKET_DATA_PROVIDERS.map(provider => ({ provider: provider.name, ...provider.client.getSchedulerMetrics() }));
+
+/**
+ * Returns the transports of the real market-data providers, e.g. for the diagnostics panel.
+ * @returns {HttpClient[]} One client per provider, in priority order.
+ */
+export const getMarketDataClients = (): HttpClient[] => MARKET_DATA_PROVIDERS.map(provider => provider.client);
+
+/**
+ * Returns true if the market simulator is standing in for the real providers.
+ * @returns {boolean} Whether simulation mode is on.
+ */
+export const isSimulationMode = (): boolean => isSimulationEnabled;
+
+/**
+ * Switches simulation mode on or off. While it is on, markets, history, OHLC and ticks all come
+ * from the deterministic market simulator and nothing is read from or written to the response cache.
+ * @param {boolean} enabled - Whether to simulate the market.
+ * @param {Partial<MarketSimulatorConfig>} [simulatorConfig] - Simulator settings (e.g., the seed) to apply.
+ */
+export const setSimulationMode = (enabled: boolean, simulatorConfig?: Partial<MarketSimulatorConfig>) => {
+    if (simulatorConfig) configureMarketSimulator(simulatorConfig);
+    if (enabled === isSimulationEnabled && !simulatorConfig) return;
+    isSimulationEnabled = enabled;
+    closePriceStream();
+    if (priceUpdateListeners.size > 0) {
+        stopPolling();
+        startPolling();
+        syncPriceStream();
+    }
+};
+
+/**
+ * Returns the currency that prices are currently quoted in.
+ * @returns {QuoteCurrency} The active quote currency.
+ */
+export const getQuoteCurrency = (): QuoteCurrency => quoteCurrency;
+
+/**
+ * Switches the global quote currency. Subsequent requests, polls and streamed ticks are quoted in
+ * the new currency; the stream is reopened on the matching trading pairs (or closed if none exist).
+ * @param {QuoteCurrency} currency - The new quote currency.
+ */
+export const setQuoteCurrency = (currency: QuoteCurrency) => {
+    if (currency === quoteCurrency) return;
+    quoteCurrency = currency;
+    closePriceStream();
+    if (priceUpdateListeners.size > 0) {
+        stopPolling();
+        startPolling();
+        syncPriceStream();
+    }
+};
+
+/**
+ * Stops all active streaming and polling connections.
  */
 export const stopAllConnections = () => {
     stopPolling();
+    closePriceStream();
+    if (streamRetryTimer) {
+        clearTimeout(streamRetryTimer);
+        streamRetryTimer = null;
+    }
 };
 
 /**
- * Fetches the latest market data for a list of cryptocurrencies.
+ * Fetches live market data for a list of coins and reports the provider that answered.
  * @param {string[]} coinIds - An array of coin IDs to fetch data for.
- * @returns {Promise<CoinData[]>} A promise that resolves to an array of coin data, or mock data on failure.
+ * @param {QuoteCurrency} currency - The currency to quote prices in.
+ * @throws {Error} If every provider fails.
+ * @returns {Promise<CoinData[]>} A promise that resolves to the coins, in the requested order.
  */
-export const fetchCoinsData = async (coinIds: string[]): Promise<CoinData[]> => {
-  try {
-    const ids = coinIds.join(',');
-    const endpoint = `/coins/markets?vs_currency=usd&ids=${ids}&order=market_cap_desc&per_page=10&page=1&sparkline=false`;
-    const data = await fetchWithRetry(endpoint);
-    if (!Array.isArray(data)) {
-        console.warn(`Expected array from fetchCoinsData, got ${typeof data}. Falling back to mock data.`);
-        return MOCK_COIN_DATA;
+const fetchLiveCoinsData = async (coinIds: string[], currency: QuoteCurrency): Promise<CoinData[]> => {
+    const { coins, provider } = await fetchMarketsWithFailover(coinIds, currency);
+    if (!priceStream?.isOpen()) notifyConnectionListeners(currentStatus, provider.name);
+    // Providers order results by market cap, so restore the caller's (watchlist) order.
+    return coinIds
+        .map(id => coins.find(coin => coin.id === id))
+        .filter((coin): coin is CoinData => !!coin);
+};
+
+/**
+ * Fetches the latest market data for a list of cryptocurrencies, failing over between providers.
+ * Cached data is served stale-while-revalidate: if every coin is cached, the cached copies are
+ * returned at once and stale ones are refreshed in the background. If the request fails, whatever
+ * is cached is returned instead, and mock data only if nothing is.
+ * @param {string[]} coinIds - An array of coin IDs to fetch data for.
+ * @param {QuoteCurrency} [currency] - The currency to quote prices in; defaults to the global quote currency.
+ * @param {(coins: CoinData[]) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @returns {Promise<CoinData[]>} A promise that resolves to an array of coin data, each cached coin labelled with its freshness.
+ */
+export const fetchCoinsData = async (
+  coinIds: string[],
+  currency: QuoteCurrency = quoteCurrency,
+  onRevalidated?: (coins: CoinData[]) => void
+): Promise<CoinData[]> => {
+  if (isSimulationEnabled) return fetchLiveCoinsData(coinIds, currency);
+
+  const entries = await Promise.all(coinIds.map(id => readCache<CoinData>(getMarketsCacheKey(currency, id))));
+  const cached = entries
+      .filter((entry): entry is CacheEntry<CoinData> => !!entry)
+      .map(entry => ({ ...entry.data, freshness: getEntryFreshness(entry, MARKETS_CACHE_TTL_MS) }));
+
+  if (cached.length > 0 && cached.length === coinIds.length) {
+    cached.forEach(coin => { if (!knownCoins.has(coin.id)) knownCoins.set(coin.id, { ...coin, freshness: undefined }); });
+    rememberCoinSymbols(cached);
+    if (cached.some(coin => coin.freshness.isStale)) {
+      fetchLiveCoinsData(coinIds, currency)
+          .then(coins => onRevalidated?.(coins))
+          .catch((error: any) => console.warn(`Background refresh of coin data failed. Serving cached data. Reason: ${error.message}`));
     }
-    return data;
+    return cached;
+  }
+
+  try {
+    return await fetchLiveCoinsData(coinIds, currency);
   } catch (error: any) {
-    console.warn(`Failed to fetch coin data after all retries. Reason: ${error.message}`);
-    console.warn('Falling back to mock coin data.');
-    if (Date.now() < circuitTrippedUntil) {
+    console.warn(`Failed to fetch coin data from every provider. Reason: ${error.message}`);
+    if (isMarketDataSuspended()) {
         notifyConnectionListeners('suspended');
     } else {
         notifyConnectionListeners('disconnected');
     }
-    return MOCK_COIN_DATA;
+    if (cached.length > 0) {
+        console.warn('Falling back to cached coin data.');
+        return cached;
+    }
+    console.warn('Falling back to simulated coin data.');
+    return getMockCoinData(coinIds, currency);
   }
 };
 
+// --- Coin Search & Catalogue ---
+
+/** An entry from the `/coins/list` catalogue, including contract addresses keyed by platform. */
+interface CoinListEntry {
+  id: string;
+  symbol: string;
+  name: string;
+  platforms?: Record<string, string | null>;
+}
+
+const COIN_CATALOGUE_STORAGE_KEY = 'coinCatalogue';
+const COIN_CATALOGUE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_SEARCH_RESULTS = 10;
+
+let coinCatalogue: CoinListEntry[] | null = null;
+let coinCatalogueRequest: Promise<CoinListEntry[]> | null = null;
+
 /**
- * Determines the correct API parameters based on the selected timeframe.
- * @param {Timeframe} timeframe - The desired timeframe ('1H', '1D', '1W', '1M').
- * @returns {{ days: number, interval?: string }} The parameters for the CoinGecko API call.
+ * Checks whether a query looks like a token contract address (EVM hex or base58-style).
+ * @param {string} query - The user's search query.
+ * @returns {boolean} True if the query should be treated as a contract address.
  */
-const getTimeframeParams = (timeframe: Timeframe): { days: number, interval?: string } => {
-    switch (timeframe) {
-        case '1H': return { days: 1 };
-        case '1D': return { days: 1 };
-        case '1W': return { days: 7, interval: 'daily' };
-        case '1M': return { days: 30, interval: 'daily' };
-        default: return { days: 1 };
+const isContractAddress = (query: string): boolean =>
+    /^0x[a-fA-F0-9]{40}$/.test(query) || /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(query);
+
+/**
+ * Reads the cached coin catalogue from localStorage if it exists and has not expired.
+ * @returns {CoinListEntry[] | null} The cached catalogue, or null if unavailable.
+ */
+const loadCachedCatalogue = (): CoinListEntry[] | null => {
+    try {
+        const cached = localStorage.getItem(COIN_CATALOGUE_STORAGE_KEY);
+        if (!cached) return null;
+        const { savedAt, coins } = JSON.parse(cached);
+        if (Date.now() - savedAt > COIN_CATALOGUE_TTL_MS || !Array.isArray(coins)) return null;
+        return coins;
+    } catch (error) {
+        console.warn('Failed to read the cached coin catalogue.', error);
+        return null;
     }
 };
 
 /**
- * Fetches historical price data for a specific coin and timeframe.
- * @param {string} coinId - The ID of the coin.
- * @param {Timeframe} timeframe - The desired timeframe for the chart.
- * @returns {Promise<PriceDataPoint[]>} A promise that resolves to an array of formatted data points for the chart, or mock data on failure.
+ * Fetches the full `/coins/list` catalogue (with contract addresses) and caches it locally.
+ * Concurrent callers share a single in-flight request, and the catalogue is kept in memory
+ * even if it is too large to persist.
+ * @returns {Promise<CoinListEntry[]>} A promise that resolves to the catalogue, or an empty list on failure.
  */
-export const fetchCoinHistory = async (coinId: string, timeframe: Timeframe): Promise<PriceDataPoint[]> => {
-  try {
-    const { days, interval } = getTimeframeParams(timeframe);
-    const intervalParam = interval ? `&interval=${interval}` : '';
-    const endpoint = `/coins/${coinId}/market_chart?vs_currency=usd&days=${days}${intervalParam}`;
-    const data = await fetchWithRetry(endpoint);
-
-    if (!data || !Array.isArray(data.prices)) {
-      console.error('Invalid chart data structure received:', data);
-      throw new Error('Unexpected data format for chart history.');
+const fetchCoinCatalogue = async (): Promise<CoinListEntry[]> => {
+    if (coinCatalogue) return coinCatalogue;
+    const cached = loadCachedCatalogue();
+    if (cached) {
+        coinCatalogue = cached;
+        return cached;
     }
-    
-    const priceMap = new Map<string, number>();
-    data.prices.forEach(([timestamp, price]: [number, number]) => {
-        const date = new Date(timestamp);
-        let key = '';
-        if (timeframe === '1H' || timeframe === '1D') {
-            key = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-        } else {
-            key = date.toLocaleString([], { month: 'short', day: 'numeric' });
-        }
-        priceMap.set(key, price);
-    });
+    if (!coinCatalogueRequest) {
+        coinCatalogueRequest = fetchCoinGecko('/coins/list?include_platform=true')
+            .then((data): CoinListEntry[] => {
+                if (!Array.isArray(data)) throw new Error('Unexpected data format for coin catalogue.');
+                coinCatalogue = data;
+                try {
+                    localStorage.setItem(COIN_CATALOGUE_STORAGE_KEY, JSON.stringify({ savedAt: Date.now(), coins: data }));
+                } catch (error) {
+                    console.warn('Coin catalogue is too large to persist. Keeping it in memory only.', error);
+                }
+                return data;
+            })
+            .catch((error: any): CoinListEntry[] => {
+                console.warn(`Failed to fetch coin catalogue. Reason: ${error.message}`);
+                return [];
+            })
+            .finally(() => { coinCatalogueRequest = null; });
+    }
+    return coinCatalogueRequest;
+};
+
+/**
+ * Searches the locally cached catalogue, ranking exact ID/symbol/name matches first.
+ * @param {CoinListEntry[]} catalogue - The catalogue to search.
+ * @param {string} query - The user's search query.
+ * @returns {CoinSearchResult[]} The best matching coins.
+ */
+const searchCatalogue = (catalogue: CoinListEntry[], query: string): CoinSearchResult[] => {
+    const q = query.toLowerCase();
+    const score = (coin: CoinListEntry): number => {
+        const name = coin.name.toLowerCase();
+        if (coin.id === q || coin.symbol === q || name === q) return 0;
+        if (coin.symbol.startsWith(q) || name.startsWith(q)) return 1;
+        if (name.includes(q) || coin.id.includes(q)) return 2;
+        return -1;
+    };
+    return catalogue
+        .map(coin => ({ coin, rank: score(coin) }))
+        .filter(({ rank }) => rank >= 0)
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, MAX_SEARCH_RESULTS)
+        .map(({ coin }) => ({ id: coin.id, symbol: coin.symbol, name: coin.name }));
+};
 
-    const formattedData: PriceDataPoint[] = Array.from(priceMap.entries()).map(([name, price]) => ({ name, price }));
-    
-    if (data.prices.length > 0) {
-        const lastPoint = data.prices[data.prices.length - 1];
-        if (lastPoint) {
-          const currentPrice = lastPoint[1];
-          if (formattedData.length === 0 || formattedData[formattedData.length-1].name !== 'Now') {
-             formattedData.push({ name: 'Now', price: currentPrice });
-          }
+/**
+ * Searches for coins by name, ticker or contract address.
+ * Names and tickers are looked up via the `/search` endpoint (falling back to the cached catalogue
+ * if it is unavailable); contract addresses are resolved against the catalogue's platform data.
+ * @param {string} query - The user's search query (e.g., 'eth', 'Ethereum' or '0x...').
+ * @returns {Promise<CoinSearchResult[]>} A promise that resolves to the matching coins, best match first.
+ */
+export const searchCoins = async (query: string): Promise<CoinSearchResult[]> => {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    if (isContractAddress(trimmed)) {
+        // EVM addresses are case-insensitive (mixed case is only a checksum), but base58 ones are not.
+        const isEvmAddress = trimmed.startsWith('0x');
+        const matches = (address: string | null) =>
+            isEvmAddress ? address?.toLowerCase() === trimmed.toLowerCase() : address === trimmed;
+        const catalogue = await fetchCoinCatalogue();
+        return catalogue
+            .filter(coin => coin.platforms && Object.values(coin.platforms).some(matches))
+            .map(coin => ({ id: coin.id, symbol: coin.symbol, name: coin.name }));
+    }
+
+    try {
+        const data = await fetchCoinGecko(`/search?query=${encodeURIComponent(trimmed)}`);
+        if (!data || !Array.isArray(data.coins)) {
+            throw new Error('Unexpected data format for coin search.');
         }
+        return data.coins.slice(0, MAX_SEARCH_RESULTS).map((coin: any): CoinSearchResult => ({
+            id: coin.id,
+            symbol: String(coin.symbol).toLowerCase(),
+            name: coin.name,
+            thumb: coin.thumb,
+            market_cap_rank: coin.market_cap_rank,
+        }));
+    } catch (error: any) {
+        console.warn(`Coin search failed. Falling back to cached catalogue. Reason: ${error.message}`);
+        return searchCatalogue(await fetchCoinCatalogue(), trimmed);
     }
+};
+
+/**
+ * Resolves free-form user input to a single coin.
+ * Exact ID matches win, followed by exact ticker and name matches; otherwise the top search result is used.
+ * @param {string} query - A coin ID, ticker, name or contract address.
+ * @returns {Promise<CoinSearchResult | null>} A promise that resolves to the best matching coin, or null if nothing matched.
+ */
+export const resolveCoin = async (query: string): Promise<CoinSearchResult | null> => {
+    // Contract addresses can be case-sensitive, so only the comparisons below ignore case.
+    const trimmed = query.trim();
+    const q = trimmed.toLowerCase();
+    const results = await searchCoins(trimmed);
+    if (results.length === 0) return null;
+    return results.find(coin => coin.id === q)
+        || results.find(coin => coin.symbol === q)
+        || results.find(coin => coin.name.toLowerCase() === q)
+        || results[0];
+};
+
+/**
+ * Resolves free-form user input (e.g., 'eth', 'Ethereum' or a contract address) to a canonical coin ID.
+ * @param {string} query - A coin ID, ticker, name or contract address.
+ * @returns {Promise<string | null>} A promise that resolves to the `CoinData.id`, or null if nothing matched.
+ */
+export const resolveCoinId = async (query: string): Promise<string | null> => {
+    const coin = await resolveCoin(query);
+    return coin ? coin.id : null;
+};
 
-    return formattedData;
+// --- Coin Details ---
+
+const COIN_DETAILS_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Parses an ISO date from the API into a timestamp.
+ * @param {string | null} date - The ISO date string.
+ * @returns {number | null} The timestamp in milliseconds, or null if the date is missing or invalid.
+ */
+const parseApiDate = (date: string | null): number | null => {
+    const timestamp = date ? Date.parse(date) : NaN;
+    return isNaN(timestamp) ? null : timestamp;
+};
+
+/**
+ * Converts the HTML description returned by the API (which contains links and line breaks) to plain text.
+ * @param {string} html - The description's HTML.
+ * @returns {string} The plain-text description.
+ */
+const stripHtml = (html: string): string =>
+    html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'").trim();
+
+/**
+ * Normalises a `/coins/{id}` response into `CoinDetails`, picking amounts in the given currency.
+ * @param {any} data - The raw response.
+ * @param {QuoteCurrency} currency - The currency to pick amounts in.
+ * @returns {CoinDetails} The normalised details.
+ */
+const toCoinDetails = (data: any, currency: QuoteCurrency): CoinDetails => {
+    const market = data.market_data ?? {};
+    const inCurrency = (field: string): any => market[field]?.[currency] ?? null;
+    const nonEmpty = (values: unknown): string[] => Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string' && value !== '') : [];
+    const links = data.links ?? {};
+    return {
+        id: data.id,
+        symbol: data.symbol,
+        name: data.name,
+        image: data.image?.large ?? data.image?.small ?? '',
+        market_cap_rank: data.market_cap_rank ?? null,
+        market_cap: inCurrency('market_cap'),
+        fully_diluted_valuation: inCurrency('fully_diluted_valuation'),
+        total_volume: inCurrency('total_volume'),
+        circulating_supply: market.circulating_supply ?? null,
+        total_supply: market.total_supply ?? null,
+        max_supply: market.max_supply ?? null,
+        ath: inCurrency('ath'),
+        ath_date: parseApiDate(inCurrency('ath_date')),
+        ath_change_percentage: inCurrency('ath_change_percentage'),
+        atl: inCurrency('atl'),
+        atl_date: parseApiDate(inCurrency('atl_date')),
+        atl_change_percentage: inCurrency('atl_change_percentage'),
+        categories: nonEmpty(data.categories),
+        links: {
+            homepage: nonEmpty(links.homepage)[0] ?? null,
+            whitepaper: links.whitepaper || null,
+            explorers: nonEmpty(links.blockchain_site),
+            github: nonEmpty(links.repos_url?.github),
+            twitter: links.twitter_screen_name ? `https://twitter.com/${links.twitter_screen_name}` : null,
+            reddit: links.subreddit_url || null,
+        },
+        description: stripHtml(data.description?.en ?? ''),
+    };
+};
+
+/**
+ * Fetches a coin's fundamentals: market cap, fully-diluted valuation, supplies, volume, all-time high
+ * and low, categories, links and description. Responses are cached and served stale-while-revalidate.
+ * @param {string} coinId - The ID of the coin.
+ * @param {QuoteCurrency} [currency] - The currency to quote amounts in; defaults to the global quote currency.
+ * @param {(result: CachedData<CoinDetails>) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @throws {Error} If nothing is cached and the request fails, or in simulation mode, which has no fundamentals.
+ * @returns {Promise<CachedData<CoinDetails>>} A promise that resolves to the details and their freshness.
+ */
+export const fetchCoinDetails = async (
+  coinId: string,
+  currency: QuoteCurrency = quoteCurrency,
+  onRevalidated?: (result: CachedData<CoinDetails>) => void
+): Promise<CachedData<CoinDetails>> => {
+  if (isSimulationEnabled) throw new Error('Coin details are not simulated.');
+  return staleWhileRevalidate(
+    `details:${currency}:${coinId}`,
+    COIN_DETAILS_CACHE_TTL_MS,
+    async () => {
+      const data = await fetchCoinGecko(`/coins/${encodeURIComponent(coinId)}?localization=false&tickers=false&market_data=true&community_data=false&developer_data=false&sparkline=false`);
+      if (!data || data.id !== coinId) throw new Error('Unexpected data format for coin details.');
+      return toCoinDetails(data, currency);
+    },
+    onRevalidated
+  );
+};
+
+/**
+ * Fetches historical price data for a specific coin and timeframe or custom range, failing over between providers.
+ * Responses are cached and served stale-while-revalidate.
+ * @param {string} coinId - The ID of the coin.
+ * @param {ChartPeriod} period - The desired timeframe or custom date range for the chart.
+ * @param {QuoteCurrency} [currency] - The currency to quote prices in; defaults to the global quote currency.
+ * @param {(result: CachedData<PriceDataPoint[]>) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @returns {Promise<CachedData<PriceDataPoint[]>>} A promise that resolves to the data points and their freshness, or mock data if nothing is available.
+ */
+export const fetchCoinHistory = async (
+  coinId: string,
+  period: ChartPeriod,
+  currency: QuoteCurrency = quoteCurrency,
+  onRevalidated?: (result: CachedData<PriceDataPoint[]>) => void
+): Promise<CachedData<PriceDataPoint[]>> => {
+  const [coin] = toCoinRefs([coinId]);
+  if (isSimulationEnabled) return { data: await simulatorProvider.fetchHistory(coin, period, currency), freshness: MOCK_FRESHNESS };
+  try {
+    return await staleWhileRevalidate(
+      getChartCacheKey('history', currency, coinId, period),
+      getChartCacheTtl(period),
+      async () => (await requestWithFailover('History request', provider => provider.fetchHistory(coin, period, currency))).data,
+      onRevalidated
+    );
   } catch (error: any) {
     console.warn(`Failed to fetch coin history. Reason: ${error.message}`);
-    console.warn('Falling back to mock chart data.');
-    return MOCK_PRICE_HISTORY[timeframe];
+    console.warn('Falling back to simulated chart data.');
+    return { data: getSimulatedHistory(coin, period, currency), freshness: MOCK_FRESHNESS };
+  }
+};
+
+/**
+ * Fetches OHLC candles for a specific coin and timeframe or custom range, failing over between providers.
+ * Responses are cached and served stale-while-revalidate.
+ * @param {string} coinId - The ID of the coin.
+ * @param {ChartPeriod} period - The desired timeframe or custom date range for the chart.
+ * @param {QuoteCurrency} [currency] - The currency to quote prices in; defaults to the global quote currency.
+ * @param {(result: CachedData<OhlcDataPoint[]>) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @returns {Promise<CachedData<OhlcDataPoint[]>>} A promise that resolves to the candles and their freshness, or no candles if nothing is available.
+ */
+export const fetchCoinOhlc = async (
+  coinId: string,
+  period: ChartPeriod,
+  currency: QuoteCurrency = quoteCurrency,
+  onRevalidated?: (result: CachedData<OhlcDataPoint[]>) => void
+): Promise<CachedData<OhlcDataPoint[]>> => {
+  const [coin] = toCoinRefs([coinId]);
+  if (isSimulationEnabled) return { data: await simulatorProvider.fetchOhlc(coin, period, currency), freshness: MOCK_FRESHNESS };
+  try {
+    return await staleWhileRevalidate(
+      getChartCacheKey('ohlc', currency, coinId, period),
+      getChartCacheTtl(period),
+      async () => (await requestWithFailover('OHLC request', provider => provider.fetchOhlc(coin, period, currency))).data,
+      onRevalidated
+    );
+  } catch (error: any) {
+    console.warn(`Failed to fetch OHLC data. Reason: ${error.message}`);
+    console.warn('Falling back to simulated candles.');
+    return { data: getSimulatedOhlc(coin, period, currency), freshness: MOCK_FRESHNESS };
   }
 };
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * @file This service handles the quote currencies that prices can be displayed in.
+ * It provides:
+ * 1.  **Currency Metadata:** The list of supported quote currencies and their display names.
+ * 2.  **Price Formatting:** Locale-aware formatting via cached `Intl.NumberFormat` instances.
+ * 3.  **Exchange Rates:** BTC-relative rates from CoinGecko's `/exchange_rates` endpoint, cached
+ *     for a short time, so prices can be converted between quote currencies (e.g., for alerts
+ *     that were created in a different currency than the one currently selected).
+ */
+
+import type { QuoteCurrency } from '../types';
+import { fetchCoinGecko } from './marketDataProviders';
+
+/** Display metadata for a quote currency. */
+export interface QuoteCurrencyInfo {
+  /** The currency code, matching CoinGecko's `vs_currency` parameter. */
+  code: QuoteCurrency;
+  /** The currency's display name (e.g., 'Euro'). */
+  name: string;
+  /** Whether the currency is a cryptocurrency, which needs more fraction digits. */
+  isCrypto: boolean;
+}
+
+/** Every supported quote currency, in the order they are offered to the user. */
+export const QUOTE_CURRENCIES: QuoteCurrencyInfo[] = [
+  { code: 'usd', name: 'US Dollar', isCrypto: false },
+  { code: 'eur', name: 'Euro', isCrypto: false },
+  { code: 'gbp', name: 'British Pound', isCrypto: false },
+  { code: 'zar', name: 'South African Rand', isCrypto: false },
+  { code: 'btc', name: 'Bitcoin', isCrypto: true },
+  { code: 'eth', name: 'Ether', isCrypto: true },
+];
+
+/** The quote currency used on a fresh install and for alerts created before currencies were selectable. */
+export const DEFAULT_QUOTE_CURRENCY: QuoteCurrency = 'usd';
+
+/**
+ * Checks whether a value is a supported quote currency (e.g., when reading persisted settings).
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a supported quote currency.
+ */
+export const isQuoteCurrency = (value: unknown): value is QuoteCurrency =>
+  QUOTE_CURRENCIES.some(currency => currency.code === value);
+
+const formatters = new Map<QuoteCurrency, Intl.NumberFormat>();
+
+/**
+ * Formats a price in the given quote currency, e.g. `€1,234.56` or `BTC 0.05123456`.
+ * @param {number} value - The price to format.
+ * @param {QuoteCurrency} currency - The currency the price is quoted in.
+ * @returns {string} The formatted price.
+ */
+export const formatPrice = (value: number, currency: QuoteCurrency): string => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    const isCrypto = QUOTE_CURRENCIES.find(c => c.code === currency)?.isCrypto ?? false;
+    formatter = new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+      minimumFractionDigits: 2,
+      maximumFractionDigits: isCrypto ? 8 : 6,
+    });
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(value);
+};
+
+const compactFormatters = new Map<QuoteCurrency, Intl.NumberFormat>();
+
+/**
+ * Formats a large amount (e.g., a market cap) compactly in the given quote currency, e.g. `$1.23T`.
+ * @param {number} value - The amount to format.
+ * @param {QuoteCurrency} currency - The currency the amount is quoted in.
+ * @returns {string} The formatted amount.
+ */
+export const formatCompactAmount = (value: number, currency: QuoteCurrency): string => {
+  let formatter = compactFormatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+      notation: 'compact',
+      maximumFractionDigits: 2,
+    });
+    compactFormatters.set(currency, formatter);
+  }
+  return formatter.format(value);
+};
+
+// --- Exchange Rates ---
+
+/** Exchange rates relative to BTC (i.e., how many units of each currency one BTC buys). */
+export type ExchangeRates = { [key in QuoteCurrency]: number };
+
+export const EXCHANGE_RATES_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+let cachedRates: { rates: ExchangeRates; fetchedAt: number } | null = null;
+
+/**
+ * Fetches BTC-relative exchange rates for every supported quote currency.
+ * Results are cached for `EXCHANGE_RATES_TTL_MS`; a stale copy is returned if the refresh fails.
+ * @returns {Promise<ExchangeRates | null>} A promise that resolves to the rates, or null if none are available.
+ */
+export const fetchExchangeRates = async (): Promise<ExchangeRates | null> => {
+  if (cachedRates && Date.now() - cachedRates.fetchedAt < EXCHANGE_RATES_TTL_MS) {
+    return cachedRates.rates;
+  }
+  try {
+    const data = await fetchCoinGecko('/exchange_rates');
+    if (!data || !data.rates) throw new Error('Unexpected data format for exchange rates.');
+    const rates = {} as ExchangeRates;
+    QUOTE_CURRENCIES.forEach(({ code }) => {
+      const value = data.rates[code]?.value;
+      if (typeof value !== 'number' || value <= 0) throw new Error(`Missing exchange rate for ${code}.`);
+      rates[code] = value;
+    });
+    cachedRates = { rates, fetchedAt: Date.now() };
+    return rates;
+  } catch (error: any) {
+    console.warn(`Failed to fetch exchange rates. Reason: ${error.message}`);
+    return cachedRates?.rates ?? null;
+  }
+};
+
+/**
+ * Converts a price between two quote currencies.
+ * @param {number} value - The price in the source currency.
+ * @param {QuoteCurrency} from - The currency the price is quoted in.
+ * @param {QuoteCurrency} to - The currency to convert to.
+ * @param {ExchangeRates} rates - BTC-relative exchange rates, as returned by `fetchExchangeRates`.
+ * @returns {number} The price in the target currency.
+ */
+export const convertPrice = (value: number, from: QuoteCurrency, to: QuoteCurrency, rates: ExchangeRates): number =>
+  from === to ? value : value * (rates[to] / rates[from]);
@@ -0,0 +1,260 @@
+/**
+ * @file This service exports market data as files that analysts can load into spreadsheets,
+ * notebooks or other tools. It provides:
+ * 1.  **Tables:** Coin history (prices, or OHLC candles with volume when available) and watchlist snapshots
+ *     are flattened into tables with ISO 8601 timestamps, an explicit quote-currency column and the source
+ *     of each row. Simulated data is never exported as if it were real.
+ * 2.  **Formats:** Tables serialise to CSV, row-oriented JSON, or Parquet-style columnar JSON
+ *     (one array per column, with the column types), which loads directly into dataframes.
+ * 3.  **Programmatic Use:** `exportCoinHistory` and `exportWatchlist` return the file contents, so other
+ *     modules (e.g., reports or backtests) can reuse the exporter; `downloadExportFile` saves a file in the browser.
+ */
+
+import type { ChartPeriod, CoinData, OhlcDataPoint, PriceDataPoint, QuoteCurrency } from '../types';
+import { fetchCoinHistory, fetchCoinOhlc, getQuoteCurrency, isSimulationMode } from './coingeckoService';
+import type { CachedData } from './cacheService';
+
+/** The file formats data can be exported in. 'columns' is columnar JSON, laid out like a Parquet file. */
+export type ExportFormat = 'csv' | 'json' | 'columns';
+
+/** The type of a table column, recorded in columnar exports. */
+export type ExportColumnType = 'timestamp' | 'string' | 'number';
+
+/** A single value in an exported table; null marks a missing value. */
+export type ExportValue = string | number | null;
+
+/**
+ * A flat table of exported data.
+ */
+export interface ExportTable {
+  /** The table's columns, in order. */
+  columns: { name: string; type: ExportColumnType }[];
+  /** The table's rows, each holding one value per column. */
+  rows: ExportValue[][];
+}
+
+/**
+ * A serialised export, ready to be saved or passed on.
+ */
+export interface ExportFile {
+  /** A suggested file name, including the extension. */
+  filename: string;
+  /** The MIME type of the content. */
+  mimeType: string;
+  /** The serialised table. */
+  content: string;
+}
+
+/**
+ * Thrown when there is no real data to export, e.g. because every provider failed and only simulated
+ * data is available. Its message is short enough to show to the user.
+ */
+export class ExportUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportUnavailableError';
+  }
+}
+
+/** The file extension and MIME type of each format. */
+const FORMAT_INFO: { [key in ExportFormat]: { extension: string; mimeType: string } } = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  columns: { extension: 'columns.json', mimeType: 'application/json' },
+};
+
+/**
+ * Formats a timestamp as an ISO 8601 string in UTC.
+ * @param {number} timestamp - The timestamp in milliseconds.
+ * @returns {string} The ISO timestamp.
+ */
+const toIsoTimestamp = (timestamp: number): string => new Date(timestamp).toISOString();
+
+/**
+ * Quotes a CSV field if it contains a delimiter, quote or line break.
+ * @param {ExportValue} value - The value to write.
+ * @returns {string} The CSV field.
+ */
+const toCsvField = (value: ExportValue): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises a table as CSV with a header row.
+ * @param {ExportTable} table - The table to serialise.
+ * @returns {string} The CSV text.
+ */
+export const toCsv = (table: ExportTable): string =>
+  [table.columns.map(column => column.name), ...table.rows]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n');
+
+/**
+ * Serialises a table as a JSON array with one object per row.
+ * @param {ExportTable} table - The table to serialise.
+ * @returns {string} The JSON text.
+ */
+export const toRowJson = (table: ExportTable): string =>
+  JSON.stringify(table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column.name, row[i]]))), null, 2);
+
+/**
+ * Serialises a table as columnar JSON: a schema plus one array of values per column, as in a Parquet file.
+ * @param {ExportTable} table - The table to serialise.
+ * @returns {string} The JSON text.
+ */
+export const toColumnarJson = (table: ExportTable): string =>
+  JSON.stringify({
+    schema: table.columns,
+    rowCount: table.rows.length,
+    columns: Object.fromEntries(table.columns.map((column, i) => [column.name, table.rows.map(row => row[i])])),
+  });
+
+/**
+ * Serialises a table in the given format.
+ * @param {ExportTable} table - The table to serialise.
+ * @param {ExportFormat} format - The format to write.
+ * @param {string} baseName - The file name without an extension.
+ * @returns {ExportFile} The serialised file.
+ */
+export const serializeTable = (table: ExportTable, format: ExportFormat, baseName: string): ExportFile => {
+  const { extension, mimeType } = FORMAT_INFO[format];
+  const content = format === 'csv' ? toCsv(table) : format === 'json' ? toRowJson(table) : toColumnarJson(table);
+  return { filename: `${baseName}.${extension}`, mimeType, content };
+};
+
+/**
+ * Builds a table of a coin's history. When candles are available, each row is a candle with its volume
+ * (and its close as the price); otherwise each row is a price sample with empty OHLC columns. Each row
+ * records where its data came from ('live', 'cache' or 'mock') and when it was fetched.
+ * @param {string} coinId - The ID of the coin.
+ * @param {QuoteCurrency} currency - The currency the data is quoted in.
+ * @param {CachedData<PriceDataPoint[]>} history - The price samples and their freshness.
+ * @param {CachedData<OhlcDataPoint[]>} [ohlc] - The OHLC candles and their freshness, if available.
+ * @returns {ExportTable} The history table, oldest row first.
+ */
+export const buildHistoryTable = (
+  coinId: string,
+  currency: QuoteCurrency,
+  history: CachedData<PriceDataPoint[]>,
+  ohlc?: CachedData<OhlcDataPoint[]>
+): ExportTable => {
+  const useCandles = !!ohlc && ohlc.data.length > 0;
+  const { source, fetchedAt } = useCandles ? ohlc.freshness : history.freshness;
+  const provenance: ExportValue[] = [source, fetchedAt ? toIsoTimestamp(fetchedAt) : null];
+  return {
+    columns: [
+      { name: 'timestamp', type: 'timestamp' },
+      { name: 'coin_id', type: 'string' },
+      { name: 'quote_currency', type: 'string' },
+      { name: 'price', type: 'number' },
+      { name: 'open', type: 'number' },
+      { name: 'high', type: 'number' },
+      { name: 'low', type: 'number' },
+      { name: 'close', type: 'number' },
+      { name: 'volume', type: 'number' },
+      { name: 'source', type: 'string' },
+      { name: 'fetched_at', type: 'timestamp' },
+    ],
+    rows: useCandles
+      ? ohlc.data.map(candle => [
+          toIsoTimestamp(candle.timestamp), coinId, currency, candle.close,
+          candle.open, candle.high, candle.low, candle.close, candle.volume ?? null, ...provenance,
+        ])
+      : history.data.map(point => [toIsoTimestamp(point.timestamp), coinId, currency, point.price, null, null, null, null, null, ...provenance]),
+  };
+};
+
+/**
+ * Builds a table of the watchlist's current prices.
+ * @param {CoinData[]} coins - The watched coins, in watchlist order.
+ * @param {QuoteCurrency} currency - The currency the coins are priced in.
+ * @param {number} [snapshotAt] - When the snapshot was taken; defaults to now.
+ * @returns {ExportTable} The snapshot table, one row per coin.
+ */
+export const buildWatchlistTable = (coins: CoinData[], currency: QuoteCurrency, snapshotAt: number = Date.now()): ExportTable => ({
+  columns: [
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'coin_id', type: 'string' },
+    { name: 'symbol', type: 'string' },
+    { name: 'name', type: 'string' },
+    { name: 'quote_currency', type: 'string' },
+    { name: 'price', type: 'number' },
+    { name: 'change_24h_pct', type: 'number' },
+    { name: 'source', type: 'string' },
+    { name: 'fetched_at', type: 'timestamp' },
+  ],
+  rows: coins.map(coin => [
+    toIsoTimestamp(snapshotAt), coin.id, coin.symbol.toUpperCase(), coin.name, currency,
+    coin.current_price, coin.price_change_percentage_24h,
+    // Coins without a freshness label were just updated live.
+    coin.freshness?.source ?? 'live',
+    coin.freshness?.fetchedAt ? toIsoTimestamp(coin.freshness.fetchedAt) : null,
+  ]),
+});
+
+/**
+ * Exports a coin's history over a timeframe or custom range, including OHLC candles and volume when
+ * a provider supplies them. Data comes through the market-data service, so cached data is reused.
+ * The service falls back to simulated data when every provider fails: simulated candles are dropped
+ * in favour of real prices, and if no real data is available at all the export is refused (except in
+ * simulation mode, where simulated data is what the user asked for).
+ * @param {string} coinId - The ID of the coin.
+ * @param {ChartPeriod} period - The timeframe or custom date range to export.
+ * @param {ExportFormat} format - The format to write.
+ * @param {QuoteCurrency} [currency] - The currency to quote prices in; defaults to the global quote currency.
+ * @throws {ExportUnavailableError} If only simulated data is available outside simulation mode.
+ * @returns {Promise<ExportFile>} A promise that resolves to the serialised file.
+ */
+export const exportCoinHistory = async (
+  coinId: string,
+  period: ChartPeriod,
+  format: ExportFormat,
+  currency: QuoteCurrency = getQuoteCurrency()
+): Promise<ExportFile> => {
+  const [history, ohlc] = await Promise.all([
+    fetchCoinHistory(coinId, period, currency),
+    fetchCoinOhlc(coinId, period, currency),
+  ]);
+  const isSimulated = isSimulationMode();
+  // Simulated candles are dropped, so the price samples are exported instead.
+  const candles = isSimulated || ohlc.freshness.source !== 'mock' ? ohlc : undefined;
+  if (!isSimulated && !candles?.data.length && history.freshness.source === 'mock') {
+    throw new ExportUnavailableError('No real data available to export.');
+  }
+  const table = buildHistoryTable(coinId, currency, history, candles);
+  const periodName = typeof period === 'string'
+    ? period
+    : `${toIsoTimestamp(period.from).slice(0, 10)}_${toIsoTimestamp(period.to).slice(0, 10)}`;
+  return serializeTable(table, format, `${coinId}-${periodName}-${currency}`);
+};
+
+/**
+ * Exports a snapshot of the watchlist's current prices.
+ * @param {CoinData[]} coins - The watched coins, in watchlist order.
+ * @param {ExportFormat} format - The format to write.
+ * @param {QuoteCurrency} [currency] - The currency the coins are priced in; defaults to the global quote currency.
+ * @returns {ExportFile} The serialised file.
+ */
+export const exportWatchlist = (coins: CoinData[], format: ExportFormat, currency: QuoteCurrency = getQuoteCurrency()): ExportFile => {
+  const snapshotAt = Date.now();
+  const stamp = toIsoTimestamp(snapshotAt).slice(0, 19).replace(/:/g, '-');
+  return serializeTable(buildWatchlistTable(coins, currency, snapshotAt), format, `watchlist-${currency}-${stamp}`);
+};
+
+/**
+ * Saves an exported file through the browser's download mechanism.
+ * @param {ExportFile} file - The file to save.
+ */
+export const downloadExportFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the data.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
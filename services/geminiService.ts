@@ -1,10 +1,14 @@
 /**
- * @file This service handles all interactions with the Google Gemini API.
- * It provides functionalities for chat sessions and generating grounded (web-searched) responses.
+ * @file This module is the Google Gemini adapter for the LLM provider abstraction (see `llmProviders`).
+ * It provides chat sessions that call market-data tools, streamed grounded (web-searched) responses and
+ * structured output against a JSON response schema. Streamed responses can be aborted.
  * It includes mock implementations for use when an API key is not available.
  */
 import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import type { GroundingChunk } from '../types';
+import type { FunctionCall, GenerateContentConfig, Part, SendMessageParameters } from "@google/genai";
+import type { GroundingChunk, StructuredAnalysis, ToolCall } from '../types';
+import { MAX_TOOL_ROUNDS, runChatTool } from './llmProviders';
+import type { GroundedResponse, LLMChatOptions, LLMProvider } from './llmProviders';
 
 /**
  * The API key for the Google Gemini API, loaded from environment variables.
@@ -23,12 +27,14 @@ if (!API_KEY) {
  */
 const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
 
+/** The Gemini models offered in the model picker, fastest first. */
+const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
 /**
- * A map to store and manage active chat session instances, keyed by a unique session ID.
- * This allows for multiple, independent conversations.
- * @constant
+ * The most tokens of earlier conversation replayed into a new chat. Gemini's context window is far
+ * larger, but long replays slow every response down and raise its cost.
  */
-const chatSessions = new Map<string, Chat>();
+const GEMINI_HISTORY_TOKEN_BUDGET = 32_000;
 
 /**
  * Creates a mock chat object for use when the Gemini API is not configured.
@@ -36,96 +42,94 @@ const chatSessions = new Map<string, Chat>();
  * @returns {Chat} A mock Chat instance with a `sendMessageStream` method.
  */
 const createMockChat = (): Chat => ({
-  sendMessageStream: async function* (params: { message: string }) {
+  sendMessageStream: async function* (params: SendMessageParameters) {
     await new Promise(resolve => setTimeout(resolve, 500));
     const mockResponse = `This is a mock streamed response to: "${params.message}". The API key is not configured, so this is simulated data.`;
-    for (const word of mockResponse.split(' ')) {
-      yield { text: word + ' ' };
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
+    yield* streamMockText(mockResponse, params.config?.abortSignal);
   }
 } as unknown as Chat);
 
 /**
- * Creates a real chat instance using the Gemini API.
- * It is configured with a system instruction to act as a professional crypto trading analyst.
+ * Streams a mock response word by word, as the real API would.
+ * @param {string} text - The response.
+ * @param {AbortSignal} [signal] - A signal that stops the stream.
+ * @yields {{ text: string }} Each word of the response.
+ */
+async function* streamMockText(text: string, signal?: AbortSignal) {
+  for (const word of text.split(' ')) {
+    signal?.throwIfAborted();
+    yield { text: word + ' ' };
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+/**
+ * Builds the configuration of a chat: the system instruction and the market-data tools it can call.
+ * Each request repeats it, since a request's configuration replaces the chat's rather than extending it.
+ * @param {LLMChatOptions} options - The chat's options.
+ * @returns {GenerateContentConfig} The chat configuration.
+ */
+const buildChatConfig = ({ systemInstruction, tools }: LLMChatOptions): GenerateContentConfig => ({
+  systemInstruction,
+  tools: [{ functionDeclarations: tools }],
+});
+
+/**
+ * Creates a real chat instance using the Gemini API, configured with the system instruction
+ * and the market-data tools it can call, and primed with the earlier turns of the conversation.
+ * @param {LLMChatOptions} options - The model, system instruction, tools and history.
  * @throws {Error} If the Gemini AI client is not initialized.
  * @returns {Chat} A real Chat instance connected to the Gemini API.
  */
-const createRealChat = (): Chat => {
+const createRealChat = (options: LLMChatOptions): Chat => {
   if (!ai) {
     throw new Error("Gemini AI not initialized. Check API_KEY.");
   }
   return ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction: `You are a professional crypto trading analyst. Your goal is to provide comprehensive and well-structured market analysis.
-
-When a user asks for an analysis of a cryptocurrency, you must provide a detailed report covering the following sections:
-
-1.  **Executive Summary:** A brief, high-level overview of the current market sentiment and key takeaways.
-2.  **Technical Analysis:**
-    *   **Moving Averages (MA):** Analyze key moving averages (e.g., 50-day, 200-day) to determine the long-term and short-term trends.
-    *   **Relative Strength Index (RSI):** Evaluate the RSI to identify overbought or oversold conditions.
-    *   **MACD (Moving Average Convergence Divergence):** Analyze the MACD line, signal line, and histogram to identify momentum and potential trend reversals.
-3.  **Fundamental Analysis:**
-    *   **Recent News:** Summarize any significant recent news that could impact the asset's price.
-    *   **Project Developments:** Mention any recent updates, partnerships, or roadmap progress for the project.
-4.  **Overall Outlook:** Conclude with a balanced outlook, considering both bullish and bearish scenarios based on the analysis.
-
-Always use Markdown for clear formatting, including headings, bold text, and lists.`,
-    },
+    model: options.model,
+    config: buildChatConfig(options),
+    history: options.history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
   });
 };
 
 /**
- * Retrieves or creates a chat session for a given session ID.
- * If a session already exists, it's returned; otherwise, a new one is created.
- * @param {string} sessionId - The unique identifier for the chat session.
- * @returns {Chat} The Chat instance for the given session ID.
+ * Extracts the answer text from a streamed chunk, skipping function-call and thought parts.
+ * @param {GenerateContentResponse} chunk - The chunk.
+ * @returns {string} The chunk's text, or an empty string if it has none.
  */
-export const getChatSession = (sessionId: string): Chat => {
-  if (chatSessions.has(sessionId)) {
-    return chatSessions.get(sessionId)!;
-  }
-
-  console.log(`Creating new chat session for ID: ${sessionId}`);
-  const newChat = API_KEY ? createRealChat() : createMockChat();
-  chatSessions.set(sessionId, newChat);
-  return newChat;
+const getChunkText = (chunk: GenerateContentResponse): string => {
+  const parts = chunk.candidates?.[0]?.content?.parts;
+  if (!parts) return chunk.text ?? ''; // The mock chat only yields plain text.
+  return parts.filter(part => typeof part.text === 'string' && !part.thought).map(part => part.text).join('');
 };
 
 /**
- * Removes a chat session from the active sessions map to free up resources.
- * This should be called when a user deletes a session from the UI.
- * @param {string} sessionId - The ID of the session to remove.
+ * Executes a tool call from the model and builds the response part to send back.
+ * @param {FunctionCall} call - The call requested by the model.
+ * @param {string} fallbackId - An ID to use if the model did not assign one.
+ * @param {(call: ToolCall) => void} onToolCall - Callback for the call's progress.
+ * @returns {Promise<Part>} A promise that resolves to the function response part.
  */
-export const removeChatSession = (sessionId: string) => {
-    if (chatSessions.has(sessionId)) {
-        chatSessions.delete(sessionId);
-        console.log(`Removed chat session for ID: ${sessionId}`);
-    }
+const runToolCall = async (call: FunctionCall, fallbackId: string, onToolCall: (call: ToolCall) => void): Promise<Part> => {
+  const response = await runChatTool(call.id ?? fallbackId, call.name ?? '', call.args ?? {}, onToolCall);
+  return { functionResponse: { id: call.id, name: call.name, response } };
 };
 
 /**
- * Interface for the structured response from a grounded (web-searched) query.
- */
-interface GroundedResponse {
-    /** The textual response from the AI. */
-    text: string;
-    /** An array of web sources used to generate the response. */
-    sources: GroundingChunk[];
-}
-
-/**
- * Generates a mock grounded response for use when the API key is not available.
+ * Streams a mock grounded response for use when the API key is not available.
  * @param {string} prompt - The user's input prompt.
+ * @param {(text: string) => void} onText - Callback for each piece of the response.
+ * @param {AbortSignal} [signal] - A signal that stops the stream.
  * @returns {Promise<GroundedResponse>} A promise that resolves to a mock grounded response.
  */
-const generateMockGroundedResponse = async (prompt: string): Promise<GroundedResponse> => {
+const streamMockGroundedResponse = async (prompt: string, onText: (text: string) => void, signal?: AbortSignal): Promise<GroundedResponse> => {
     await new Promise(resolve => setTimeout(resolve, 1000));
+    const text = `This is a mock grounded response for "${prompt}". Web search is not available without an API key. I would normally search the web for real-time crypto market data to answer this.`;
+    for await (const chunk of streamMockText(text, signal)) {
+        onText(chunk.text);
+    }
     return {
-        text: `This is a mock grounded response for "${prompt}". Web search is not available without an API key. I would normally search the web for real-time crypto market data to answer this.`,
+        text,
         sources: [
             { web: { uri: 'https://mock.dev/source1', title: 'Mock Source 1: Real-Time Crypto News' } },
             { web: { uri: 'https://mock.dev/source2', title: 'Mock Source 2: Market Analysis Today' } },
@@ -134,27 +138,139 @@ const generateMockGroundedResponse = async (prompt: string): Promise<GroundedRes
 };
 
 /**
- * Generates a response from the Gemini API using Google Search for grounding.
- * This is used for queries that require up-to-date, real-time information from the web.
- * If no API key is available, it returns a mock response.
- * @param {string} prompt - The user's prompt.
- * @returns {Promise<GroundedResponse>} A promise that resolves to the AI's response and its sources.
+ * Generates a mock structured analysis for use when the API key is not available.
+ * @returns {Promise<StructuredAnalysis>} A promise that resolves to a mock analysis.
+ */
+const generateMockStructuredAnalysis = async (): Promise<StructuredAnalysis> => {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    return {
+        summary: 'This is a mock structured analysis. The API key is not configured, so these figures are simulated.',
+        sentimentScore: Math.round(Math.random() * 120 - 60),
+        trend: (['uptrend', 'downtrend', 'sideways'] as const)[Math.floor(Math.random() * 3)],
+        supportLevels: [],
+        resistanceLevels: [],
+        indicators: [
+            { name: 'RSI 14', value: '55 (mock)', signal: 'neutral' },
+            { name: 'MACD 12/26/9', value: 'Above signal line (mock)', signal: 'bullish' },
+        ],
+        bullCase: { summary: 'A mock bullish scenario.', targetPrice: null },
+        bearCase: { summary: 'A mock bearish scenario.', targetPrice: null },
+        confidence: 20,
+        horizon: 'medium',
+    };
+};
+
+/**
+ * The Gemini provider. Without an API key it falls back to mock responses, so the app works offline.
  */
-export const generateGroundedResponse = async (prompt: string): Promise<GroundedResponse> => {
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  isConfigured: true,
+  securityWarning: null,
+  supportsGrounding: true,
+  historyTokenBudget: GEMINI_HISTORY_TOKEN_BUDGET,
+
+  listModels: async () => GEMINI_MODELS,
+
+  /**
+   * Starts a chat. When the model calls tools, they are executed in the browser and their results
+   * sent back, and the model's follow-up is streamed in turn, until it answers without calling any more tools.
+   */
+  createChat: (options) => {
+    const chat = API_KEY ? createRealChat(options) : createMockChat();
+    const config = buildChatConfig(options);
+    return {
+      streamMessage: async (message, handlers, signal) => {
+        let request: string | Part[] = message;
+
+        for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+          const stream = await chat.sendMessageStream({ message: request, config: { ...config, abortSignal: signal } });
+          const calls: FunctionCall[] = [];
+          for await (const chunk of stream) {
+            signal?.throwIfAborted();
+            const text = getChunkText(chunk);
+            if (text) handlers.onText(text);
+            calls.push(...(chunk.functionCalls ?? []));
+          }
+          if (calls.length === 0) return;
+          if (round === MAX_TOOL_ROUNDS) {
+            console.warn(`Gemini chat exceeded ${MAX_TOOL_ROUNDS} rounds of tool calls. Stopping.`);
+            return;
+          }
+          request = await Promise.all(calls.map((call, i) => runToolCall(call, `${Date.now()}-${round}-${i}`, handlers.onToolCall)));
+          signal?.throwIfAborted();
+        }
+      },
+    };
+  },
+
+  generateText: async (prompt, { model, systemInstruction, signal }) => {
     if (!ai) {
-        return generateMockGroundedResponse(prompt);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return `This is a mock analysis for "${prompt.split('\n')[0]}". The API key is not configured, so this is simulated data.`;
     }
-    
+
     const response: GenerateContentResponse = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-          tools: [{googleSearch: {}}],
-        },
+      model,
+      contents: prompt,
+      config: { systemInstruction, abortSignal: signal },
+    });
+
+    return response.text ?? '';
+  },
+
+  /**
+   * Streams a response using Google Search for grounding, for queries that require up-to-date,
+   * real-time information from the web. The sources arrive with the final chunks.
+   */
+  streamGrounded: async (prompt, { model, signal }, onText) => {
+    if (!ai) {
+      return streamMockGroundedResponse(prompt, onText, signal);
+    }
+
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        abortSignal: signal,
+      },
     });
 
-    const text = response.text;
-    const sources = (response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[]) || [];
+    let text = '';
+    let sources: GroundingChunk[] = [];
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const chunkText = getChunkText(chunk);
+      if (chunkText) {
+        text += chunkText;
+        onText(chunkText);
+      }
+      const chunkSources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+      if (chunkSources && chunkSources.length > 0) sources = chunkSources;
+    }
 
     return { text, sources };
-};
\ No newline at end of file
+  },
+
+  generateStructured: async (prompt, schema, { model, systemInstruction, signal }) => {
+    // Structured analyses are the only structured output the app requests, so the mock simulates one.
+    if (!ai) {
+      return JSON.stringify(await generateMockStructuredAnalysis());
+    }
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema: schema,
+        abortSignal: signal,
+      },
+    });
+
+    return response.text ?? '';
+  },
+};
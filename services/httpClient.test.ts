@@ -0,0 +1,54 @@
+/**
+ * @file Unit tests for the HTTP client's handling of failed responses: which of them are retried, and which
+ * put a proxy on cooldown or count toward the circuit breaker.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHttpClient, HttpStatusError, ProxyExhaustedError } from './httpClient';
+
+/**
+ * Replaces `fetch` with a stub that answers every request with the given status.
+ * @param {number} status - The HTTP status to answer with.
+ * @returns {ReturnType<typeof vi.fn>} The stub, to count its calls.
+ */
+const stubFetchStatus = (status: number) => {
+  const fetchStub = vi.fn(async () => new Response(JSON.stringify({ code: -1121, msg: 'Invalid symbol.' }), { status }));
+  vi.stubGlobal('fetch', fetchStub);
+  return fetchStub;
+};
+
+describe('createHttpClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('throws client errors to the caller without retrying or penalising the proxy or the circuit breaker', async () => {
+    const fetchStub = stubFetchStatus(400);
+    const client = createHttpClient({ name: 'ClientErrors', direct: true, policy: { failureThreshold: 1 } });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(client.fetchJson(`https://api.example.com/pair-${i}`)).rejects.toBeInstanceOf(HttpStatusError);
+    }
+
+    expect(fetchStub).toHaveBeenCalledTimes(3);
+    expect(client.getCircuitState()).toEqual({ failureCount: 0, trippedUntil: 0 });
+    expect(client.getDiagnostics().proxies[0].cooldownUntil).toBe(0);
+  });
+
+  it('reports the status of a refused request', async () => {
+    stubFetchStatus(404);
+    const client = createHttpClient({ name: 'NotFound', direct: true });
+    await expect(client.fetchJson('https://api.example.com/coins/unknown')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('puts the proxy on cooldown and counts a failure after server errors', async () => {
+    const fetchStub = stubFetchStatus(503);
+    const client = createHttpClient({ name: 'ServerErrors', direct: true, policy: { retriesPerProxy: 2, backoffBaseMs: 0 } });
+
+    await expect(client.fetchJson('https://api.example.com/markets')).rejects.toBeInstanceOf(ProxyExhaustedError);
+
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitState().failureCount).toBe(1);
+    expect(client.getDiagnostics().proxies[0].cooldownUntil).toBeGreaterThan(Date.now());
+  });
+});
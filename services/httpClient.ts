@@ -0,0 +1,508 @@
+/**
+ * @file This module provides the shared, resilient HTTP transport used by the data services
+ * (`coingeckoService` and `newsService`). It centralises the logic that was previously
+ * duplicated in each service:
+ * 1.  **Proxy Rotation:** Requests are routed through a shared list of public CORS proxies.
+ * 2.  **Shared Proxy Health:** Proxy cooldowns and the last working proxy are tracked once,
+ *     so a proxy that fails for one service is skipped by all of them.
+ * 3.  **Per-Host Policies:** Each client has its own retries, backoff, request timeout,
+ *     blacklist duration and circuit-breaker thresholds.
+ * 4.  **Circuit Breaker:** Each client trips independently after repeated failures.
+ * 5.  **Typed Errors:** Failures surface as `CircuitOpenError`, `RateLimitedError` or
+ *     `ProxyExhaustedError` so callers can react to the cause.
+ * 6.  **Request Scheduling:** Identical in-flight requests are coalesced, and clients with a
+ *     rate limit queue their requests by priority (see `requestScheduler`).
+ * 7.  **Diagnostics:** Per-proxy success rates, latencies and last errors, the breaker state and a
+ *     rolling log of request attempts are recorded for the diagnostics panel.
+ */
+
+import { createRequestScheduler } from './requestScheduler';
+import type { RateLimitConfig, RequestPriority, SchedulerMetrics } from './requestScheduler';
+
+/** A CORS proxy service used to route API requests. */
+interface Proxy {
+  name: string;
+  buildUrl: (target: string) => string;
+}
+
+/** A list of CORS proxy services to use for API requests. */
+const PROXIES: Proxy[] = [
+  { name: 'AllOrigins', buildUrl: (target: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(target)}` },
+  { name: 'ThingProxy', buildUrl: (target: string) => `https://thingproxy.freeboard.io/fetch/${target}` },
+  { name: 'CORSProxy.io', buildUrl: (target: string) => `https://corsproxy.io/?${encodeURIComponent(target)}` },
+];
+
+/** A pass-through "proxy" for hosts that serve CORS headers and can be called directly. */
+const DIRECT: Proxy = { name: 'Direct', buildUrl: (target: string) => target };
+
+// --- Shared Proxy Health State ---
+let lastWorkingProxyIndex = 0;
+/** A map to temporarily blacklist failing proxies, shared by every client. */
+const proxyBlacklist = new Map<string, number>();
+
+// --- Diagnostics ---
+
+/** The outcome of a single request attempt, as recorded in the request log. */
+export type RequestOutcome = 'success' | 'error' | 'rate-limited' | 'circuit-open' | 'cooldown';
+
+/**
+ * An entry of the rolling request log.
+ */
+export interface RequestLogEntry {
+  /** A sequence number, unique for the lifetime of the page. */
+  id: number;
+  /** When the attempt started. */
+  timestamp: number;
+  /** The name of the client that made the attempt (e.g., 'CoinGecko'). */
+  client: string;
+  /** The proxy the attempt went through, or null if it never reached one. */
+  proxy: string | null;
+  /** The upstream URL. */
+  url: string;
+  outcome: RequestOutcome;
+  /** The HTTP status, if a response was received. */
+  status?: number;
+  /** How long the attempt took. */
+  durationMs: number;
+  /** The error message for failed attempts. */
+  message?: string;
+}
+
+/**
+ * The health of a single proxy, as seen by one client.
+ */
+export interface ProxyDiagnostics {
+  /** The key the proxy's cooldown is stored under; pass it to `resetProxyCooldown`. */
+  id: string;
+  /** The proxy's display name. */
+  name: string;
+  /** The number of attempts made through the proxy. */
+  attempts: number;
+  /** The number of attempts that succeeded. */
+  successes: number;
+  /** The share of successful attempts (0-1), or null before the first attempt. */
+  successRate: number | null;
+  /** Latency percentiles of recent successful attempts in milliseconds, or null before the first success. */
+  latency: { p50: number; p90: number; p99: number } | null;
+  /** The most recent failure, if any. */
+  lastError: { message: string; at: number } | null;
+  /** The time until which the proxy is skipped (0 if it is not on cooldown). */
+  cooldownUntil: number;
+  /** Whether the proxy is tried first because it answered last. */
+  isLastWorking: boolean;
+}
+
+/**
+ * A snapshot of a client's health for the diagnostics panel.
+ */
+export interface ClientDiagnostics {
+  name: string;
+  /** The circuit breaker's state and threshold. */
+  circuit: CircuitState & { isOpen: boolean; failureThreshold: number };
+  proxies: ProxyDiagnostics[];
+}
+
+/** The number of entries kept in the rolling request log. */
+const REQUEST_LOG_SIZE = 200;
+/** The number of recent latencies kept per proxy for the percentiles. */
+const LATENCY_SAMPLE_SIZE = 100;
+
+const requestLog: RequestLogEntry[] = [];
+let requestLogSequence = 0;
+
+/**
+ * Appends an entry to the rolling request log, dropping the oldest entry once it is full.
+ * @param {Omit<RequestLogEntry, 'id'>} entry - The entry to record.
+ */
+const logRequest = (entry: Omit<RequestLogEntry, 'id'>) => {
+  requestLog.push({ id: requestLogSequence++, ...entry });
+  if (requestLog.length > REQUEST_LOG_SIZE) requestLog.shift();
+};
+
+/**
+ * Returns the rolling log of request attempts made by every client.
+ * @returns {RequestLogEntry[]} The entries, newest first.
+ */
+export const getRequestLog = (): RequestLogEntry[] => [...requestLog].reverse();
+
+/** Empties the rolling request log. */
+export const clearRequestLog = () => {
+  requestLog.length = 0;
+};
+
+/**
+ * Takes a proxy off cooldown, so every client tries it again on its next request.
+ * @param {string} proxyId - The proxy's cooldown key (`ProxyDiagnostics.id`).
+ */
+export const resetProxyCooldown = (proxyId: string) => {
+  proxyBlacklist.delete(proxyId);
+};
+
+/**
+ * Returns the nearest-rank percentile of a set of samples.
+ * @param {number[]} sorted - The samples, sorted ascending.
+ * @param {number} percentile - The percentile (0-100).
+ * @returns {number} The percentile value.
+ */
+const getPercentile = (sorted: number[], percentile: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1))];
+
+/**
+ * HTTP status codes that mean the request itself was refused (e.g., a 400 for an unknown trading pair).
+ * No retry or other proxy will fix them, and they say nothing about the proxy's or the API's health.
+ */
+const CLIENT_ERROR_STATUSES = [400, 401, 403, 404];
+
+/**
+ * The retry, timeout and circuit-breaker policy for a single API host.
+ */
+export interface HostPolicy {
+  /** The number of attempts made through each proxy before moving to the next. */
+  retriesPerProxy: number;
+  /** The base delay between attempts; it doubles after each failed attempt. */
+  backoffBaseMs: number;
+  /** The time after which a single request is aborted. */
+  timeoutMs: number;
+  /** How long a proxy is skipped after all of its attempts failed. */
+  blacklistDurationMs: number;
+  /** The number of consecutive failed requests that trips the circuit breaker. */
+  failureThreshold: number;
+  /** How long the circuit breaker stays open once tripped. */
+  circuitTripDurationMs: number;
+}
+
+/** The policy used for any setting a client does not override. */
+export const DEFAULT_HOST_POLICY: HostPolicy = {
+  retriesPerProxy: 2,
+  backoffBaseMs: 500,
+  timeoutMs: 10 * 1000, // 10 seconds
+  blacklistDurationMs: 60 * 1000, // 1 minute
+  failureThreshold: 3,
+  circuitTripDurationMs: 2 * 60 * 1000, // 2 minutes
+};
+
+/**
+ * Thrown when a request is attempted while the client's circuit breaker is open.
+ */
+export class CircuitOpenError extends Error {
+  /** The timestamp at which the circuit breaker will close again. */
+  readonly retryAt: number;
+
+  constructor(clientName: string, retryAt: number) {
+    const timeLeft = Math.ceil((retryAt - Date.now()) / 1000);
+    super(`[${clientName}] Circuit breaker is open. Retrying in ${timeLeft}s.`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Thrown when the upstream API (or a proxy) reports that we are being rate limited.
+ */
+export class RateLimitedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Thrown when the API refuses a request with a client-error status (e.g., a 404 for an unknown coin).
+ */
+export class HttpStatusError extends Error {
+  /** The HTTP status of the response. */
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown when every available proxy has failed or is on cooldown.
+ */
+export class ProxyExhaustedError extends Error {
+  constructor(message: string, cause?: Error) {
+    super(message, { cause });
+    this.name = 'ProxyExhaustedError';
+  }
+}
+
+/**
+ * The current state of a client's circuit breaker.
+ */
+export interface CircuitState {
+  /** The number of consecutive failed requests. */
+  failureCount: number;
+  /** A timestamp until which the circuit breaker is open (0 when closed). */
+  trippedUntil: number;
+}
+
+/**
+ * Configuration for creating an HTTP client.
+ */
+export interface HttpClientConfig {
+  /** A short name for the client, used in log messages and errors (e.g., 'CoinGecko'). */
+  name: string;
+  /** Overrides for the default host policy. */
+  policy?: Partial<HostPolicy>;
+  /** Whether the host supports CORS and should be called directly instead of through the proxies. */
+  direct?: boolean;
+  /**
+   * An optional hook to inspect a parsed response body for API-level errors.
+   * It should throw a `RateLimitedError` for rate limits (the next proxy is tried)
+   * or any other error for failures that are worth retrying.
+   */
+  inspectResponse?: (data: any, proxyName: string) => void;
+  /** An optional requests-per-minute budget; requests beyond it wait in a priority queue. */
+  rateLimit?: RateLimitConfig;
+}
+
+/**
+ * Options for a single request.
+ */
+export interface RequestOptions {
+  /** The request's priority in the client's queue; defaults to 'user'. */
+  priority?: RequestPriority;
+}
+
+/**
+ * A resilient HTTP client bound to a single host policy and circuit breaker.
+ */
+export interface HttpClient {
+  /** Fetches a URL through the proxies and resolves with its parsed JSON body. */
+  fetchJson: (url: string, options?: RequestOptions) => Promise<any>;
+  /** Returns a snapshot of the client's circuit-breaker state. */
+  getCircuitState: () => CircuitState;
+  /** Returns true if the circuit breaker is currently open. */
+  isCircuitOpen: () => boolean;
+  /** Closes the circuit breaker and clears the failure count. */
+  resetCircuit: () => void;
+  /** Returns a snapshot of the client's request queue and rate-limit budget. */
+  getSchedulerMetrics: () => SchedulerMetrics;
+  /** Changes (or, with null, removes) the client's rate limit. */
+  setRateLimit: (rateLimit: RateLimitConfig | null) => void;
+  /** Returns a snapshot of the client's proxy health and breaker state. */
+  getDiagnostics: () => ClientDiagnostics;
+}
+
+/**
+ * Unwraps proxy envelopes (e.g., AllOrigins' `{ contents }`) into the upstream JSON body.
+ * @param {any} data - The parsed proxy response.
+ * @returns {any} The upstream response body.
+ */
+const unwrapProxyResponse = (data: any): any => {
+  if (data && typeof data === 'object' && 'contents' in data) {
+    try { return JSON.parse(data.contents); } catch (e) { return data.contents; }
+  }
+  return data;
+};
+
+/**
+ * Performs a single fetch that is aborted if it exceeds the given timeout.
+ * @param {string} url - The URL to fetch.
+ * @param {number} timeoutMs - The timeout in milliseconds.
+ * @returns {Promise<Response>} The fetch response.
+ */
+const fetchWithTimeout = async (url: string, timeoutMs: number): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(`Request timed out after ${timeoutMs / 1000}s.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Creates a resilient HTTP client with its own host policy and circuit breaker.
+ * Proxy health is shared between all clients created by this module.
+ * @param {HttpClientConfig} config - The client configuration.
+ * @returns {HttpClient} The configured client.
+ */
+export const createHttpClient = (config: HttpClientConfig): HttpClient => {
+  const { name, inspectResponse, direct = false } = config;
+  const policy: HostPolicy = { ...DEFAULT_HOST_POLICY, ...config.policy };
+  let failureCount = 0;
+  let circuitTrippedUntil = 0;
+  const scheduler = createRequestScheduler(config.rateLimit ?? null);
+  const proxyStats = new Map<string, { attempts: number; successes: number; latencies: number[]; lastError: { message: string; at: number } | null }>();
+  // Direct clients get their own cooldown slot, since their health says nothing about the proxies.
+  const clientProxies = direct ? [{ ...DIRECT, name: `${name}:${DIRECT.name}`, originalIndex: -1 }] : PROXIES.map((p, i) => ({ ...p, originalIndex: i }));
+
+  /**
+   * Records the result of an attempt through a proxy in its statistics and the request log.
+   * @param {string} proxyName - The proxy's cooldown key.
+   * @param {string} url - The upstream URL.
+   * @param {number} startedAt - When the attempt started.
+   * @param {{ outcome: RequestOutcome, status?: number, message?: string }} result - How the attempt ended.
+   */
+  const recordAttempt = (
+    proxyName: string,
+    url: string,
+    startedAt: number,
+    result: { outcome: RequestOutcome; status?: number; message?: string }
+  ) => {
+    const durationMs = Date.now() - startedAt;
+    const stats = proxyStats.get(proxyName) ?? { attempts: 0, successes: 0, latencies: [], lastError: null };
+    stats.attempts++;
+    if (result.outcome === 'success') {
+      stats.successes++;
+      stats.latencies.push(durationMs);
+      if (stats.latencies.length > LATENCY_SAMPLE_SIZE) stats.latencies.shift();
+    } else {
+      stats.lastError = { message: result.message ?? result.outcome, at: Date.now() };
+    }
+    proxyStats.set(proxyName, stats);
+    logRequest({ timestamp: startedAt, client: name, proxy: proxyName, url, durationMs, ...result });
+  };
+
+  /** Records a failed request and trips the circuit breaker once the threshold is reached. */
+  const recordFailure = () => {
+    failureCount++;
+    if (failureCount >= policy.failureThreshold) {
+      circuitTrippedUntil = Date.now() + policy.circuitTripDurationMs;
+      failureCount = 0;
+      console.error(`[${name}] Circuit breaker tripped for ${policy.circuitTripDurationMs / 1000}s due to repeated failures.`);
+    }
+  };
+
+  /**
+   * Fetches a URL through the available proxies with retries and the circuit breaker.
+   * @param {string} url - The full upstream URL to fetch.
+   * @throws {CircuitOpenError} If the circuit breaker is open.
+   * @throws {ProxyExhaustedError} If all proxies failed or are on cooldown.
+   * @throws {HttpStatusError} If the API refused the request with a client-error status.
+   * @returns {Promise<any>} A promise that resolves with the JSON data from the API.
+   */
+  const fetchThroughProxies = async (url: string): Promise<any> => {
+    if (Date.now() < circuitTrippedUntil) {
+      const error = new CircuitOpenError(name, circuitTrippedUntil);
+      logRequest({ timestamp: Date.now(), client: name, proxy: null, url, outcome: 'circuit-open', durationMs: 0, message: error.message });
+      throw error;
+    }
+
+    let lastError: Error | undefined;
+
+    const availableProxies = [...clientProxies]
+      .sort((a, b) => a.originalIndex === lastWorkingProxyIndex ? -1 : 1) // Prioritize last working proxy
+      .filter(proxy => {
+        const blacklistedUntil = proxyBlacklist.get(proxy.name);
+        if (blacklistedUntil && Date.now() < blacklistedUntil) {
+          console.log(`[${name}] Proxy ${proxy.name} is on cooldown. Skipping.`);
+          return false;
+        }
+        return true;
+      });
+
+    if (availableProxies.length === 0) {
+      recordFailure();
+      const error = new ProxyExhaustedError('All proxies are on cooldown. Please wait a moment before retrying.');
+      logRequest({ timestamp: Date.now(), client: name, proxy: null, url, outcome: 'cooldown', durationMs: 0, message: error.message });
+      throw error;
+    }
+
+    for (const proxy of availableProxies) {
+      const proxyUrl = proxy.buildUrl(url);
+
+      for (let attempt = 0; attempt < policy.retriesPerProxy; attempt++) {
+        const startedAt = Date.now();
+        let status: number | undefined;
+        try {
+          const response = await fetchWithTimeout(proxyUrl, policy.timeoutMs);
+          status = response.status;
+          if (!response.ok) {
+            if (response.status === 429) throw new RateLimitedError(`Proxy ${proxy.name} returned status: 429`);
+            if (CLIENT_ERROR_STATUSES.includes(response.status)) {
+              throw new HttpStatusError(`Proxy ${proxy.name} returned status: ${response.status}`, response.status);
+            }
+            throw new Error(`Proxy ${proxy.name} returned status: ${response.status}`);
+          }
+
+          const data = unwrapProxyResponse(await response.json());
+          inspectResponse?.(data, proxy.name);
+
+          recordAttempt(proxy.name, url, startedAt, { outcome: 'success', status });
+          if (!direct) lastWorkingProxyIndex = proxy.originalIndex;
+          proxyBlacklist.delete(proxy.name);
+          failureCount = 0;
+          circuitTrippedUntil = 0;
+          return data;
+        } catch (error: any) {
+          lastError = error;
+          recordAttempt(proxy.name, url, startedAt, {
+            outcome: error instanceof RateLimitedError ? 'rate-limited' : 'error',
+            status,
+            message: error.message,
+          });
+          if (error instanceof HttpStatusError) {
+            // The request itself was refused, so neither the proxy nor the circuit breaker is penalised.
+            console.warn(`[${name}] Request refused with status ${error.status} via proxy ${proxy.name}:`, url);
+            throw error;
+          }
+          if (error instanceof RateLimitedError) {
+            console.warn(`[${name}] Rate limited via proxy ${proxy.name}. Trying next proxy.`);
+            break;
+          }
+          console.warn(`[${name}] Attempt ${attempt + 1}/${policy.retriesPerProxy} with proxy ${proxy.name} failed:`, error.message);
+          if (attempt < policy.retriesPerProxy - 1) {
+            await new Promise(resolve => setTimeout(resolve, policy.backoffBaseMs * 2 ** attempt));
+          }
+        }
+      }
+
+      console.warn(`[${name}] All retries failed for proxy ${proxy.name}. Placing it on cooldown for ${policy.blacklistDurationMs / 1000}s.`);
+      proxyBlacklist.set(proxy.name, Date.now() + policy.blacklistDurationMs);
+    }
+
+    recordFailure();
+    if (lastError instanceof RateLimitedError) throw lastError;
+    throw new ProxyExhaustedError(lastError?.message || 'All data sources are currently unavailable.', lastError);
+  };
+
+  return {
+    fetchJson: (url, options = {}) => scheduler.schedule(url, () => fetchThroughProxies(url), options.priority),
+    getCircuitState: () => ({ failureCount, trippedUntil: circuitTrippedUntil }),
+    isCircuitOpen: () => Date.now() < circuitTrippedUntil,
+    resetCircuit: () => {
+      failureCount = 0;
+      circuitTrippedUntil = 0;
+    },
+    getSchedulerMetrics: scheduler.getMetrics,
+    setRateLimit: scheduler.setRateLimit,
+    getDiagnostics: () => ({
+      name,
+      circuit: {
+        failureCount,
+        trippedUntil: circuitTrippedUntil,
+        isOpen: Date.now() < circuitTrippedUntil,
+        failureThreshold: policy.failureThreshold,
+      },
+      proxies: clientProxies.map((proxy): ProxyDiagnostics => {
+        const stats = proxyStats.get(proxy.name);
+        const latencies = stats ? [...stats.latencies].sort((a, b) => a - b) : [];
+        const cooldownUntil = proxyBlacklist.get(proxy.name) ?? 0;
+        return {
+          id: proxy.name,
+          name: direct ? DIRECT.name : proxy.name,
+          attempts: stats?.attempts ?? 0,
+          successes: stats?.successes ?? 0,
+          successRate: stats && stats.attempts > 0 ? stats.successes / stats.attempts : null,
+          latency: latencies.length > 0
+            ? { p50: getPercentile(latencies, 50), p90: getPercentile(latencies, 90), p99: getPercentile(latencies, 99) }
+            : null,
+          lastError: stats?.lastError ?? null,
+          cooldownUntil: cooldownUntil > Date.now() ? cooldownUntil : 0,
+          isLastWorking: !direct && proxy.originalIndex === lastWorkingProxyIndex,
+        };
+      }),
+    }),
+  };
+};
\ No newline at end of file
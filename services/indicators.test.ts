@@ -0,0 +1,112 @@
+/**
+ * @file Unit tests for the technical indicators, checked against hand-computed and published reference values.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { sma, ema, bollingerBands, rsi, macd } from './indicators';
+
+/** Closing prices from Wilder's RSI example, as worked through in StockCharts' RSI guide. */
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+  45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+];
+
+/**
+ * Asserts that a series matches the expected values to a number of decimal places, with nulls in the same places.
+ * @param {(number | null)[]} actual - The computed series.
+ * @param {(number | null)[]} expected - The reference series.
+ * @param {number} [digits] - The decimal places compared.
+ */
+const expectSeries = (actual: (number | null)[], expected: (number | null)[], digits = 6) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) expect(actual[i]).toBeNull();
+    else expect(actual[i]).toBeCloseTo(value, digits);
+  });
+};
+
+describe('sma', () => {
+  it('averages the last `period` points, with nulls while warming up', () => {
+    expectSeries(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+  });
+
+  it('returns only nulls for a series shorter than the period', () => {
+    expect(sma([1, 2], 3)).toEqual([null, null]);
+  });
+
+  it('rejects periods that are not positive integers', () => {
+    expect(() => sma([1, 2, 3], 0)).toThrow(RangeError);
+    expect(() => sma([1, 2, 3], 1.5)).toThrow(RangeError);
+  });
+});
+
+describe('ema', () => {
+  it('is seeded with the SMA of the first `period` points', () => {
+    // k = 2 / (3 + 1) = 0.5: seed (2 + 4 + 6) / 3 = 4, then 8 * 0.5 + 4 * 0.5 = 6, then 12 * 0.5 + 6 * 0.5 = 9.
+    expectSeries(ema([2, 4, 6, 8, 12], 3), [null, null, 4, 6, 9]);
+  });
+});
+
+describe('bollingerBands', () => {
+  it('places the bands `stdDevs` population standard deviations around the SMA', () => {
+    const bands = bollingerBands([1, 2, 3, 4, 5], 3, 2);
+    expect(bands.slice(0, 2)).toEqual([null, null]);
+    const offset = 2 * Math.sqrt(2 / 3);
+    expect(bands[2]!.middle).toBeCloseTo(2);
+    expect(bands[2]!.upper).toBeCloseTo(2 + offset);
+    expect(bands[2]!.lower).toBeCloseTo(2 - offset);
+  });
+
+  it('collapses onto the SMA for a flat series', () => {
+    expect(bollingerBands([5, 5, 5], 3, 2)[2]).toEqual({ upper: 5, middle: 5, lower: 5 });
+  });
+});
+
+describe('rsi', () => {
+  it("matches Wilder's reference values", () => {
+    expectSeries(
+      rsi(WILDER_CLOSES, 14),
+      [...Array(14).fill(null), 70.4641, 66.2496, 66.4809, 69.3469, 66.2947, 57.915],
+      3
+    );
+  });
+
+  it('is 50 for a flat series', () => {
+    expectSeries(rsi(Array(20).fill(10), 14), [...Array(14).fill(null), ...Array(6).fill(50)]);
+  });
+
+  it('is 100 for a rising series and 0 for a falling one', () => {
+    const rising = Array.from({ length: 16 }, (_, i) => i + 1);
+    expect(rsi(rising, 14).slice(14)).toEqual([100, 100]);
+    expect(rsi([...rising].reverse(), 14).slice(14)).toEqual([0, 0]);
+  });
+
+  it('returns only nulls until there are more points than the period', () => {
+    expect(rsi(Array(14).fill(10), 14)).toEqual(Array(14).fill(null));
+  });
+});
+
+describe('macd', () => {
+  it('computes the MACD line, signal and histogram', () => {
+    // Fast EMA(2): -, 2, 2, 4, 4, 5.333; slow EMA(3): -, -, 2, 3.5, 3.75, 4.875.
+    const result = macd([1, 3, 2, 5, 4, 6], 2, 3, 2);
+    expectSeries(result.map(point => point?.macd ?? null), [null, null, 0, 0.5, 0.25, 0.458333]);
+    expectSeries(result.map(point => point?.signal ?? null), [null, null, null, 0.25, 0.25, 0.388889]);
+    expectSeries(result.map(point => point?.histogram ?? null), [null, null, null, 0.25, 0, 0.069444]);
+  });
+
+  it('aligns the signal line with the first defined MACD value', () => {
+    const values = Array.from({ length: 60 }, (_, i) => 100 + 10 * Math.sin(i / 5));
+    const result = macd(values, 12, 26, 9);
+    expect(result).toHaveLength(values.length);
+    // The MACD line starts once the slow EMA is seeded, and the signal line `signalPeriod - 1` points later.
+    expect(result.findIndex(point => point !== null)).toBe(25);
+    expect(result.findIndex(point => point?.signal != null)).toBe(25 + 8);
+    expect(result[32]!.histogram).toBeNull();
+    expect(result[33]!.histogram).toBeCloseTo(result[33]!.macd - result[33]!.signal!);
+  });
+
+  it('returns only nulls when the series is shorter than the slow period', () => {
+    expect(macd([1, 2, 3], 12, 26, 9)).toEqual([null, null, null]);
+  });
+});
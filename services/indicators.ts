@@ -0,0 +1,185 @@
+/**
+ * @file This module implements the technical indicators drawn on the price charts.
+ * Every function is pure: it takes a price series (oldest first) and returns a series of the same
+ * length, with `null` for the leading points that do not have enough history yet. This keeps the
+ * results aligned index-for-index with the chart data they are computed from.
+ *
+ * Supported indicators:
+ * 1.  **SMA / EMA:** Simple and exponential moving averages.
+ * 2.  **Bollinger Bands:** An SMA with bands a number of standard deviations above and below it.
+ * 3.  **RSI:** The relative strength index, using Wilder's smoothing.
+ * 4.  **MACD:** The difference of a fast and a slow EMA, with its signal line and histogram.
+ */
+
+import type { IndicatorType } from '../types';
+
+/** A point of the Bollinger Bands series. */
+export interface BollingerPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/** A point of the MACD series. */
+export interface MacdPoint {
+  /** The fast EMA minus the slow EMA. */
+  macd: number;
+  /** The EMA of the MACD line; null until it has enough history. */
+  signal: number | null;
+  /** The MACD line minus the signal line; null while the signal is. */
+  histogram: number | null;
+}
+
+/** Display metadata for an indicator. */
+export interface IndicatorInfo {
+  id: IndicatorType;
+  /** A short label for toggles and legends (e.g., 'SMA 20'). */
+  label: string;
+  /** Whether the indicator is drawn over the price ('overlay') or in its own sub-pane ('pane'). */
+  placement: 'overlay' | 'pane';
+}
+
+/** The parameters used for each indicator on the charts. */
+export const INDICATOR_PARAMS = {
+  sma: { period: 20 },
+  ema: { period: 20 },
+  bollinger: { period: 20, stdDevs: 2 },
+  rsi: { period: 14 },
+  macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+};
+
+/** Every indicator that can be enabled on a chart, in display order. */
+export const INDICATORS: IndicatorInfo[] = [
+  { id: 'sma', label: `SMA ${INDICATOR_PARAMS.sma.period}`, placement: 'overlay' },
+  { id: 'ema', label: `EMA ${INDICATOR_PARAMS.ema.period}`, placement: 'overlay' },
+  { id: 'bollinger', label: 'BB', placement: 'overlay' },
+  { id: 'rsi', label: 'RSI', placement: 'pane' },
+  { id: 'macd', label: 'MACD', placement: 'pane' },
+];
+
+/**
+ * Throws if a period is not a positive integer.
+ * @param {number} period - The period to validate.
+ */
+const assertPeriod = (period: number) => {
+  if (!Number.isInteger(period) || period < 1) throw new RangeError(`Invalid indicator period: ${period}`);
+};
+
+/**
+ * Computes the simple moving average.
+ * @param {number[]} values - The price series, oldest first.
+ * @param {number} period - The number of points averaged.
+ * @returns {(number | null)[]} The SMA, null for the first `period - 1` points.
+ */
+export const sma = (values: number[], period: number): (number | null)[] => {
+  assertPeriod(period);
+  const result: (number | null)[] = [];
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  });
+  return result;
+};
+
+/**
+ * Computes the exponential moving average, seeded with the SMA of the first `period` points.
+ * @param {number[]} values - The price series, oldest first.
+ * @param {number} period - The EMA period; the smoothing factor is `2 / (period + 1)`.
+ * @returns {(number | null)[]} The EMA, null for the first `period - 1` points.
+ */
+export const ema = (values: number[], period: number): (number | null)[] => {
+  assertPeriod(period);
+  const k = 2 / (period + 1);
+  const result: (number | null)[] = [];
+  let previous: number | null = null;
+  let seedSum = 0;
+  values.forEach((value, i) => {
+    if (i < period) {
+      seedSum += value;
+      if (i === period - 1) previous = seedSum / period;
+      result.push(previous);
+      return;
+    }
+    previous = value * k + (previous as number) * (1 - k);
+    result.push(previous);
+  });
+  return result;
+};
+
+/**
+ * Computes Bollinger Bands: an SMA with bands `stdDevs` population standard deviations away.
+ * @param {number[]} values - The price series, oldest first.
+ * @param {number} period - The SMA period.
+ * @param {number} stdDevs - The width of the bands in standard deviations.
+ * @returns {(BollingerPoint | null)[]} The bands, null for the first `period - 1` points.
+ */
+export const bollingerBands = (values: number[], period: number, stdDevs: number): (BollingerPoint | null)[] => {
+  const middle = sma(values, period);
+  return middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((acc, value) => acc + (value - mean) ** 2, 0) / period;
+    const offset = Math.sqrt(variance) * stdDevs;
+    return { upper: mean + offset, middle: mean, lower: mean - offset };
+  });
+};
+
+/**
+ * Computes the relative strength index with Wilder's smoothing.
+ * @param {number[]} values - The price series, oldest first.
+ * @param {number} period - The RSI period.
+ * @returns {(number | null)[]} The RSI (0-100), null for the first `period` points.
+ */
+export const rsi = (values: number[], period: number): (number | null)[] => {
+  assertPeriod(period);
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let averageGain = 0;
+  let averageLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) averageGain += change;
+    else averageLoss -= change;
+  }
+  averageGain /= period;
+  averageLoss /= period;
+
+  const toRsi = () => (averageLoss === 0 ? (averageGain === 0 ? 50 : 100) : 100 - 100 / (1 + averageGain / averageLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+/**
+ * Computes the MACD line, its signal line and the histogram.
+ * @param {number[]} values - The price series, oldest first.
+ * @param {number} fastPeriod - The period of the fast EMA.
+ * @param {number} slowPeriod - The period of the slow EMA.
+ * @param {number} signalPeriod - The period of the signal line's EMA.
+ * @returns {(MacdPoint | null)[]} The MACD, null until the slow EMA has enough history.
+ */
+export const macd = (values: number[], fastPeriod: number, slowPeriod: number, signalPeriod: number): (MacdPoint | null)[] => {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const macdLine = values.map((_, i) => (fast[i] !== null && slow[i] !== null ? (fast[i] as number) - (slow[i] as number) : null));
+
+  // The signal line is an EMA over the defined part of the MACD line.
+  const firstDefined = macdLine.findIndex(value => value !== null);
+  if (firstDefined === -1) return macdLine.map(() => null);
+  const signal = ema(macdLine.slice(firstDefined) as number[], signalPeriod);
+
+  return macdLine.map((value, i) => {
+    if (value === null) return null;
+    const signalValue = signal[i - firstDefined];
+    return { macd: value, signal: signalValue, histogram: signalValue === null ? null : value - signalValue };
+  });
+};
@@ -0,0 +1,453 @@
+/**
+ * @file This module defines the pluggable large language model (LLM) provider abstraction used by
+ * `aiService`, along with the adapter for OpenAI-compatible endpoints and a preset of it for a local
+ * Ollama server (the Gemini adapter lives in `geminiService`). Every provider supports:
+ * 1.  **Streaming Chat:** Multi-turn chats whose responses stream in, calling the market-data tools from
+ *     `chatTools` and sending their results back until the model answers. Responses can be aborted.
+ * 2.  **Grounded or Tool-Augmented Generation:** Providers that can search the web (Gemini) stream
+ *     grounded answers with their sources; the others answer with the market-data tools instead.
+ * 3.  **Structured Output:** Responses constrained to a JSON schema.
+ * Tool declarations and response schemas are written in Gemini's OpenAPI-style `Schema` format and
+ * converted to JSON Schema by the adapters that need it.
+ */
+
+import type { FunctionDeclaration, Schema } from '@google/genai';
+import type { GroundingChunk, LLMProviderId, ToolCall } from '../types';
+import { executeChatTool } from './chatTools';
+
+/** The most rounds of tool calls the model may make before answering a single message. */
+export const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Callbacks for following a chat response as it streams in.
+ */
+export interface ChatStreamHandlers {
+  /** Called with each new piece of the response text. */
+  onText: (text: string) => void;
+  /** Called when a tool call starts and again when it finishes or fails. */
+  onToolCall: (call: ToolCall) => void;
+}
+
+/**
+ * Interface for the structured response from a grounded (web-searched) query.
+ */
+export interface GroundedResponse {
+  /** The textual response from the AI. */
+  text: string;
+  /** An array of web sources used to generate the response. */
+  sources: GroundingChunk[];
+}
+
+/**
+ * A turn of an earlier conversation, replayed when a chat is started so the model remembers it.
+ */
+export interface ChatHistoryTurn {
+  /** Who wrote the turn. */
+  role: 'user' | 'model';
+  /** The turn's text. */
+  text: string;
+}
+
+/**
+ * Options for starting a chat with a provider.
+ */
+export interface LLMChatOptions {
+  /** The provider's name for the model. */
+  model: string;
+  /** The system instruction for the whole chat. */
+  systemInstruction: string;
+  /** The tools the model may call. */
+  tools: FunctionDeclaration[];
+  /** The earlier turns of the conversation, oldest first, starting with a user turn. */
+  history: ChatHistoryTurn[];
+}
+
+/**
+ * Options for a single generation request.
+ */
+export interface LLMGenerateOptions {
+  /** The provider's name for the model. */
+  model: string;
+  /** An optional system instruction for the request. */
+  systemInstruction?: string;
+  /** A signal that aborts the request. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A multi-turn chat with a model. The chat keeps its own history, including tool calls and results.
+ */
+export interface LLMChat {
+  /**
+   * Sends a message and streams the response, executing any tools the model calls along the way.
+   * The message and response are only added to the history once the response is complete.
+   * Aborting the signal stops the response and rejects the promise.
+   */
+  streamMessage: (message: string, handlers: ChatStreamHandlers, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * A source of LLM completions: streaming chat, grounded or tool-augmented generation and structured output.
+ */
+export interface LLMProvider {
+  /** A stable identifier for the provider. */
+  id: LLMProviderId;
+  /** The provider's display name (e.g., 'Ollama'). */
+  name: string;
+  /** Whether the provider is set up for use; unconfigured providers are not offered. */
+  isConfigured: boolean;
+  /** A caution to show when the provider's models are picked (e.g., that its API key is public), or null. */
+  securityWarning: string | null;
+  /** Whether the provider can ground responses in a web search (see `streamGrounded`). */
+  supportsGrounding: boolean;
+  /** The most tokens of earlier conversation to replay when a chat is started (see `chatHistory`). */
+  historyTokenBudget: number;
+  /** Lists the models the provider offers. */
+  listModels: () => Promise<string[]>;
+  /** Starts a new chat. */
+  createChat: (options: LLMChatOptions) => LLMChat;
+  /** Generates a free-form text response. */
+  generateText: (prompt: string, options: LLMGenerateOptions) => Promise<string>;
+  /**
+   * Streams a response grounded in a web search, passing each piece of its text to `onText`, and resolves
+   * to the full response with its sources. Only providers that support grounding implement this.
+   */
+  streamGrounded?: (prompt: string, options: LLMGenerateOptions, onText: (text: string) => void) => Promise<GroundedResponse>;
+  /** Generates a response constrained to a JSON schema and returns its JSON text. */
+  generateStructured: (prompt: string, schema: Schema, options: LLMGenerateOptions) => Promise<string>;
+}
+
+/**
+ * Thrown when an LLM endpoint rejects a request or returns an unusable response.
+ */
+export class LLMRequestError extends Error {
+  /** The HTTP status of the response, if one was received. */
+  status: number | null;
+
+  constructor(providerName: string, status: number | null, message: string) {
+    super(`[${providerName}] ${status !== null ? `HTTP ${status}: ` : ''}${message}`);
+    this.name = 'LLMRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Executes a tool call from the model, reporting its progress. Failures are returned as an error
+ * result for the model rather than thrown, so the response can continue.
+ * @param {string} id - The call's ID.
+ * @param {string} name - The name of the tool.
+ * @param {Record<string, unknown>} args - The call's arguments.
+ * @param {(call: ToolCall) => void} onToolCall - Callback for the call's progress.
+ * @returns {Promise<Record<string, unknown>>} A promise that resolves to the result to send back to the model.
+ */
+export const runChatTool = async (
+  id: string,
+  name: string,
+  args: Record<string, unknown>,
+  onToolCall: (call: ToolCall) => void
+): Promise<Record<string, unknown>> => {
+  const toolCall: ToolCall = { id, name, args, status: 'running' };
+  onToolCall(toolCall);
+  try {
+    const result = await executeChatTool(name, args);
+    onToolCall({ ...toolCall, status: 'done', result });
+    return result;
+  } catch (error: any) {
+    console.warn(`Tool call ${name} failed. Reason: ${error.message}`);
+    onToolCall({ ...toolCall, status: 'error', error: error.message });
+    return { error: error.message };
+  }
+};
+
+/**
+ * Converts a Gemini `Schema` (an OpenAPI subset with upper-case type names) to JSON Schema.
+ * @param {Schema} schema - The schema to convert.
+ * @returns {Record<string, unknown>} The equivalent JSON Schema.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const { type, nullable, properties, items, anyOf, propertyOrdering, ...rest } = schema;
+  const json: Record<string, unknown> = { ...rest };
+  if (type && type !== 'TYPE_UNSPECIFIED') {
+    const typeName = type.toLowerCase();
+    json.type = nullable ? [typeName, 'null'] : typeName;
+  }
+  if (properties) json.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  if (items) json.items = toJsonSchema(items);
+  if (anyOf) json.anyOf = anyOf.map(toJsonSchema);
+  return json;
+};
+
+// --- OpenAI-Compatible Adapter ---
+
+/** A tool call in the OpenAI chat completions format. */
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/** A chat message in the OpenAI chat completions format. */
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Configuration for an OpenAI-compatible endpoint.
+ */
+export interface OpenAICompatibleConfig {
+  /** The provider's identifier. */
+  id: LLMProviderId;
+  /** The provider's display name. */
+  name: string;
+  /** The API's base URL, up to and including the version (e.g., 'http://localhost:11434/v1'). */
+  baseUrl: string;
+  /** The API key sent as a bearer token, if the endpoint needs one. */
+  apiKey?: string;
+  /** The models to offer; if empty, they are listed from the endpoint's `/models` route. */
+  models?: string[];
+  /** The most tokens of earlier conversation to replay; defaults to `DEFAULT_HISTORY_TOKEN_BUDGET`. */
+  historyTokenBudget?: number;
+  /** A caution to show when the provider's models are picked; see `LLMProvider.securityWarning`. */
+  securityWarning?: string;
+}
+
+/** The history budget of OpenAI-compatible endpoints, sized for the common 32K-token context windows. */
+const DEFAULT_HISTORY_TOKEN_BUDGET = 16_000;
+
+/** How long to wait for an endpoint to list its models before giving up on it. */
+const LIST_MODELS_TIMEOUT_MS = 3000;
+
+/**
+ * Reads the events of a server-sent event stream, as returned by streaming chat completions.
+ * @param {Response} response - The streaming response.
+ * @yields {any} Each event's parsed JSON data, until the stream ends or sends `[DONE]`.
+ */
+async function* readEventStream(response: Response): AsyncGenerator<any> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) yield JSON.parse(data);
+    }
+  }
+}
+
+/**
+ * Parses the JSON arguments of a tool call, which arrive as a string.
+ * @param {string} text - The arguments.
+ * @returns {Record<string, unknown>} The parsed arguments, or an empty object if they are not valid JSON.
+ */
+const parseToolArguments = (text: string): Record<string, unknown> => {
+  try {
+    const args = JSON.parse(text || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    console.warn(`Could not parse tool call arguments: ${text}`);
+    return {};
+  }
+};
+
+/**
+ * Creates an adapter for an endpoint that implements the OpenAI chat completions API, such as
+ * OpenAI itself, OpenRouter, vLLM, LM Studio or Ollama.
+ * @param {OpenAICompatibleConfig} config - The endpoint's configuration.
+ * @returns {LLMProvider} The provider.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+  };
+
+  /**
+   * Posts a request to the endpoint.
+   * @param {string} path - The route, e.g. '/chat/completions'.
+   * @param {object} body - The request body.
+   * @param {AbortSignal} [signal] - A signal that aborts the request.
+   * @returns {Promise<Response>} A promise that resolves to the successful response.
+   * @throws {LLMRequestError} If the endpoint cannot be reached or rejects the request.
+   */
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      throw new LLMRequestError(config.name, null, `Could not reach ${baseUrl}. ${error.message}`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMRequestError(config.name, response.status, detail.slice(0, 200) || response.statusText);
+    }
+    return response;
+  };
+
+  /**
+   * Requests a single, non-streamed completion and returns its text.
+   * @param {string} prompt - The prompt.
+   * @param {LLMGenerateOptions} options - The model, system instruction and abort signal.
+   * @param {object} [extra] - Extra request fields, e.g. a response format.
+   * @returns {Promise<string>} A promise that resolves to the completion's text.
+   */
+  const complete = async (prompt: string, { model, systemInstruction, signal }: LLMGenerateOptions, extra: object = {}): Promise<string> => {
+    const messages: OpenAIMessage[] = [
+      ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+      { role: 'user', content: prompt },
+    ];
+    const data = await (await post('/chat/completions', { model, messages, ...extra }, signal)).json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new LLMRequestError(config.name, null, 'The response has no content.');
+    return content;
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    isConfigured: !!config.baseUrl,
+    securityWarning: config.securityWarning ?? null,
+    supportsGrounding: false,
+    historyTokenBudget: config.historyTokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET,
+
+    listModels: async () => {
+      if (config.models && config.models.length > 0) return config.models;
+      const response = await fetch(`${baseUrl}/models`, { headers, signal: AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS) });
+      if (!response.ok) throw new LLMRequestError(config.name, response.status, 'Could not list models.');
+      const data = await response.json();
+      return (data.data ?? []).map((model: { id: string }) => model.id).sort();
+    },
+
+    createChat: ({ model, systemInstruction, tools, history: earlierTurns }) => {
+      const history: OpenAIMessage[] = [
+        { role: 'system', content: systemInstruction },
+        ...earlierTurns.map((turn): OpenAIMessage => ({ role: turn.role === 'user' ? 'user' : 'assistant', content: turn.text })),
+      ];
+      const toolDefinitions = tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters ? toJsonSchema(tool.parameters) : { type: 'object', properties: {} },
+        },
+      }));
+
+      return {
+        streamMessage: async (message, handlers, signal) => {
+          const turn: OpenAIMessage[] = [{ role: 'user', content: message }];
+
+          for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+            const response = await post('/chat/completions', {
+              model,
+              messages: [...history, ...turn],
+              stream: true,
+              ...(toolDefinitions.length > 0 && { tools: toolDefinitions }),
+            }, signal);
+
+            let text = '';
+            const calls: OpenAIToolCall[] = [];
+            for await (const chunk of readEventStream(response)) {
+              const delta = chunk.choices?.[0]?.delta;
+              if (!delta) continue;
+              if (typeof delta.content === 'string' && delta.content) {
+                text += delta.content;
+                handlers.onText(delta.content);
+              }
+              // Tool calls stream in pieces, keyed by their index in the response.
+              for (const part of delta.tool_calls ?? []) {
+                const call = calls[part.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+                if (part.id) call.id = part.id;
+                if (part.function?.name) call.function.name += part.function.name;
+                if (part.function?.arguments) call.function.arguments += part.function.arguments;
+              }
+            }
+
+            const toolCalls = calls.filter(Boolean).map((call, i) => ({ ...call, id: call.id || `${Date.now()}-${round}-${i}` }));
+            if (toolCalls.length === 0) {
+              turn.push({ role: 'assistant', content: text });
+              break;
+            }
+            if (round === MAX_TOOL_ROUNDS) {
+              console.warn(`${config.name} chat exceeded ${MAX_TOOL_ROUNDS} rounds of tool calls. Stopping.`);
+              turn.push({ role: 'assistant', content: text });
+              break;
+            }
+            turn.push({ role: 'assistant', content: text || null, tool_calls: toolCalls });
+            const results = await Promise.all(toolCalls.map(call =>
+              runChatTool(call.id, call.function.name, parseToolArguments(call.function.arguments), handlers.onToolCall)
+            ));
+            signal?.throwIfAborted();
+            turn.push(...results.map((result, i): OpenAIMessage => ({ role: 'tool', tool_call_id: toolCalls[i].id, content: JSON.stringify(result) })));
+          }
+
+          history.push(...turn);
+        },
+      };
+    },
+
+    generateText: (prompt, options) => complete(prompt, options),
+
+    generateStructured: (prompt, schema, options) => complete(prompt, options, {
+      response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } },
+    }),
+  };
+};
+
+// --- Configured Providers ---
+
+/** The history budget for Ollama, whose models run with a 4K-token context window by default. */
+const OLLAMA_HISTORY_TOKEN_BUDGET = 2_000;
+
+/**
+ * Reads a comma-separated list of model names from an environment variable.
+ * @param {string | undefined} value - The variable's value.
+ * @returns {string[]} The model names.
+ */
+const parseModelList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(model => model.trim()).filter(Boolean);
+
+/**
+ * `OPENAI_API_KEY` is compiled into the client bundle, so outside the dev server anyone who loads the
+ * app can read it. Such builds should point `OPENAI_BASE_URL` at a proxy that adds the key instead.
+ */
+const OPENAI_KEY_EXPOSURE_WARNING = process.env.OPENAI_API_KEY && process.env.APP_MODE !== 'development'
+  ? 'OPENAI_API_KEY is built into this app, so anyone using it can read the key. Leave it unset and point OPENAI_BASE_URL at a proxy that adds the key instead.'
+  : undefined;
+
+if (OPENAI_KEY_EXPOSURE_WARNING) console.warn(OPENAI_KEY_EXPOSURE_WARNING);
+
+/**
+ * Any OpenAI-compatible endpoint, configured with `OPENAI_BASE_URL` (plus `OPENAI_API_KEY` and
+ * `OPENAI_MODELS` where needed). The stub server in `scripts/openai-stub-server.mjs` serves one offline.
+ */
+export const openAICompatibleProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  baseUrl: process.env.OPENAI_BASE_URL ?? '',
+  apiKey: process.env.OPENAI_API_KEY,
+  models: parseModelList(process.env.OPENAI_MODELS),
+  securityWarning: OPENAI_KEY_EXPOSURE_WARNING,
+});
+
+/**
+ * An Ollama server, through its OpenAI-compatible API. It is only offered once `OLLAMA_BASE_URL` is set
+ * (e.g., to 'http://localhost:11434'), and its installed models are listed automatically.
+ */
+export const ollamaProvider = createOpenAICompatibleProvider({
+  id: 'ollama',
+  name: 'Ollama',
+  baseUrl: process.env.OLLAMA_BASE_URL ? `${process.env.OLLAMA_BASE_URL.replace(/\/+$/, '')}/v1` : '',
+  historyTokenBudget: OLLAMA_HISTORY_TOKEN_BUDGET,
+});
@@ -0,0 +1,586 @@
+/**
+ * @file This module defines the pluggable market-data provider abstraction used by the
+ * `coingeckoService`, along with adapters for CoinGecko, CoinCap and Binance.
+ * Each adapter owns its own resilient HTTP client (and therefore its own circuit breaker)
+ * and normalises its API's responses into the app's `CoinData`, `PriceDataPoint`
+ * and `OhlcDataPoint` shapes, so the service can fail over between them transparently.
+ */
+
+import type { ChartPeriod, CoinData, DateRange, OhlcDataPoint, PriceDataPoint, QuoteCurrency, Timeframe } from '../types';
+import { createHttpClient, HttpStatusError, RateLimitedError } from './httpClient';
+import type { HttpClient } from './httpClient';
+import type { RateLimitConfig, RequestPriority, SchedulerMetrics } from './requestScheduler';
+
+/**
+ * Identifies a coin for a provider request. Providers that key assets by ticker
+ * (e.g., Binance) need the symbol; the others use the canonical CoinGecko ID.
+ */
+export interface CoinRef {
+  /** The canonical coin ID (e.g., 'bitcoin'). */
+  id: string;
+  /** The coin's lowercase ticker symbol (e.g., 'btc'), if known. */
+  symbol?: string;
+}
+
+/**
+ * A source of market data that can be queried for current markets, price history and OHLC candles.
+ */
+export interface MarketDataProvider {
+  /** A stable identifier for the provider (e.g., 'coingecko'). */
+  id: string;
+  /** The provider's display name (e.g., 'CoinGecko'). */
+  name: string;
+  /** The provider's priority; lower values are tried first. */
+  priority: number;
+  /** The transport used by the provider, exposing its circuit-breaker health. */
+  client: HttpClient;
+  /**
+   * Fetches current market data for the given coins, quoted in `currency`. Coins the provider does not list are omitted.
+   * Background polls pass a 'background' priority so that user-initiated requests are served first.
+   */
+  fetchMarkets: (coins: CoinRef[], currency: QuoteCurrency, priority?: RequestPriority) => Promise<CoinData[]>;
+  /** Fetches the price history for a coin over a timeframe or custom range, quoted in `currency`. */
+  fetchHistory: (coin: CoinRef, period: ChartPeriod, currency: QuoteCurrency) => Promise<PriceDataPoint[]>;
+  /** Fetches OHLC candles for a coin over a timeframe or custom range, quoted in `currency`. */
+  fetchOhlc: (coin: CoinRef, period: ChartPeriod, currency: QuoteCurrency) => Promise<OhlcDataPoint[]>;
+}
+
+/**
+ * Thrown when a provider cannot serve a particular request (e.g., an unsupported endpoint
+ * or a coin it has no identifier for). The service skips to the next provider.
+ */
+export class UnsupportedRequestError extends Error {
+  constructor(providerName: string, message: string) {
+    super(`[${providerName}] ${message}`);
+    this.name = 'UnsupportedRequestError';
+  }
+}
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const ONE_DAY_MS = 24 * ONE_HOUR_MS;
+
+/** The length of each fixed-length timeframe's window. 'YTD' and 'ALL' are resolved from the calendar. */
+const TIMEFRAME_DURATION_MS: { [key in Exclude<Timeframe, 'YTD' | 'ALL'>]: number } = {
+  '1H': ONE_HOUR_MS,
+  '1D': ONE_DAY_MS,
+  '1W': 7 * ONE_DAY_MS,
+  '1M': 30 * ONE_DAY_MS,
+  '3M': 90 * ONE_DAY_MS,
+  '1Y': 365 * ONE_DAY_MS,
+};
+
+/**
+ * Resolves a chart period to concrete start and end times, used by providers that take explicit ranges.
+ * 'ALL' starts at the epoch, which providers clamp to the first data they have.
+ * @param {ChartPeriod} period - A preset timeframe or a custom range.
+ * @returns {DateRange} The range the period covers, ending now for presets.
+ */
+export const resolvePeriodRange = (period: ChartPeriod): DateRange => {
+  if (typeof period !== 'string') return period;
+  const now = Date.now();
+  if (period === 'ALL') return { from: 0, to: now };
+  if (period === 'YTD') return { from: new Date(new Date(now).getFullYear(), 0, 1).getTime(), to: now };
+  return { from: now - TIMEFRAME_DURATION_MS[period], to: now };
+};
+
+/**
+ * Builds a stable key for a chart period, e.g. for cache keys and effect dependencies.
+ * @param {ChartPeriod} period - A preset timeframe or a custom range.
+ * @returns {string} The timeframe itself, or `from-to` for a custom range.
+ */
+export const getPeriodKey = (period: ChartPeriod): string =>
+  typeof period === 'string' ? period : `${period.from}-${period.to}`;
+
+/**
+ * Whether a provider's series for the period must be trimmed client-side: the finest history some
+ * providers offer for short or calendar-based windows (e.g., CoinGecko's 5-minute data for `1H`)
+ * covers more than the period itself.
+ * @param {ChartPeriod} period - A preset timeframe or a custom range.
+ * @returns {boolean} True if points outside the period's range should be dropped.
+ */
+const needsTrimming = (period: ChartPeriod): boolean =>
+  typeof period !== 'string' || period === '1H' || period === 'YTD';
+
+/**
+ * Converts raw `[timestamp, price]` pairs into chart data points, keeping every sample.
+ * Series for periods that providers over-fetch are trimmed to the period's range (e.g., `1H`
+ * returns exactly the last hour).
+ * @param {[number, number][]} prices - The raw price series, oldest first.
+ * @param {ChartPeriod} period - The period the series covers.
+ * @returns {PriceDataPoint[]} The data points for the chart.
+ */
+const toPriceDataPoints = (prices: [number, number][], period: ChartPeriod): PriceDataPoint[] => {
+  const { from, to } = needsTrimming(period) ? resolvePeriodRange(period) : { from: -Infinity, to: Infinity };
+  return prices
+    .filter(([timestamp, price]) => timestamp >= from && timestamp <= to && isFinite(price))
+    .map(([timestamp, price]) => ({ timestamp, price }));
+};
+
+/**
+ * Drops candles outside the period's range, for periods that providers over-fetch.
+ * @param {OhlcDataPoint[]} candles - The candles, oldest first.
+ * @param {ChartPeriod} period - The period the candles should cover.
+ * @returns {OhlcDataPoint[]} The candles within the period.
+ */
+const trimCandles = (candles: OhlcDataPoint[], period: ChartPeriod): OhlcDataPoint[] => {
+  if (typeof period === 'string' && period !== 'YTD') return candles;
+  const { from, to } = resolvePeriodRange(period);
+  return candles.filter(candle => candle.timestamp >= from && candle.timestamp <= to);
+};
+
+/** The number of points a chart is sized for; finer intervals are skipped once a series would exceed it. */
+const TARGET_POINT_COUNT = 150;
+
+/**
+ * Picks the finest interval that keeps a range within `TARGET_POINT_COUNT` points, so
+ * granularity follows the length of the range automatically.
+ * @param {DateRange} range - The range to cover.
+ * @param {{ id: string, ms: number }[]} intervals - The provider's intervals, finest first.
+ * @returns {string} The chosen interval's ID (the coarsest one if none fits).
+ */
+const pickInterval = (range: DateRange, intervals: { id: string; ms: number }[]): string => {
+  const span = range.to - range.from;
+  const fitting = intervals.find(interval => span / interval.ms <= TARGET_POINT_COUNT);
+  return (fitting ?? intervals[intervals.length - 1]).id;
+};
+
+/**
+ * Attaches to each candle the volume sample closest to its timestamp.
+ * @param {OhlcDataPoint[]} candles - The candles, oldest first.
+ * @param {[number, number][]} volumes - Raw `[timestamp, volume]` samples, oldest first.
+ * @returns {OhlcDataPoint[]} The candles with their `volume` filled in.
+ */
+const attachVolumes = (candles: OhlcDataPoint[], volumes: [number, number][]): OhlcDataPoint[] => {
+  if (volumes.length === 0) return candles;
+  let index = 0;
+  return candles.map(candle => {
+    while (
+      index < volumes.length - 1 &&
+      Math.abs(volumes[index + 1][0] - candle.timestamp) <= Math.abs(volumes[index][0] - candle.timestamp)
+    ) {
+      index++;
+    }
+    return { ...candle, volume: volumes[index][1] };
+  });
+};
+
+// --- CoinGecko ---
+
+const COINGECKO_API_BASE_URL = 'https://api.coingecko.com/api/v3';
+
+/** The largest page size accepted by the `/coins/markets` endpoint. */
+const MARKETS_MAX_PER_PAGE = 250;
+
+/**
+ * The default budget for CoinGecko's public API, kept below its per-minute quota so that
+ * requests queue up instead of tripping the breaker with 429s.
+ */
+export const DEFAULT_COINGECKO_RATE_LIMIT: RateLimitConfig = { requestsPerMinute: 25, burst: 10 };
+
+/** The shared transport for CoinGecko, with its own circuit breaker and rate limit. */
+const coingeckoClient = createHttpClient({
+  name: 'CoinGecko',
+  rateLimit: DEFAULT_COINGECKO_RATE_LIMIT,
+  inspectResponse: (data, proxyName) => {
+    if (data && data.status && data.status.error_message) {
+      const message = `CoinGecko API Error: ${data.status.error_message}`;
+      console.warn(`API error from proxy ${proxyName}: ${data.status.error_message}`);
+      if (data.status.error_code === 429) throw new RateLimitedError(message);
+      throw new Error(message);
+    }
+  },
+});
+
+/**
+ * Fetches a CoinGecko endpoint through its resilient, rate-limited transport. This is also used directly
+ * for CoinGecko-only features such as coin search. Identical concurrent requests share one call.
+ * @param {string} endpoint - The CoinGecko API endpoint to fetch (e.g., '/coins/markets').
+ * @param {RequestPriority} [priority] - The request's place in the queue; defaults to 'user'.
+ * @throws {CircuitOpenError | RateLimitedError | ProxyExhaustedError | HttpStatusError} If the request could not be completed.
+ * @returns {Promise<any>} A promise that resolves with the JSON data from the API.
+ */
+export const fetchCoinGecko = (endpoint: string, priority: RequestPriority = 'user'): Promise<any> =>
+  coingeckoClient.fetchJson(`${COINGECKO_API_BASE_URL}${endpoint}`, { priority });
+
+/**
+ * Returns the CoinGecko client's queue depth, in-flight requests and remaining budget.
+ * @returns {SchedulerMetrics} A snapshot of the CoinGecko request scheduler.
+ */
+export const getCoinGeckoRequestMetrics = (): SchedulerMetrics => coingeckoClient.getSchedulerMetrics();
+
+/**
+ * Changes the CoinGecko request budget, e.g. for a paid API plan with a higher quota.
+ * @param {RateLimitConfig | null} rateLimit - The new budget, or null to disable rate limiting.
+ */
+export const configureCoinGeckoRateLimit = (rateLimit: RateLimitConfig | null) => coingeckoClient.setRateLimit(rateLimit);
+
+/** The `days` values accepted by the `/ohlc` endpoint, which has no free range variant. */
+const COINGECKO_OHLC_DAYS = [1, 7, 14, 30, 90, 180, 365];
+
+/**
+ * Determines the correct CoinGecko API parameters based on the selected timeframe.
+ * Where no interval is given, CoinGecko picks the granularity from the length of the window
+ * (5-minute data for a day, hourly up to 90 days, daily beyond that).
+ * @param {Timeframe} timeframe - The desired timeframe.
+ * @returns {{ days: number | 'max', interval?: string }} The parameters for the CoinGecko API call.
+ */
+const getCoinGeckoTimeframeParams = (timeframe: Timeframe): { days: number | 'max', interval?: string } => {
+  switch (timeframe) {
+    case '1H': return { days: 1 };
+    case '1D': return { days: 1 };
+    case '1W': return { days: 7, interval: 'daily' };
+    case '1M': return { days: 30, interval: 'daily' };
+    case '3M': return { days: 90 };
+    case '1Y': return { days: 365 };
+    case 'YTD': return { days: Math.ceil((Date.now() - resolvePeriodRange('YTD').from) / ONE_DAY_MS) };
+    case 'ALL': return { days: 'max' };
+    default: return { days: 1 };
+  }
+};
+
+/**
+ * Picks the shortest `/ohlc` window that covers a period; the candles are trimmed to the period afterwards.
+ * @param {ChartPeriod} period - The period the candles should cover.
+ * @returns {number | 'max'} The `days` parameter for the `/ohlc` endpoint.
+ */
+const getCoinGeckoOhlcDays = (period: ChartPeriod): number | 'max' => {
+  if (period === 'ALL') return 'max';
+  const daysNeeded = Math.ceil((Date.now() - resolvePeriodRange(period).from) / ONE_DAY_MS);
+  return COINGECKO_OHLC_DAYS.find(days => days >= daysNeeded) ?? 'max';
+};
+
+/** The primary provider, backed by the CoinGecko API. */
+export const coingeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  priority: 0,
+  client: coingeckoClient,
+  fetchMarkets: async (coins, currency, priority) => {
+    const ids = coins.map(coin => coin.id).join(',');
+    const perPage = Math.min(Math.max(coins.length, 1), MARKETS_MAX_PER_PAGE);
+    const data = await fetchCoinGecko(`/coins/markets?vs_currency=${currency}&ids=${ids}&order=market_cap_desc&per_page=${perPage}&page=1&sparkline=false`, priority);
+    if (!Array.isArray(data)) throw new Error('Invalid data format from CoinGecko markets. Expected an array.');
+    return data;
+  },
+  fetchHistory: async (coin, period, currency) => {
+    let endpoint: string;
+    if (typeof period === 'string') {
+      const { days, interval } = getCoinGeckoTimeframeParams(period);
+      const intervalParam = interval ? `&interval=${interval}` : '';
+      endpoint = `/coins/${coin.id}/market_chart?vs_currency=${currency}&days=${days}${intervalParam}`;
+    } else {
+      // The range endpoint takes seconds and picks its granularity from the length of the range.
+      const from = Math.floor(period.from / 1000);
+      const to = Math.ceil(period.to / 1000);
+      endpoint = `/coins/${coin.id}/market_chart/range?vs_currency=${currency}&from=${from}&to=${to}`;
+    }
+    const data = await fetchCoinGecko(endpoint);
+    if (!data || !Array.isArray(data.prices)) {
+      console.error('Invalid chart data structure received:', data);
+      throw new Error('Unexpected data format for chart history.');
+    }
+    return toPriceDataPoints(data.prices, period);
+  },
+  fetchOhlc: async (coin, period, currency) => {
+    const days = getCoinGeckoOhlcDays(period);
+    // The OHLC endpoint has no volume, so it is taken from the (un-resampled) market chart instead.
+    const [data, chart] = await Promise.all([
+      fetchCoinGecko(`/coins/${coin.id}/ohlc?vs_currency=${currency}&days=${days}`),
+      fetchCoinGecko(`/coins/${coin.id}/market_chart?vs_currency=${currency}&days=${days}`).catch((error: any) => {
+        console.warn(`Failed to fetch volume data. Showing candles without volume. Reason: ${error.message}`);
+        return null;
+      }),
+    ]);
+    if (!Array.isArray(data)) throw new Error('Unexpected data format for OHLC data.');
+    const candles = trimCandles(data.map(([timestamp, open, high, low, close]: number[]) => ({ timestamp, open, high, low, close })), period);
+    return attachVolumes(candles, Array.isArray(chart?.total_volumes) ? chart.total_volumes : []);
+  },
+};
+
+// --- CoinCap ---
+
+const COINCAP_API_BASE_URL = 'https://api.coincap.io/v2';
+
+const coincapClient = createHttpClient({
+  name: 'CoinCap',
+  direct: true,
+  inspectResponse: (data) => {
+    if (data && data.error) throw new Error(`CoinCap API Error: ${data.error}`);
+  },
+});
+
+/** The CoinCap history intervals, finest first. */
+const COINCAP_INTERVALS = [
+  { id: 'm1', ms: 60 * 1000 },
+  { id: 'm5', ms: 5 * 60 * 1000 },
+  { id: 'm15', ms: 15 * 60 * 1000 },
+  { id: 'm30', ms: 30 * 60 * 1000 },
+  { id: 'h1', ms: ONE_HOUR_MS },
+  { id: 'h2', ms: 2 * ONE_HOUR_MS },
+  { id: 'h6', ms: 6 * ONE_HOUR_MS },
+  { id: 'h12', ms: 12 * ONE_HOUR_MS },
+  { id: 'd1', ms: ONE_DAY_MS },
+];
+
+/**
+ * Throws unless the requested currency is USD, the only currency CoinCap quotes prices in.
+ * @param {QuoteCurrency} currency - The requested quote currency.
+ * @throws {UnsupportedRequestError} If the currency is not USD.
+ */
+const assertCoinCapCurrency = (currency: QuoteCurrency) => {
+  if (currency !== 'usd') throw new UnsupportedRequestError('CoinCap', `Prices are only available in USD, not ${currency.toUpperCase()}.`);
+};
+
+/** A secondary provider backed by the CoinCap API. CoinCap asset IDs largely match CoinGecko's. */
+export const coincapProvider: MarketDataProvider = {
+  id: 'coincap',
+  name: 'CoinCap',
+  priority: 1,
+  client: coincapClient,
+  fetchMarkets: async (coins, currency, priority) => {
+    assertCoinCapCurrency(currency);
+    const ids = coins.map(coin => coin.id).join(',');
+    const data = await coincapClient.fetchJson(`${COINCAP_API_BASE_URL}/assets?ids=${ids}`, { priority });
+    if (!data || !Array.isArray(data.data)) throw new Error('Invalid data format from CoinCap assets.');
+    return data.data.map((asset: any): CoinData => ({
+      id: asset.id,
+      symbol: String(asset.symbol).toLowerCase(),
+      name: asset.name,
+      image: `https://assets.coincap.io/assets/icons/${String(asset.symbol).toLowerCase()}@2x.png`,
+      current_price: parseFloat(asset.priceUsd),
+      price_change_percentage_24h: parseFloat(asset.changePercent24Hr),
+    }));
+  },
+  fetchHistory: async (coin, period, currency) => {
+    assertCoinCapCurrency(currency);
+    const range = resolvePeriodRange(period);
+    const data = await coincapClient.fetchJson(
+      `${COINCAP_API_BASE_URL}/assets/${coin.id}/history?interval=${pickInterval(range, COINCAP_INTERVALS)}&start=${range.from}&end=${range.to}`
+    );
+    if (!data || !Array.isArray(data.data)) throw new Error('Unexpected data format for CoinCap history.');
+    return toPriceDataPoints(data.data.map((point: any): [number, number] => [point.time, parseFloat(point.priceUsd)]), period);
+  },
+  fetchOhlc: async () => {
+    throw new UnsupportedRequestError('CoinCap', 'OHLC data is not supported.');
+  },
+};
+
+// --- Binance ---
+
+const BINANCE_API_BASE_URL = 'https://api.binance.com/api/v3';
+/**
+ * The Binance quote asset used for each quote currency; USDT tracks USD closely.
+ * Currencies without a liquid Binance market (e.g., ZAR) are left out.
+ */
+export const BINANCE_QUOTE_ASSETS: Partial<Record<QuoteCurrency, string>> = {
+  usd: 'USDT',
+  eur: 'EUR',
+  gbp: 'GBP',
+  btc: 'BTC',
+  eth: 'ETH',
+};
+
+const binanceClient = createHttpClient({ name: 'Binance', direct: true });
+
+/** The Binance kline intervals, finest first. */
+const BINANCE_KLINE_INTERVALS = [
+  { id: '1m', ms: 60 * 1000 },
+  { id: '5m', ms: 5 * 60 * 1000 },
+  { id: '15m', ms: 15 * 60 * 1000 },
+  { id: '30m', ms: 30 * 60 * 1000 },
+  { id: '1h', ms: ONE_HOUR_MS },
+  { id: '2h', ms: 2 * ONE_HOUR_MS },
+  { id: '4h', ms: 4 * ONE_HOUR_MS },
+  { id: '6h', ms: 6 * ONE_HOUR_MS },
+  { id: '12h', ms: 12 * ONE_HOUR_MS },
+  { id: '1d', ms: ONE_DAY_MS },
+  { id: '3d', ms: 3 * ONE_DAY_MS },
+  { id: '1w', ms: 7 * ONE_DAY_MS },
+  { id: '1M', ms: 30 * ONE_DAY_MS },
+];
+/** The largest number of klines Binance returns per request. */
+const BINANCE_KLINE_LIMIT = 1000;
+/** How long a pair's listing is reused before it is checked again; listings change rarely. */
+const BINANCE_PAIRS_TTL_MS = 6 * ONE_HOUR_MS;
+
+/** Whether each pair that was checked is trading, keyed by exchange info endpoint and then by pair. */
+const binancePairListings = new Map<string, Map<string, { checkedAt: number; isListed: Promise<boolean> }>>();
+
+/**
+ * Asks Binance's exchange info which of the given pairs are trading. Binance rejects the whole request with a
+ * 400 if any of the pairs is unknown, in which case each pair is asked about on its own.
+ * @param {string[]} pairs - The uppercase pairs to check.
+ * @param {RequestPriority} priority - The requests' place in the queue.
+ * @param {string} exchangeInfoUrl - The exchange info endpoint.
+ * @returns {Promise<Set<string>>} The pairs that are trading.
+ */
+const requestTradingPairs = async (pairs: string[], priority: RequestPriority, exchangeInfoUrl: string): Promise<Set<string>> => {
+  try {
+    const data = await binanceClient.fetchJson(`${exchangeInfoUrl}?symbols=${encodeURIComponent(JSON.stringify(pairs))}`, { priority });
+    if (!data || !Array.isArray(data.symbols)) throw new Error('Invalid data format from Binance exchange info.');
+    return new Set<string>(data.symbols.filter((info: any) => info.status === 'TRADING').map((info: any) => String(info.symbol)));
+  } catch (error) {
+    if (!(error instanceof HttpStatusError && error.status === 400)) throw error;
+    if (pairs.length === 1) return new Set();
+    const listings = await Promise.all(pairs.map(pair => requestTradingPairs([pair], priority, exchangeInfoUrl)));
+    return new Set(listings.flatMap(listed => Array.from(listed)));
+  }
+};
+
+/**
+ * Checks which of the given pairs (e.g., 'BTCUSDT') Binance currently lists, by asking its exchange info about
+ * just those pairs. Binance rejects a whole ticker request if any of its pairs is unknown, so requests are
+ * filtered through this first. Each pair's listing is cached for `BINANCE_PAIRS_TTL_MS` and shared by concurrent
+ * callers; a failed check is retried on the next call.
+ * @param {string[]} pairs - The uppercase pairs to check.
+ * @param {RequestPriority} [priority] - The place in the queue of any request made; defaults to 'user'.
+ * @param {string} [exchangeInfoUrl] - The exchange info endpoint, e.g. a local mock server's.
+ * @returns {Promise<Set<string>>} The pairs that are currently trading.
+ */
+export const fetchBinanceTradingPairs = async (
+  pairs: string[],
+  priority: RequestPriority = 'user',
+  exchangeInfoUrl = `${BINANCE_API_BASE_URL}/exchangeInfo`
+): Promise<Set<string>> => {
+  const listings = binancePairListings.get(exchangeInfoUrl) ?? new Map<string, { checkedAt: number; isListed: Promise<boolean> }>();
+  binancePairListings.set(exchangeInfoUrl, listings);
+  const now = Date.now();
+  const unchecked = Array.from(new Set(pairs)).filter(pair => {
+    const listing = listings.get(pair);
+    return !listing || now - listing.checkedAt >= BINANCE_PAIRS_TTL_MS;
+  });
+  if (unchecked.length > 0) {
+    const tradingPairs = requestTradingPairs(unchecked, priority, exchangeInfoUrl);
+    unchecked.forEach(pair => {
+      const isListed = tradingPairs.then(trading => trading.has(pair));
+      listings.set(pair, { checkedAt: now, isListed });
+      isListed.catch(() => {
+        if (listings.get(pair)?.isListed === isListed) listings.delete(pair);
+      });
+    });
+  }
+  const checked = await Promise.all(pairs.map(async pair => ({ pair, isListed: await listings.get(pair)!.isListed })));
+  return new Set(checked.filter(({ isListed }) => isListed).map(({ pair }) => pair));
+};
+
+/**
+ * Builds the Binance trading pair for a coin, which requires its ticker symbol.
+ * @param {CoinRef} coin - The coin to build a pair for.
+ * @param {QuoteCurrency} currency - The quote currency of the pair.
+ * @throws {UnsupportedRequestError} If the coin's symbol is unknown or the currency has no Binance market.
+ * @returns {string} The trading pair (e.g., 'BTCUSDT').
+ */
+export const toBinancePair = (coin: CoinRef, currency: QuoteCurrency): string => {
+  const quoteAsset = BINANCE_QUOTE_ASSETS[currency];
+  if (!quoteAsset) throw new UnsupportedRequestError('Binance', `No markets quoted in ${currency.toUpperCase()}.`);
+  if (!coin.symbol) throw new UnsupportedRequestError('Binance', `No ticker symbol known for ${coin.id}.`);
+  return `${coin.symbol.toUpperCase()}${quoteAsset}`;
+};
+
+/** The coins already reported as sharing a pair with another coin, so each conflict is logged once. */
+const reportedPairConflicts = new Set<string>();
+
+/**
+ * Maps the coins Binance lists to their trading pairs. A pair belongs to exactly one coin: when several coins
+ * share a ticker symbol, the first of them claims it and the others are left out rather than all being given
+ * its price.
+ * @param {CoinRef[]} coins - The coins to map, in order of precedence.
+ * @param {QuoteCurrency} currency - The quote currency of the pairs.
+ * @param {Set<string>} listedPairs - The pairs Binance lists (see `fetchBinanceTradingPairs`).
+ * @throws {UnsupportedRequestError} If the currency has no Binance market.
+ * @returns {Map<string, CoinRef>} The coins, keyed by their trading pair.
+ */
+export const assignBinancePairs = (coins: CoinRef[], currency: QuoteCurrency, listedPairs: Set<string>): Map<string, CoinRef> => {
+  const pairs = new Map<string, CoinRef>();
+  coins.forEach(coin => {
+    if (!coin.symbol) return;
+    const pair = toBinancePair(coin, currency);
+    if (!listedPairs.has(pair)) return;
+    const claimant = pairs.get(pair);
+    if (claimant) {
+      const conflict = `${pair}:${coin.id}`;
+      if (claimant.id !== coin.id && !reportedPairConflicts.has(conflict)) {
+        reportedPairConflicts.add(conflict);
+        console.warn(`[Binance] ${pair} is attributed to ${claimant.id}; ${coin.id} shares its ticker and is left out.`);
+      }
+      return;
+    }
+    pairs.set(pair, coin);
+  });
+  return pairs;
+};
+
+/**
+ * Fetches raw klines (candles) for a coin over a period, at an interval chosen from its length.
+ * @param {CoinRef} coin - The coin to fetch klines for.
+ * @param {ChartPeriod} period - The desired timeframe or custom range.
+ * @param {QuoteCurrency} currency - The quote currency of the klines.
+ * @throws {UnsupportedRequestError} If Binance does not list the coin's pair.
+ * @returns {Promise<any[][]>} The raw kline rows, oldest first.
+ */
+const fetchBinanceKlines = async (coin: CoinRef, period: ChartPeriod, currency: QuoteCurrency): Promise<any[][]> => {
+  const pair = toBinancePair(coin, currency);
+  if (!(await fetchBinanceTradingPairs([pair])).has(pair)) throw new UnsupportedRequestError('Binance', `${pair} is not listed.`);
+  const range = resolvePeriodRange(period);
+  const interval = pickInterval(range, BINANCE_KLINE_INTERVALS);
+  const data = await binanceClient.fetchJson(
+    `${BINANCE_API_BASE_URL}/klines?symbol=${pair}&interval=${interval}&startTime=${range.from}&endTime=${range.to}&limit=${BINANCE_KLINE_LIMIT}`
+  );
+  if (!Array.isArray(data)) throw new Error('Unexpected data format for Binance klines.');
+  return data;
+};
+
+/**
+ * A fallback provider backed by Binance's public spot API. It only knows coins by ticker symbol,
+ * and does not provide names or logos, which the service fills in from earlier responses.
+ * Coins without a listed pair are left out of market data and rejected for history and OHLC.
+ */
+export const binanceProvider: MarketDataProvider = {
+  id: 'binance',
+  name: 'Binance',
+  priority: 2,
+  client: binanceClient,
+  fetchMarkets: async (coins, currency, priority) => {
+    if (!BINANCE_QUOTE_ASSETS[currency]) throw new UnsupportedRequestError('Binance', `No markets quoted in ${currency.toUpperCase()}.`);
+    if (!coins.some(coin => coin.symbol)) throw new UnsupportedRequestError('Binance', 'No ticker symbols known for the requested coins.');
+    // Binance answers 400 for the whole request if any pair is unknown, so only listed pairs are requested.
+    const candidates = coins.filter(coin => coin.symbol).map(coin => toBinancePair(coin, currency));
+    const pairs = assignBinancePairs(coins, currency, await fetchBinanceTradingPairs(candidates, priority));
+    if (pairs.size === 0) throw new UnsupportedRequestError('Binance', 'None of the requested coins is listed.');
+
+    const symbolsParam = encodeURIComponent(JSON.stringify(Array.from(pairs.keys())));
+    const data = await binanceClient.fetchJson(`${BINANCE_API_BASE_URL}/ticker/24hr?symbols=${symbolsParam}`, { priority });
+    if (!Array.isArray(data)) throw new Error('Invalid data format from Binance tickers. Expected an array.');
+    return data
+      .filter((ticker: any) => pairs.has(ticker.symbol))
+      .map((ticker: any): CoinData => {
+        const coin = pairs.get(ticker.symbol)!;
+        return {
+          id: coin.id,
+          symbol: coin.symbol!,
+          name: coin.symbol!.toUpperCase(),
+          image: '',
+          current_price: parseFloat(ticker.lastPrice),
+          price_change_percentage_24h: parseFloat(ticker.priceChangePercent),
+        };
+      });
+  },
+  fetchHistory: async (coin, period, currency) => {
+    const klines = await fetchBinanceKlines(coin, period, currency);
+    return toPriceDataPoints(klines.map((kline): [number, number] => [kline[0], parseFloat(kline[4])]), period);
+  },
+  fetchOhlc: async (coin, period, currency) => {
+    const klines = await fetchBinanceKlines(coin, period, currency);
+    return klines.map(kline => ({
+      timestamp: kline[0],
+      open: parseFloat(kline[1]),
+      high: parseFloat(kline[2]),
+      low: parseFloat(kline[3]),
+      close: parseFloat(kline[4]),
+      volume: parseFloat(kline[7]), // Quote asset volume
+    }));
+  },
+};
+
+/** All available market-data providers. The service orders them by priority and health. */
+export const MARKET_DATA_PROVIDERS: MarketDataProvider[] = [coingeckoProvider, coincapProvider, binanceProvider];
\ No newline at end of file
@@ -0,0 +1,166 @@
+/**
+ * @file This service provides the market-wide data behind the market overview: the top coins by
+ * market cap (with 7-day sparklines), global market figures and trending coins.
+ * These are CoinGecko-only endpoints, so they are fetched through its rate-limited transport without
+ * provider failover. Responses are cached and served stale-while-revalidate like the rest of the
+ * market data; in simulation mode, and when nothing is cached, the top coins come from the market simulator.
+ */
+
+import type { CoinSearchResult, DataFreshness, GlobalMarketData, MarketCoin, QuoteCurrency } from '../types';
+import { fetchCoinGecko } from './marketDataProviders';
+import { staleWhileRevalidate } from './cacheService';
+import type { CachedData } from './cacheService';
+import { isSimulationMode } from './coingeckoService';
+import { getSimulatedMarkets, getSimulatedHistory } from './marketSimulator';
+import { SIMULATED_COINS } from '../constants';
+
+/** The number of coins requested per `/coins/markets` page. */
+export const MARKETS_PAGE_SIZE = 50;
+/** The number of coins the overview ranks at most. */
+export const MAX_OVERVIEW_COINS = 100;
+
+const TOP_COINS_CACHE_TTL_MS = 2 * 60 * 1000; // 2 minutes
+const GLOBAL_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const TRENDING_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+const MOCK_FRESHNESS: DataFreshness = { source: 'mock', fetchedAt: null, isStale: false };
+
+/**
+ * Normalises a `/coins/markets` row into a `MarketCoin`.
+ * @param {any} coin - The raw row, requested with `sparkline=true&price_change_percentage=7d`.
+ * @returns {MarketCoin} The normalised coin.
+ */
+const toMarketCoin = (coin: any): MarketCoin => ({
+    id: coin.id,
+    symbol: coin.symbol,
+    name: coin.name,
+    image: coin.image,
+    current_price: coin.current_price,
+    price_change_percentage_24h: coin.price_change_percentage_24h ?? 0,
+    market_cap_rank: coin.market_cap_rank ?? null,
+    market_cap: coin.market_cap ?? null,
+    total_volume: coin.total_volume ?? null,
+    price_change_percentage_7d: coin.price_change_percentage_7d_in_currency ?? null,
+    sparkline: Array.isArray(coin.sparkline_in_7d?.price) ? coin.sparkline_in_7d.price : [],
+});
+
+/**
+ * Builds a page of top coins from the market simulator. The simulator only knows a handful of coins
+ * and has no supply data, so market caps and volumes are left unknown.
+ * @param {number} page - The 1-based page number.
+ * @param {QuoteCurrency} currency - The currency to quote prices in.
+ * @returns {MarketCoin[]} The simulated coins on the page.
+ */
+const getSimulatedTopCoins = (page: number, currency: QuoteCurrency): MarketCoin[] => {
+    const refs = SIMULATED_COINS
+        .slice((page - 1) * MARKETS_PAGE_SIZE, page * MARKETS_PAGE_SIZE)
+        .map(({ id, symbol }) => ({ id, symbol }));
+    return getSimulatedMarkets(refs, currency).map((coin, i) => {
+        const sparkline = getSimulatedHistory(refs[i], '1W', currency).map(point => point.price);
+        return {
+            ...coin,
+            market_cap_rank: (page - 1) * MARKETS_PAGE_SIZE + i + 1,
+            market_cap: null,
+            total_volume: null,
+            price_change_percentage_7d: sparkline.length > 0 ? (coin.current_price / sparkline[0] - 1) * 100 : null,
+            sparkline,
+        };
+    });
+};
+
+/**
+ * Fetches one page of the coins with the largest market caps, with 7-day sparklines.
+ * Responses are cached and served stale-while-revalidate; if nothing is cached and the request fails,
+ * simulated coins are returned instead.
+ * @param {number} page - The 1-based page number; each page holds `MARKETS_PAGE_SIZE` coins.
+ * @param {QuoteCurrency} currency - The currency to quote prices in.
+ * @param {(result: CachedData<MarketCoin[]>) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @returns {Promise<CachedData<MarketCoin[]>>} A promise that resolves to the coins, in market-cap order, and their freshness.
+ */
+export const fetchTopCoins = async (
+    page: number,
+    currency: QuoteCurrency,
+    onRevalidated?: (result: CachedData<MarketCoin[]>) => void
+): Promise<CachedData<MarketCoin[]>> => {
+    if (isSimulationMode()) return { data: getSimulatedTopCoins(page, currency), freshness: MOCK_FRESHNESS };
+    try {
+        return await staleWhileRevalidate(
+            `overview:markets:${currency}:${page}`,
+            TOP_COINS_CACHE_TTL_MS,
+            async () => {
+                const data = await fetchCoinGecko(`/coins/markets?vs_currency=${currency}&order=market_cap_desc&per_page=${MARKETS_PAGE_SIZE}&page=${page}&sparkline=true&price_change_percentage=7d`);
+                if (!Array.isArray(data)) throw new Error('Invalid data format from CoinGecko markets. Expected an array.');
+                return data.map(toMarketCoin);
+            },
+            onRevalidated
+        );
+    } catch (error: any) {
+        console.warn(`Failed to fetch top coins. Reason: ${error.message}`);
+        console.warn('Falling back to simulated top coins.');
+        return { data: getSimulatedTopCoins(page, currency), freshness: MOCK_FRESHNESS };
+    }
+};
+
+/**
+ * Fetches market-wide figures such as the total market cap and Bitcoin's dominance.
+ * Responses are cached and served stale-while-revalidate.
+ * @param {QuoteCurrency} currency - The currency to quote totals in.
+ * @param {(result: CachedData<GlobalMarketData>) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @throws {Error} If nothing is cached and the request fails, or in simulation mode, which has no market-wide figures.
+ * @returns {Promise<CachedData<GlobalMarketData>>} A promise that resolves to the figures and their freshness.
+ */
+export const fetchGlobalMarketData = async (
+    currency: QuoteCurrency,
+    onRevalidated?: (result: CachedData<GlobalMarketData>) => void
+): Promise<CachedData<GlobalMarketData>> => {
+    if (isSimulationMode()) throw new Error('Global market data is not simulated.');
+    return staleWhileRevalidate(
+        `overview:global:${currency}`,
+        GLOBAL_CACHE_TTL_MS,
+        async () => {
+            const response = await fetchCoinGecko('/global');
+            const data = response?.data;
+            if (!data || !data.total_market_cap || !data.market_cap_percentage) {
+                throw new Error('Unexpected data format for global market data.');
+            }
+            return {
+                total_market_cap: data.total_market_cap[currency] ?? 0,
+                total_volume: data.total_volume?.[currency] ?? 0,
+                market_cap_change_percentage_24h: data.market_cap_change_percentage_24h_usd ?? 0,
+                btc_dominance: data.market_cap_percentage.btc ?? 0,
+                eth_dominance: data.market_cap_percentage.eth ?? 0,
+                active_cryptocurrencies: data.active_cryptocurrencies ?? 0,
+            };
+        },
+        onRevalidated
+    );
+};
+
+/**
+ * Fetches the coins that are trending in CoinGecko searches over the last 24 hours.
+ * Responses are cached and served stale-while-revalidate.
+ * @param {(result: CachedData<CoinSearchResult[]>) => void} [onRevalidated] - Callback for live data that replaces stale cached data.
+ * @throws {Error} If nothing is cached and the request fails, or in simulation mode, which has no search trends.
+ * @returns {Promise<CachedData<CoinSearchResult[]>>} A promise that resolves to the trending coins, most searched first, and their freshness.
+ */
+export const fetchTrendingCoins = async (
+    onRevalidated?: (result: CachedData<CoinSearchResult[]>) => void
+): Promise<CachedData<CoinSearchResult[]>> => {
+    if (isSimulationMode()) throw new Error('Trending coins are not simulated.');
+    return staleWhileRevalidate(
+        'overview:trending',
+        TRENDING_CACHE_TTL_MS,
+        async () => {
+            const data = await fetchCoinGecko('/search/trending');
+            if (!data || !Array.isArray(data.coins)) throw new Error('Unexpected data format for trending coins.');
+            return data.coins.map(({ item }: any): CoinSearchResult => ({
+                id: item.id,
+                symbol: String(item.symbol).toLowerCase(),
+                name: item.name,
+                thumb: item.thumb,
+                market_cap_rank: item.market_cap_rank,
+            }));
+        },
+        onRevalidated
+    );
+};
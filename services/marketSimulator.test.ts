@@ -0,0 +1,66 @@
+/**
+ * @file Unit tests for the simulated price stream, which must tick for any watched coin, including coins the
+ * simulator has no explicit parameters for and has not priced yet.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSimulatedPriceStream, getSimulatedPrice } from './marketSimulator';
+
+/** Handlers that record every tick by symbol. */
+const createRecordingHandlers = () => {
+  const ticks = new Map<string, number[]>();
+  return {
+    ticks,
+    handlers: {
+      onTick: (symbol: string, price: number) => ticks.set(symbol, [...(ticks.get(symbol) ?? []), price]),
+      onOpen: vi.fn(),
+      onDisconnect: vi.fn(),
+      onDown: vi.fn(),
+    },
+  };
+};
+
+describe('createSimulatedPriceStream', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ticks for coins without explicit parameters under their real ticker', () => {
+    const { ticks, handlers } = createRecordingHandlers();
+    const coin = { id: 'an-unpriced-test-coin', symbol: 'zzt' };
+    const stream = createSimulatedPriceStream([coin], handlers, 'usd');
+
+    vi.advanceTimersByTime(0);
+
+    expect(handlers.onOpen).toHaveBeenCalledOnce();
+    expect(ticks.get('zzt')).toEqual([getSimulatedPrice(coin, Date.now(), 'usd')]);
+    stream.close();
+  });
+
+  it('ticks each symbol for the first coin that uses it and skips coins without a symbol', () => {
+    const { ticks, handlers } = createRecordingHandlers();
+    const first = { id: 'first-shared-test-coin', symbol: 'shr' };
+    const stream = createSimulatedPriceStream([first, { id: 'second-shared-test-coin', symbol: 'shr' }, { id: 'no-symbol-test-coin' }], handlers, 'usd');
+
+    vi.advanceTimersByTime(0);
+
+    expect(Array.from(ticks.keys())).toEqual(['shr']);
+    expect(ticks.get('shr')).toEqual([getSimulatedPrice(first, Date.now(), 'usd')]);
+    stream.close();
+  });
+
+  it('stops ticking once closed', () => {
+    const { ticks, handlers } = createRecordingHandlers();
+    const stream = createSimulatedPriceStream([{ id: 'bitcoin', symbol: 'btc' }], handlers, 'usd');
+    stream.close();
+
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(handlers.onOpen).not.toHaveBeenCalled();
+    expect(ticks.size).toBe(0);
+  });
+});
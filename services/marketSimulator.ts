@@ -0,0 +1,393 @@
+/**
+ * @file This module implements a deterministic market simulator. It stands in for the market-data
+ * providers in simulation mode (for demos, alert testing and offline development) and generates the
+ * fallback data shown when neither live nor cached data is available.
+ *
+ * Prices follow geometric Brownian motion with a per-coin drift and volatility:
+ * 1.  **Daily Anchors:** A seeded random walk of daily log prices from the simulator's epoch.
+ * 2.  **Intraday Paths:** Within each day, a seeded Brownian bridge between the two anchors at
+ *     `STEP_MS` resolution, so every day's path can be generated on its own.
+ * 3.  **Determinism:** Every price is a pure function of the seed, the coin and the time, so markets,
+ *     history, OHLC candles and live ticks always agree with each other and across reloads.
+ * 4.  **Quote Currencies:** Fiat prices use fixed exchange rates; BTC and ETH prices are divided by the
+ *     simulated price of Bitcoin or Ether at the same moment.
+ */
+
+import type { ChartPeriod, CoinData, OhlcDataPoint, PriceDataPoint, QuoteCurrency, SimulatedCoinConfig } from '../types';
+import { SIMULATED_COINS } from '../constants';
+import { resolvePeriodRange } from './marketDataProviders';
+import type { CoinRef, MarketDataProvider } from './marketDataProviders';
+import type { HttpClient } from './httpClient';
+import type { PriceStream, PriceStreamHandlers } from './priceStream';
+
+/**
+ * Configuration for the market simulator.
+ */
+export interface MarketSimulatorConfig {
+  /** The seed every random path is derived from; the same seed always produces the same market. */
+  seed: number;
+  /** The time the simulated history starts at; earlier requests are clamped to it. */
+  epoch: number;
+  /** The coins with explicit parameters. Other coins get parameters derived from their IDs. */
+  coins: SimulatedCoinConfig[];
+  /** The time between two simulated ticks. */
+  tickIntervalMs: number;
+}
+
+/** The default configuration: a fixed seed and history from the start of 2024. */
+export const DEFAULT_SIMULATOR_CONFIG: MarketSimulatorConfig = {
+  seed: 8,
+  epoch: Date.UTC(2024, 0, 1),
+  coins: SIMULATED_COINS,
+  tickIntervalMs: 2000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+/** The resolution of the intraday paths. */
+const STEP_MS = 5 * 1000;
+const STEPS_PER_DAY = DAY_MS / STEP_MS;
+/** The number of points generated for a history or candle series. */
+const TARGET_POINT_COUNT = 150;
+const TARGET_CANDLE_COUNT = 60;
+/** How many intraday paths are kept in memory. */
+const MAX_CACHED_DAYS = 32;
+
+/** Fixed USD exchange rates for the simulated fiat quote currencies. */
+const FIAT_RATES: { [key in QuoteCurrency]?: number } = { usd: 1, eur: 0.92, gbp: 0.79, zar: 18.6 };
+
+let config: MarketSimulatorConfig = DEFAULT_SIMULATOR_CONFIG;
+const coinConfigs = new Map<string, SimulatedCoinConfig>();
+const dailyLogPrices = new Map<string, { values: number[]; next: () => number }>();
+const intradayPaths = new Map<string, Float64Array>();
+
+// --- Seeded Randomness ---
+
+/**
+ * Hashes a string to a 32-bit seed (FNV-1a).
+ * @param {string} value - The string to hash.
+ * @returns {number} The hash.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a seeded uniform random generator (mulberry32).
+ * @param {number} seed - The 32-bit seed.
+ * @returns {() => number} A function returning uniform numbers in [0, 1).
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Creates a seeded standard normal generator (Box-Muller).
+ * @param {string} key - Identifies the random stream, combined with the configured seed.
+ * @returns {() => number} A function returning standard normal samples.
+ */
+const createNormal = (key: string): (() => number) => {
+  const random = createRandom(hashString(`${config.seed}:${key}`));
+  return () => {
+    const u = 1 - random(); // (0, 1], so the logarithm is finite
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+};
+
+// --- Price Paths ---
+
+/**
+ * Returns the simulation parameters for a coin, deriving plausible ones for coins without explicit parameters.
+ * @param {CoinRef} coin - The coin to simulate.
+ * @returns {SimulatedCoinConfig} The coin's parameters.
+ */
+const getCoinConfig = (coin: CoinRef): SimulatedCoinConfig => {
+  let coinConfig = coinConfigs.get(coin.id);
+  if (!coinConfig) {
+    const random = createRandom(hashString(coin.id));
+    const initialPrice = 10 ** (random() * 5 - 2); // 0.01 to 1,000
+    coinConfig = {
+      id: coin.id,
+      symbol: coin.symbol ?? coin.id.replace(/[^a-z0-9]/gi, '').slice(0, 4).toLowerCase(),
+      name: coin.id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      image: '',
+      initialPrice,
+      drift: random() * 0.4 - 0.1,
+      volatility: 0.6 + random() * 0.6,
+      dailyVolume: 10 ** (6 + random() * 3),
+    };
+    coinConfigs.set(coin.id, coinConfig);
+  }
+  return coinConfig;
+};
+
+/**
+ * Returns the log price at the start of a day, extending the coin's daily random walk as needed.
+ * @param {SimulatedCoinConfig} coin - The coin's parameters.
+ * @param {number} day - The number of days since the epoch.
+ * @returns {number} The natural logarithm of the USD price.
+ */
+const getDailyLogPrice = (coin: SimulatedCoinConfig, day: number): number => {
+  let walk = dailyLogPrices.get(coin.id);
+  if (!walk) {
+    walk = { values: [Math.log(coin.initialPrice)], next: createNormal(`${coin.id}:daily`) };
+    dailyLogPrices.set(coin.id, walk);
+  }
+  const dt = DAY_MS / YEAR_MS;
+  while (walk.values.length <= day) {
+    const previous = walk.values[walk.values.length - 1];
+    const increment = (coin.drift - coin.volatility ** 2 / 2) * dt + coin.volatility * Math.sqrt(dt) * walk.next();
+    walk.values.push(previous + increment);
+  }
+  return walk.values[day];
+};
+
+/**
+ * Returns a day's intraday log prices: a Brownian bridge between the day's two anchors.
+ * @param {SimulatedCoinConfig} coin - The coin's parameters.
+ * @param {number} day - The number of days since the epoch.
+ * @returns {Float64Array} `STEPS_PER_DAY + 1` log prices, starting and ending at the daily anchors.
+ */
+const getIntradayPath = (coin: SimulatedCoinConfig, day: number): Float64Array => {
+  const key = `${coin.id}:${day}`;
+  const cached = intradayPaths.get(key);
+  if (cached) return cached;
+
+  const next = createNormal(key);
+  const walk = new Float64Array(STEPS_PER_DAY + 1);
+  for (let k = 1; k <= STEPS_PER_DAY; k++) walk[k] = walk[k - 1] + next();
+
+  const start = getDailyLogPrice(coin, day);
+  const end = getDailyLogPrice(coin, day + 1);
+  const stepVolatility = coin.volatility * Math.sqrt(STEP_MS / YEAR_MS);
+  const path = new Float64Array(STEPS_PER_DAY + 1);
+  for (let k = 0; k <= STEPS_PER_DAY; k++) {
+    const fraction = k / STEPS_PER_DAY;
+    path[k] = start + fraction * (end - start) + stepVolatility * (walk[k] - fraction * walk[STEPS_PER_DAY]);
+  }
+
+  if (intradayPaths.size >= MAX_CACHED_DAYS) intradayPaths.delete(intradayPaths.keys().next().value as string);
+  intradayPaths.set(key, path);
+  return path;
+};
+
+/**
+ * Returns a coin's simulated USD price at a point in time.
+ * @param {SimulatedCoinConfig} coin - The coin's parameters.
+ * @param {number} timestamp - The time in milliseconds; times before the epoch are clamped to it.
+ * @param {boolean} [coarse] - Interpolate between daily anchors instead of following the intraday path
+ *   (for series sampled a day or more apart, where intraday detail is invisible).
+ * @returns {number} The USD price.
+ */
+const getUsdPrice = (coin: SimulatedCoinConfig, timestamp: number, coarse = false): number => {
+  const elapsed = Math.max(0, timestamp - config.epoch);
+  const day = Math.floor(elapsed / DAY_MS);
+  const step = Math.floor((elapsed % DAY_MS) / STEP_MS);
+  if (step === 0) return Math.exp(getDailyLogPrice(coin, day));
+  if (coarse) {
+    const fraction = step / STEPS_PER_DAY;
+    return Math.exp(getDailyLogPrice(coin, day) * (1 - fraction) + getDailyLogPrice(coin, day + 1) * fraction);
+  }
+  return Math.exp(getIntradayPath(coin, day)[step]);
+};
+
+/**
+ * Returns how many units of a quote currency one USD buys at a point in time.
+ * @param {QuoteCurrency} currency - The quote currency.
+ * @param {number} timestamp - The time in milliseconds.
+ * @param {boolean} [coarse] - Whether to use coarse (daily) prices for crypto quote currencies.
+ * @returns {number} The exchange rate.
+ */
+const getUsdRate = (currency: QuoteCurrency, timestamp: number, coarse = false): number => {
+  const fiatRate = FIAT_RATES[currency];
+  if (fiatRate !== undefined) return fiatRate;
+  const quoteCoinId = currency === 'btc' ? 'bitcoin' : 'ethereum';
+  return 1 / getUsdPrice(getCoinConfig({ id: quoteCoinId }), timestamp, coarse);
+};
+
+/**
+ * Returns a coin's simulated price at a point in time, quoted in the given currency.
+ * @param {CoinRef} coin - The coin to price.
+ * @param {number} timestamp - The time in milliseconds.
+ * @param {QuoteCurrency} currency - The quote currency.
+ * @param {boolean} [coarse] - Whether to interpolate between daily anchors.
+ * @returns {number} The price.
+ */
+export const getSimulatedPrice = (coin: CoinRef, timestamp: number, currency: QuoteCurrency, coarse = false): number =>
+  getUsdPrice(getCoinConfig(coin), timestamp, coarse) * getUsdRate(currency, timestamp, coarse);
+
+/**
+ * Splits a range into evenly spaced sample times, aligned to `STEP_MS` and ending at the range's end.
+ * @param {number} from - The start of the range in milliseconds.
+ * @param {number} to - The end of the range in milliseconds.
+ * @param {number} count - The approximate number of samples.
+ * @returns {{ times: number[], interval: number }} The sample times, oldest first, and the spacing between them.
+ */
+const getSampleTimes = (from: number, to: number, count: number): { times: number[]; interval: number } => {
+  const start = Math.max(from, config.epoch);
+  const interval = Math.max(STEP_MS, Math.ceil((to - start) / count / STEP_MS) * STEP_MS);
+  const times: number[] = [];
+  for (let t = Math.ceil(start / STEP_MS) * STEP_MS; t < to; t += interval) times.push(t);
+  times.push(to);
+  return { times, interval };
+};
+
+// --- Provider API ---
+
+/**
+ * Generates market data for the given coins at the current time.
+ * @param {CoinRef[]} coins - The coins to generate data for.
+ * @param {QuoteCurrency} currency - The quote currency.
+ * @returns {CoinData[]} The simulated market data, in the requested order.
+ */
+export const getSimulatedMarkets = (coins: CoinRef[], currency: QuoteCurrency): CoinData[] => {
+  const now = Date.now();
+  return coins.map(coin => {
+    const { id, symbol, name, image } = getCoinConfig(coin);
+    const price = getSimulatedPrice(coin, now, currency);
+    const previous = getSimulatedPrice(coin, now - DAY_MS, currency);
+    return { id, symbol, name, image, current_price: price, price_change_percentage_24h: (price / previous - 1) * 100 };
+  });
+};
+
+/**
+ * Generates a coin's price history over a period.
+ * @param {CoinRef} coin - The coin.
+ * @param {ChartPeriod} period - The timeframe or custom range.
+ * @param {QuoteCurrency} currency - The quote currency.
+ * @returns {PriceDataPoint[]} About `TARGET_POINT_COUNT` points, oldest first.
+ */
+export const getSimulatedHistory = (coin: CoinRef, period: ChartPeriod, currency: QuoteCurrency): PriceDataPoint[] => {
+  const { from, to } = resolvePeriodRange(period);
+  const { times, interval } = getSampleTimes(from, to, TARGET_POINT_COUNT);
+  return times.map(timestamp => ({ timestamp, price: getSimulatedPrice(coin, timestamp, currency, interval >= DAY_MS) }));
+};
+
+/**
+ * Generates a coin's OHLC candles over a period, with volumes that grow with the size of each move.
+ * @param {CoinRef} coin - The coin.
+ * @param {ChartPeriod} period - The timeframe or custom range.
+ * @param {QuoteCurrency} currency - The quote currency.
+ * @returns {OhlcDataPoint[]} About `TARGET_CANDLE_COUNT` candles, oldest first.
+ */
+export const getSimulatedOhlc = (coin: CoinRef, period: ChartPeriod, currency: QuoteCurrency): OhlcDataPoint[] => {
+  const { from, to } = resolvePeriodRange(period);
+  const { times, interval } = getSampleTimes(from, to, TARGET_CANDLE_COUNT);
+  const coarse = interval >= DAY_MS;
+  const coinConfig = getCoinConfig(coin);
+  const samplesPerCandle = 12;
+  return times.slice(0, -1).map((timestamp, i) => {
+    const end = times[i + 1];
+    const prices: number[] = [];
+    for (let s = 0; s <= samplesPerCandle; s++) {
+      prices.push(getSimulatedPrice(coin, timestamp + ((end - timestamp) * s) / samplesPerCandle, currency, coarse));
+    }
+    const open = prices[0];
+    const close = prices[prices.length - 1];
+    const move = Math.abs(Math.log(close / open)) / (coinConfig.volatility * Math.sqrt((end - timestamp) / YEAR_MS));
+    const usdVolume = coinConfig.dailyVolume * ((end - timestamp) / DAY_MS) * (0.6 + 0.4 * move);
+    return {
+      timestamp,
+      open,
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      close,
+      volume: usdVolume * getUsdRate(currency, timestamp, coarse),
+    };
+  });
+};
+
+/** A local transport for the simulator: it makes no requests, so its circuit never opens. */
+const simulatorClient: HttpClient = {
+  fetchJson: async () => { throw new Error('The market simulator does not make HTTP requests.'); },
+  getCircuitState: () => ({ failureCount: 0, trippedUntil: 0 }),
+  isCircuitOpen: () => false,
+  resetCircuit: () => {},
+  getSchedulerMetrics: () => ({ queueDepth: 0, inFlight: 0, remainingBudget: Infinity, requestsPerMinute: null, coalescedCount: 0 }),
+  setRateLimit: () => {},
+  getDiagnostics: () => ({ name: 'Simulator', circuit: { failureCount: 0, trippedUntil: 0, isOpen: false, failureThreshold: 0 }, proxies: [] }),
+};
+
+/** A provider backed by the simulator, used in place of the real providers in simulation mode. */
+export const simulatorProvider: MarketDataProvider = {
+  id: 'simulator',
+  name: 'Simulator',
+  priority: Number.MAX_SAFE_INTEGER,
+  client: simulatorClient,
+  fetchMarkets: async (coins, currency) => getSimulatedMarkets(coins, currency),
+  fetchHistory: async (coin, period, currency) => getSimulatedHistory(coin, period, currency),
+  fetchOhlc: async (coin, period, currency) => getSimulatedOhlc(coin, period, currency),
+};
+
+/**
+ * Creates a stream of simulated ticks for the given coins, with the same interface as the WebSocket price stream.
+ * Each symbol ticks for the first coin that uses it, priced like the rest of the simulated market (coins without
+ * explicit parameters get derived ones).
+ * @param {CoinRef[]} coins - The coins to tick; coins without a symbol are left out.
+ * @param {PriceStreamHandlers} handlers - Callbacks for ticks and lifecycle events.
+ * @param {QuoteCurrency} currency - The currency ticks are quoted in.
+ * @returns {PriceStream} A handle to control the stream; `setSymbols` narrows it to some of its coins' symbols.
+ */
+export const createSimulatedPriceStream = (
+  coins: CoinRef[],
+  handlers: PriceStreamHandlers,
+  currency: QuoteCurrency
+): PriceStream => {
+  const coinsBySymbol = new Map<string, CoinRef>();
+  coins.forEach(coin => {
+    if (coin.symbol && !coinsBySymbol.has(coin.symbol)) coinsBySymbol.set(coin.symbol, coin);
+  });
+  let symbols = Array.from(coinsBySymbol.keys());
+  let isClosed = false;
+
+  const tick = () => {
+    const now = Date.now();
+    symbols.forEach(symbol => {
+      const coin = coinsBySymbol.get(symbol);
+      if (coin) handlers.onTick(symbol, getSimulatedPrice(coin, now, currency));
+    });
+  };
+  const intervalId = setInterval(tick, config.tickIntervalMs);
+  // Report the stream as open asynchronously, like a socket would.
+  setTimeout(() => {
+    if (isClosed) return;
+    handlers.onOpen();
+    tick();
+  }, 0);
+
+  return {
+    setSymbols: (nextSymbols) => { symbols = [...new Set(nextSymbols)]; },
+    close: () => {
+      isClosed = true;
+      clearInterval(intervalId);
+    },
+    isOpen: () => !isClosed,
+  };
+};
+
+/**
+ * Reconfigures the simulator, e.g. with another seed to get a different (but again reproducible) market.
+ * Previously generated paths are discarded.
+ * @param {Partial<MarketSimulatorConfig>} overrides - Settings to override; the rest are reset to the defaults.
+ */
+export const configureMarketSimulator = (overrides: Partial<MarketSimulatorConfig>) => {
+  config = { ...DEFAULT_SIMULATOR_CONFIG, ...overrides };
+  coinConfigs.clear();
+  dailyLogPrices.clear();
+  intradayPaths.clear();
+  config.coins.forEach(coin => coinConfigs.set(coin.id, coin));
+};
+
+configureMarketSimulator({});
@@ -1,31 +1,31 @@
 /**
  * @file This service is responsible for fetching the latest cryptocurrency news
- * from the CryptoCompare API. It shares a similar robust fetching architecture
- * with the `coingeckoService`, including proxy rotation, a circuit breaker,
+ * from the CryptoCompare API. It uses the same shared resilient transport
+ * (`httpClient`) as the `coingeckoService`, including proxy rotation, a circuit breaker,
  * and mock data fallbacks to ensure high availability.
  */
 
 import type { NewsArticle } from '../types';
+import { createHttpClient, CircuitOpenError, RateLimitedError } from './httpClient';
+import type { HttpClient } from './httpClient';
 
 const NEWS_API_BASE_URL = 'https://min-api.cryptocompare.com/data/v2/news/?lang=EN';
 
-/** A list of CORS proxy services to use for API requests. */
-const PROXIES = [
-  { name: 'AllOrigins', buildUrl: (target: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(target)}` },
-  { name: 'ThingProxy', buildUrl: (target: string) => `https://thingproxy.freeboard.io/fetch/${target}` },
-  { name: 'CORSProxy.io', buildUrl: (target: string) => `https://corsproxy.io/?${encodeURIComponent(target)}` },
-];
-let lastWorkingProxyIndex = 0;
-
-/** A map to temporarily blacklist failing proxies. */
-const proxyBlacklist = new Map<string, number>();
-const PROXY_BLACKLIST_DURATION_MS = 60 * 1000; // 1 minute
+/** The shared transport for CryptoCompare, with its own circuit breaker. */
+const newsClient = createHttpClient({
+  name: 'News',
+  inspectResponse: (data, proxyName) => {
+    if (data && (data.Type === 99 || data.Response === "Error" || (data.Message && data.Message.includes('rate limit')))) {
+      throw new RateLimitedError(`CryptoCompare API Error (via ${proxyName}): ${data.Message || 'Rate limit or error response'}`);
+    }
+  },
+});
 
-// --- Circuit Breaker State ---
-const FAILURE_THRESHOLD = 3;
-const CIRCUIT_TRIP_DURATION_MS = 2 * 60 * 1000; // 2 minutes
-let failureCount = 0;
-let circuitTrippedUntil = 0;
+/**
+ * Returns the news transport, e.g. for the diagnostics panel.
+ * @returns {HttpClient} The CryptoCompare client.
+ */
+export const getNewsClient = (): HttpClient => newsClient;
 
 // --- Connection Status & Subscription Logic ---
 export type NewsConnectionStatus = 'polling' | 'disconnected' | 'suspended';
@@ -42,7 +42,7 @@ let currentStatus: NewsConnectionStatus = 'polling';
 const notifyConnectionListeners = (status: NewsConnectionStatus) => {
   if (currentStatus !== status || status === 'suspended') {
     currentStatus = status;
-    const state: NewsConnectionState = { status, trippedUntil: circuitTrippedUntil };
+    const state: NewsConnectionState = { status, trippedUntil: newsClient.getCircuitState().trippedUntil };
     connectionListeners.forEach(listener => listener(state));
   }
 };
@@ -55,7 +55,7 @@ const notifyConnectionListeners = (status: NewsConnectionStatus) => {
 export const subscribeToNewsConnectionStatus = (listener: ConnectionListener): (() => void) => {
   connectionListeners.push(listener);
   // Immediately notify with current state upon subscription
-  listener({ status: currentStatus, trippedUntil: circuitTrippedUntil });
+  listener({ status: currentStatus, trippedUntil: newsClient.getCircuitState().trippedUntil });
   return () => {
     const index = connectionListeners.indexOf(listener);
     if (index > -1) connectionListeners.splice(index, 1);
@@ -83,104 +83,31 @@ const MOCK_NEWS_ARTICLES: NewsArticle[] = [
 ];
 
 /**
- * A robust fetch implementation that incorporates proxy rotation, retries, and a circuit breaker.
+ * Returns true if the given articles are the mock fallback rather than real news.
+ * @param {NewsArticle[]} articles - Articles returned by `fetchLatestNews`.
+ * @returns {boolean} Whether the articles are simulated.
+ */
+export const isMockNews = (articles: NewsArticle[]): boolean => articles === MOCK_NEWS_ARTICLES;
+
+/**
+ * Fetches a URL through the shared resilient transport and reports the outcome
+ * to the connection status listeners.
  * @param {string} url - The full URL to fetch.
- * @param {number} [retriesPerProxy=2] - The number of retry attempts for each proxy.
- * @throws {Error} If the circuit breaker is open or all proxies fail.
+ * @throws {CircuitOpenError | RateLimitedError | ProxyExhaustedError | HttpStatusError} If the request could not be completed.
  * @returns {Promise<any>} A promise that resolves with the JSON data from the API.
  */
-const fetchWithRetry = async (
-  url: string,
-  retriesPerProxy = 2
-): Promise<any> => {
-  if (Date.now() < circuitTrippedUntil) {
-    const timeLeft = Math.ceil((circuitTrippedUntil - Date.now()) / 1000);
-    notifyConnectionListeners('suspended');
-    throw new Error(`Circuit breaker is open. Retrying in ${timeLeft}s.`);
-  }
-
-  let lastError: Error | null = null;
-  
+const fetchWithRetry = async (url: string): Promise<any> => {
   try {
-    const availableProxies = PROXIES
-        .map((p, i) => ({ ...p, originalIndex: i }))
-        .sort((a, b) => a.originalIndex === lastWorkingProxyIndex ? -1 : 1)
-        .filter(proxy => {
-          const blacklistedUntil = proxyBlacklist.get(proxy.name);
-          if (blacklistedUntil && Date.now() < blacklistedUntil) {
-            console.log(`[News] Proxy ${proxy.name} is on cooldown. Skipping.`);
-            return false;
-          }
-          return true;
-        });
-
-    if (availableProxies.length === 0) {
-        throw new Error("All proxies are on cooldown. Please wait a moment before retrying.");
+    const data = await newsClient.fetchJson(url);
+    notifyConnectionListeners('polling');
+    return data;
+  } catch (error) {
+    if (error instanceof CircuitOpenError || newsClient.isCircuitOpen()) {
+      notifyConnectionListeners('suspended');
+    } else {
+      notifyConnectionListeners('disconnected');
     }
-
-    for (const proxy of availableProxies) {
-        const proxyUrl = proxy.buildUrl(url);
-        let proxyFailedCompletely = true;
-
-        console.log(`Attempting to fetch news via proxy: ${proxy.name}`);
-
-        for (let j = 0; j < retriesPerProxy; j++) {
-        try {
-            const response = await fetch(proxyUrl);
-            if (!response.ok) {
-              lastError = new Error(`Proxy ${proxy.name} returned status: ${response.status}`);
-              if ([401, 403, 404, 429].includes(response.status)) {
-                console.warn(`[News] Proxy ${proxy.name} failed with non-retriable status ${response.status}. Trying next proxy.`);
-                break;
-              }
-              throw lastError;
-            }
-            
-            let parsedData = await response.json();
-            if (parsedData && typeof parsedData === 'object' && 'contents' in parsedData) {
-                try { parsedData = JSON.parse(parsedData.contents); } catch (e) { parsedData = parsedData.contents; }
-            }
-            
-            if (parsedData.Type === 99 || parsedData.Response === "Error" || (parsedData.Message && parsedData.Message.includes('rate limit'))) {
-              lastError = new Error(`CryptoCompare API Error (via ${proxy.name}): ${parsedData.Message || 'Rate limit or error response'}`);
-              console.warn(`Rate limit detected in API response body from proxy ${proxy.name}. Trying next proxy.`);
-              break;
-            }
-            
-            lastWorkingProxyIndex = proxy.originalIndex;
-            proxyBlacklist.delete(proxy.name);
-            proxyFailedCompletely = false;
-            failureCount = 0;
-            circuitTrippedUntil = 0;
-            notifyConnectionListeners('polling');
-            console.log(`Successfully fetched news using proxy: ${proxy.name}`);
-            return parsedData;
-
-        } catch (error: any) {
-            lastError = error;
-            console.warn(`[News] Attempt ${j + 1}/${retriesPerProxy} with proxy ${proxy.name} failed:`, error.message);
-            if (j < retriesPerProxy - 1) await new Promise(resolve => setTimeout(resolve, 500 * (j + 1)));
-        }
-        }
-
-        if (proxyFailedCompletely) {
-            console.error(`All retries failed for proxy: ${proxy.name}. Placing it on cooldown for ${PROXY_BLACKLIST_DURATION_MS / 1000}s.`);
-            proxyBlacklist.set(proxy.name, Date.now() + PROXY_BLACKLIST_DURATION_MS);
-        }
-    }
-
-    throw lastError || new Error("All proxies failed for URL: " + url);
-  } catch(error: any) {
-      failureCount++;
-      if (failureCount >= FAILURE_THRESHOLD) {
-          circuitTrippedUntil = Date.now() + CIRCUIT_TRIP_DURATION_MS;
-          failureCount = 0;
-          notifyConnectionListeners('suspended');
-          console.error(`[News] Circuit breaker tripped for ${CIRCUIT_TRIP_DURATION_MS / 1000}s due to repeated failures.`);
-      } else {
-          notifyConnectionListeners('disconnected');
-      }
-      throw error;
+    throw error;
   }
 };
 
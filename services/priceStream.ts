@@ -0,0 +1,218 @@
+/**
+ * @file This module provides a streaming price transport over a Binance-style ticker WebSocket.
+ * It is used by the `coingeckoService` to push sub-second price ticks to subscribers, with:
+ * 1.  **Combined Streams:** A single socket carries the trade streams for every watched symbol.
+ * 2.  **Tick Throttling:** Ticks are coalesced per symbol so the UI is not flooded with updates.
+ * 3.  **Heartbeat:** A socket that goes silent for too long is treated as dead and recycled.
+ * 4.  **Reconnects:** Dropped sockets are reopened with exponential backoff until the attempts
+ *     are exhausted, at which point the owner is told the stream is down so it can fall back. A socket
+ *     only counts as connected once it delivers data, so one that opens but stays silent (e.g., for
+ *     pairs that rarely trade) uses up an attempt too.
+ *
+ * The endpoint is configurable so the stream can be exercised against a local mock WebSocket server
+ * that emits Binance combined-stream messages (`{ stream, data: { s, p } }`).
+ */
+
+/**
+ * Configuration for a price stream.
+ */
+export interface PriceStreamConfig {
+  /** The base URL of the combined-stream WebSocket endpoint. */
+  url: string;
+  /** The quote asset appended to each symbol to form a trading pair (e.g., 'usdt'). */
+  quoteAsset: string;
+  /** The stream type subscribed to for each pair (e.g., 'aggTrade'). */
+  streamType: string;
+  /** The minimum time between two ticks for the same symbol. */
+  tickThrottleMs: number;
+  /** The time without any message after which the socket is considered dead. */
+  heartbeatTimeoutMs: number;
+  /** The number of consecutive failed reconnects before the stream gives up. */
+  maxReconnectAttempts: number;
+  /** The base delay between reconnects; it doubles after each failed attempt. */
+  reconnectBaseDelayMs: number;
+}
+
+/** The default configuration, targeting Binance's public combined-stream endpoint. */
+export const DEFAULT_PRICE_STREAM_CONFIG: PriceStreamConfig = {
+  url: 'wss://stream.binance.com:9443/stream',
+  quoteAsset: 'usdt',
+  streamType: 'aggTrade',
+  tickThrottleMs: 250,
+  heartbeatTimeoutMs: 15 * 1000, // 15 seconds
+  maxReconnectAttempts: 3,
+  reconnectBaseDelayMs: 1000,
+};
+
+/**
+ * Callbacks through which a price stream reports to its owner.
+ */
+export interface PriceStreamHandlers {
+  /** Called with a lowercase base symbol (e.g., 'btc') and its latest price. */
+  onTick: (symbol: string, price: number) => void;
+  /** Called whenever the socket has opened and is receiving data. */
+  onOpen: () => void;
+  /** Called when a socket that was receiving data closes; it is reopened unless the stream gives up (see `onDown`). */
+  onDisconnect: (reason: string) => void;
+  /** Called once the stream has given up reconnecting. */
+  onDown: (reason: string) => void;
+}
+
+/**
+ * A handle to a running price stream.
+ */
+export interface PriceStream {
+  /** Replaces the set of subscribed symbols, reconnecting if it changed. */
+  setSymbols: (symbols: string[]) => void;
+  /** Closes the stream permanently. */
+  close: () => void;
+  /** Returns true if the socket is currently open and receiving data. */
+  isOpen: () => boolean;
+}
+
+/**
+ * Creates a price stream for the given symbols. The socket is opened immediately.
+ * @param {string[]} initialSymbols - Lowercase base symbols to subscribe to (e.g., ['btc', 'eth']).
+ * @param {PriceStreamHandlers} handlers - Callbacks for ticks and lifecycle events.
+ * @param {Partial<PriceStreamConfig>} [overrides] - Overrides for the default configuration.
+ * @returns {PriceStream} A handle to control the stream.
+ */
+export const createPriceStream = (
+  initialSymbols: string[],
+  handlers: PriceStreamHandlers,
+  overrides: Partial<PriceStreamConfig> = {}
+): PriceStream => {
+  const config: PriceStreamConfig = { ...DEFAULT_PRICE_STREAM_CONFIG, ...overrides };
+  let symbols = [...new Set(initialSymbols)].sort();
+  let socket: WebSocket | null = null;
+  let isClosed = false;
+  let reconnectAttempts = 0;
+  /** Whether the current socket has delivered any message yet. */
+  let isReceiving = false;
+  let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const lastTickAt = new Map<string, number>();
+  const pairSuffix = config.quoteAsset.toLowerCase();
+
+  /** Builds the combined-stream URL for the current symbols. */
+  const buildUrl = () => {
+    const streams = symbols.map(symbol => `${symbol}${pairSuffix}@${config.streamType}`).join('/');
+    return `${config.url}?streams=${streams}`;
+  };
+
+  /** Restarts the heartbeat timer; if it fires, the silent socket is recycled. */
+  const resetHeartbeat = () => {
+    if (heartbeatTimer) clearTimeout(heartbeatTimer);
+    heartbeatTimer = setTimeout(() => {
+      console.warn(`[PriceStream] No messages for ${config.heartbeatTimeoutMs / 1000}s. Recycling socket.`);
+      socket?.close();
+    }, config.heartbeatTimeoutMs);
+  };
+
+  /** Tears down the current socket without triggering a reconnect. */
+  const teardownSocket = () => {
+    if (heartbeatTimer) clearTimeout(heartbeatTimer);
+    heartbeatTimer = null;
+    isReceiving = false;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+      socket = null;
+    }
+  };
+
+  /**
+   * Parses a combined-stream message and forwards a throttled tick.
+   * @param {MessageEvent} event - The raw WebSocket message.
+   */
+  const handleMessage = (event: MessageEvent) => {
+    resetHeartbeat();
+    if (!isReceiving) {
+      isReceiving = true;
+      reconnectAttempts = 0;
+      handlers.onOpen();
+    }
+    try {
+      const message = JSON.parse(event.data);
+      const payload = message.data ?? message;
+      if (!payload || typeof payload.s !== 'string' || payload.p === undefined) return;
+
+      const pair = payload.s.toLowerCase();
+      if (!pair.endsWith(pairSuffix)) return;
+      const symbol = pair.slice(0, -pairSuffix.length);
+      const price = parseFloat(payload.p);
+      if (!isFinite(price)) return;
+
+      const now = Date.now();
+      if (now - (lastTickAt.get(symbol) ?? 0) < config.tickThrottleMs) return;
+      lastTickAt.set(symbol, now);
+      handlers.onTick(symbol, price);
+    } catch (error) {
+      console.warn('[PriceStream] Ignoring malformed message.', error);
+    }
+  };
+
+  /** Schedules a reconnect with exponential backoff, or reports the stream as down. */
+  const scheduleReconnect = (reason: string) => {
+    if (isClosed) return;
+    if (reconnectAttempts >= config.maxReconnectAttempts) {
+      console.warn(`[PriceStream] Giving up after ${reconnectAttempts} reconnect attempts.`);
+      handlers.onDown(reason);
+      return;
+    }
+    const delay = config.reconnectBaseDelayMs * 2 ** reconnectAttempts;
+    reconnectAttempts++;
+    console.log(`[PriceStream] ${reason} Reconnecting in ${delay / 1000}s (attempt ${reconnectAttempts}/${config.maxReconnectAttempts}).`);
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  /** Opens a socket for the current symbols. */
+  function connect() {
+    reconnectTimer = null;
+    teardownSocket();
+    if (isClosed || symbols.length === 0) return;
+
+    try {
+      socket = new WebSocket(buildUrl());
+    } catch (error: any) {
+      scheduleReconnect(`Failed to open socket: ${error.message}.`);
+      return;
+    }
+
+    // The socket is not reported as open before its first message, so a silent one is never relied on.
+    socket.onopen = resetHeartbeat;
+    socket.onmessage = handleMessage;
+    socket.onerror = () => {
+      console.warn('[PriceStream] Socket error.');
+    };
+    socket.onclose = (event) => {
+      const wasReceiving = isReceiving;
+      teardownSocket();
+      const reason = `Socket closed (code ${event.code}).`;
+      if (wasReceiving) handlers.onDisconnect(reason);
+      scheduleReconnect(reason);
+    };
+  }
+
+  connect();
+
+  return {
+    setSymbols: (nextSymbols: string[]) => {
+      const next = [...new Set(nextSymbols)].sort();
+      if (next.join(',') === symbols.join(',')) return;
+      symbols = next;
+      reconnectAttempts = 0;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      connect();
+    },
+    close: () => {
+      isClosed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      teardownSocket();
+    },
+    isOpen: () => isReceiving && socket?.readyState === WebSocket.OPEN,
+  };
+};
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * @file Unit tests for the request scheduler's token bucket, in particular changes to its rate limit.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequestScheduler } from './requestScheduler';
+
+/**
+ * Schedules `count` background requests that resolve with their index.
+ * @param {ReturnType<typeof createRequestScheduler>} scheduler - The scheduler to use.
+ * @param {number} count - The number of requests.
+ * @param {string} [prefix] - Prefixes the requests' keys, so batches are not coalesced with each other.
+ * @returns {Promise<number>[]} The requests' results.
+ */
+const scheduleMany = (scheduler: ReturnType<typeof createRequestScheduler>, count: number, prefix = 'request') =>
+  Array.from({ length: count }, (_, i) => scheduler.schedule(`${prefix}-${i}`, async () => i, 'background'));
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues requests once the burst is spent', () => {
+    const scheduler = createRequestScheduler({ requestsPerMinute: 60, burst: 2 });
+    scheduleMany(scheduler, 5);
+    expect(scheduler.getMetrics()).toMatchObject({ queueDepth: 3, remainingBudget: 0 });
+  });
+
+  it('starts every queued request when the rate limit is removed', async () => {
+    const scheduler = createRequestScheduler({ requestsPerMinute: 1, burst: 1 });
+    const requests = scheduleMany(scheduler, 4);
+    expect(scheduler.getMetrics().queueDepth).toBe(3);
+
+    scheduler.setRateLimit(null);
+
+    expect(scheduler.getMetrics()).toMatchObject({ queueDepth: 0, remainingBudget: Infinity, requestsPerMinute: null });
+    await expect(Promise.all(requests)).resolves.toEqual([0, 1, 2, 3]);
+    // Later requests start at once, too.
+    await expect(scheduler.schedule('later', async () => 'done')).resolves.toBe('done');
+  });
+
+  it('starts with a full bucket when a rate limit is added', () => {
+    const scheduler = createRequestScheduler(null);
+    scheduleMany(scheduler, 3);
+
+    scheduler.setRateLimit({ requestsPerMinute: 60, burst: 5 });
+
+    expect(scheduler.getMetrics()).toMatchObject({ remainingBudget: 5, requestsPerMinute: 60 });
+    scheduleMany(scheduler, 7, 'limited');
+    expect(scheduler.getMetrics()).toMatchObject({ queueDepth: 2, remainingBudget: 0 });
+  });
+
+  it('keeps the spent budget when one rate limit replaces another', () => {
+    const scheduler = createRequestScheduler({ requestsPerMinute: 60, burst: 4 });
+    scheduleMany(scheduler, 3);
+
+    scheduler.setRateLimit({ requestsPerMinute: 120, burst: 10 });
+
+    expect(scheduler.getMetrics().remainingBudget).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @file This module provides the request scheduler that sits in front of each HTTP client.
+ * It provides:
+ * 1.  **Request Coalescing:** Identical requests (by key, usually the URL) that are queued or in flight
+ *     share a single request and its result.
+ * 2.  **Token-Bucket Rate Limiting:** Requests spend tokens from a bucket that refills at the configured
+ *     requests-per-minute rate, so the API's quota is respected before it starts answering 429.
+ * 3.  **Priority Queue:** Requests that wait for a token are started in priority order, so loads the user
+ *     asked for (e.g., opening a chart) overtake background polls.
+ * 4.  **Metrics:** Queue depth, in-flight requests and the remaining budget can be read at any time.
+ */
+
+/** How urgent a request is. User-initiated requests are started before background ones. */
+export type RequestPriority = 'user' | 'background';
+
+/** Lower ranks are started first. */
+const PRIORITY_RANK: { [key in RequestPriority]: number } = { user: 0, background: 1 };
+
+/**
+ * The rate limit applied by a scheduler.
+ */
+export interface RateLimitConfig {
+  /** The sustained number of requests allowed per minute. */
+  requestsPerMinute: number;
+  /** The number of requests that may be made at once after an idle period; defaults to `requestsPerMinute`. */
+  burst?: number;
+}
+
+/**
+ * A snapshot of a scheduler's state.
+ */
+export interface SchedulerMetrics {
+  /** The number of requests waiting for a token. */
+  queueDepth: number;
+  /** The number of requests that have started and not yet settled. */
+  inFlight: number;
+  /** The number of requests that could start right now (whole tokens left in the bucket). */
+  remainingBudget: number;
+  /** The configured requests-per-minute rate, or null if the scheduler is not rate limited. */
+  requestsPerMinute: number | null;
+  /** The total number of requests that were served by joining an identical pending request. */
+  coalescedCount: number;
+}
+
+/**
+ * A scheduler that coalesces, rate limits and prioritises requests.
+ */
+export interface RequestScheduler {
+  /**
+   * Runs a request, sharing it with any identical pending request and waiting for a token if needed.
+   * @param {string} key - Identifies identical requests (e.g., the URL).
+   * @param {() => Promise<T>} task - Starts the request.
+   * @param {RequestPriority} [priority] - The request's priority; defaults to 'user'.
+   */
+  schedule: <T>(key: string, task: () => Promise<T>, priority?: RequestPriority) => Promise<T>;
+  /** Returns a snapshot of the scheduler's queue and budget. */
+  getMetrics: () => SchedulerMetrics;
+  /** Changes (or, with null, removes) the rate limit. Queued requests are re-evaluated at once. */
+  setRateLimit: (rateLimit: RateLimitConfig | null) => void;
+}
+
+/** A request waiting for a token. */
+interface QueuedRequest {
+  key: string;
+  priority: RequestPriority;
+  /** The order the request was queued in, so requests of equal priority stay first-in, first-out. */
+  sequence: number;
+  start: () => void;
+}
+
+/**
+ * Creates a request scheduler. Without a rate limit, requests start immediately and are only coalesced.
+ * @param {RateLimitConfig | null} [initialRateLimit] - The rate limit to apply, if any.
+ * @returns {RequestScheduler} The scheduler.
+ */
+export const createRequestScheduler = (initialRateLimit: RateLimitConfig | null = null): RequestScheduler => {
+  let rateLimit = initialRateLimit;
+  let capacity = rateLimit ? rateLimit.burst ?? rateLimit.requestsPerMinute : Infinity;
+  let tokens = capacity;
+  let lastRefillAt = Date.now();
+  let sequence = 0;
+  let inFlight = 0;
+  let coalescedCount = 0;
+  let drainTimer: ReturnType<typeof setTimeout> | null = null;
+  const queue: QueuedRequest[] = [];
+  const pending = new Map<string, Promise<unknown>>();
+
+  /** Adds the tokens earned since the last refill, up to the bucket's capacity. */
+  const refill = () => {
+    const now = Date.now();
+    if (rateLimit) {
+      tokens = Math.min(capacity, tokens + ((now - lastRefillAt) * rateLimit.requestsPerMinute) / 60000);
+    }
+    lastRefillAt = now;
+  };
+
+  /** Starts queued requests while tokens remain, and schedules the next attempt if any are left waiting. */
+  const drain = () => {
+    if (drainTimer) {
+      clearTimeout(drainTimer);
+      drainTimer = null;
+    }
+    refill();
+    while (queue.length > 0 && tokens >= 1) {
+      tokens -= 1;
+      queue.shift()!.start();
+    }
+    if (queue.length > 0 && rateLimit) {
+      const waitMs = ((1 - tokens) * 60000) / rateLimit.requestsPerMinute;
+      drainTimer = setTimeout(drain, Math.ceil(waitMs));
+    }
+  };
+
+  /**
+   * Inserts a request into the queue behind every request of the same or a higher priority.
+   * @param {QueuedRequest} request - The request to queue.
+   */
+  const enqueue = (request: QueuedRequest) => {
+    const index = queue.findIndex(queued =>
+      PRIORITY_RANK[queued.priority] > PRIORITY_RANK[request.priority]
+      || (queued.priority === request.priority && queued.sequence > request.sequence));
+    if (index === -1) queue.push(request);
+    else queue.splice(index, 0, request);
+  };
+
+  const schedule = <T>(key: string, task: () => Promise<T>, priority: RequestPriority = 'user'): Promise<T> => {
+    const existing = pending.get(key) as Promise<T> | undefined;
+    if (existing) {
+      coalescedCount++;
+      // A user waiting on a queued background request should not wait behind other background requests.
+      const queuedIndex = queue.findIndex(queued => queued.key === key);
+      if (queuedIndex !== -1 && PRIORITY_RANK[priority] < PRIORITY_RANK[queue[queuedIndex].priority]) {
+        const [queued] = queue.splice(queuedIndex, 1);
+        enqueue({ ...queued, priority });
+      }
+      return existing;
+    }
+
+    const request = new Promise<T>((resolve, reject) => {
+      enqueue({
+        key,
+        priority,
+        sequence: sequence++,
+        start: () => {
+          inFlight++;
+          task().then(resolve, reject).finally(() => { inFlight--; });
+        },
+      });
+    }).finally(() => pending.delete(key));
+    pending.set(key, request);
+    drain();
+    return request;
+  };
+
+  return {
+    schedule,
+    getMetrics: () => {
+      refill();
+      return {
+        queueDepth: queue.length,
+        inFlight,
+        remainingBudget: rateLimit ? Math.floor(tokens) : Infinity,
+        requestsPerMinute: rateLimit?.requestsPerMinute ?? null,
+        coalescedCount,
+      };
+    },
+    setRateLimit: (next) => {
+      refill();
+      const wasLimited = rateLimit !== null;
+      rateLimit = next;
+      capacity = rateLimit ? rateLimit.burst ?? rateLimit.requestsPerMinute : Infinity;
+      // Without a limit the bucket never empties, and a newly limited one starts full, like a new scheduler's.
+      tokens = rateLimit && wasLimited ? Math.min(tokens, capacity) : capacity;
+      drain();
+    },
+  };
+};
@@ -7,23 +7,121 @@
  * Represents a single data point for a price chart.
  */
 export interface PriceDataPoint {
-  /** The label for the x-axis (e.g., a timestamp or relative time). */
-  name: string;
+  /** The Unix timestamp (in milliseconds) of the sample; axis labels are derived from it when rendering. */
+  timestamp: number;
   /** The price value for the y-axis. */
   price: number;
 }
 
+/**
+ * Represents a single candle of open/high/low/close price data.
+ */
+export interface OhlcDataPoint {
+  /** The Unix timestamp (in milliseconds) at which the candle opened. */
+  timestamp: number;
+  /** The price at the start of the candle. */
+  open: number;
+  /** The highest price during the candle. */
+  high: number;
+  /** The lowest price during the candle. */
+  low: number;
+  /** The price at the end of the candle. */
+  close: number;
+  /** The traded volume (in the quote currency) around the candle, if the provider supplies it. */
+  volume?: number;
+}
+
+/**
+ * Defines how a price chart is rendered: a filled area over closing prices, OHLC candles with volume,
+ * or the performance of several coins compared on a shared percentage axis.
+ */
+export type ChartMode = 'area' | 'candles' | 'compare';
+
+/**
+ * A coin's price history plotted in a comparison chart.
+ */
+export interface ComparisonSeries {
+  /** The canonical coin ID (e.g., 'bitcoin'). */
+  coinId: string;
+  /** The label shown in the legend and tooltip (e.g., 'BTC'). */
+  label: string;
+  /** The coin's prices over the chart's period, oldest first. */
+  data: PriceDataPoint[];
+}
+
+/**
+ * Defines the tools for marking up a price chart: horizontal price levels, trend lines and rectangles.
+ */
+export type DrawingTool = 'level' | 'trendline' | 'rectangle';
+
+/**
+ * A shape the user has drawn on a coin's chart for a particular timeframe.
+ */
+export interface ChartDrawing {
+  /** A unique identifier for the drawing. */
+  id: string;
+  /** The kind of shape. */
+  type: DrawingTool;
+  /** The anchor points: one for a level, or the two ends (or opposite corners) of a trend line or rectangle. */
+  points: PriceDataPoint[];
+  /** The quote currency the prices are expressed in; drawings are only shown on charts in this currency. */
+  currency: QuoteCurrency;
+  /** The timestamp when the drawing was created. */
+  createdAt: number;
+}
+
+/**
+ * Defines the technical indicators that can be drawn on a price chart.
+ */
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd';
+
 /**
  * Defines the available timeframes for historical price charts.
+ * 'YTD' starts at the beginning of the current year and 'ALL' covers the coin's full history.
  */
-export type Timeframe = '1H' | '1D' | '1W' | '1M';
+export type Timeframe = '1H' | '1D' | '1W' | '1M' | '3M' | '1Y' | 'YTD' | 'ALL';
 
 /**
- * A dictionary mapping each timeframe to an array of price data points.
+ * Represents a custom time range for historical price charts.
  */
-export type PriceHistory = {
-  [key in Timeframe]: PriceDataPoint[];
-};
+export interface DateRange {
+  /** The Unix timestamp (in milliseconds) at which the range starts. */
+  from: number;
+  /** The Unix timestamp (in milliseconds) at which the range ends. */
+  to: number;
+}
+
+/**
+ * The period a price chart covers: either a preset timeframe or a custom date range.
+ */
+export type ChartPeriod = Timeframe | DateRange;
+
+/**
+ * Defines the currencies that prices can be quoted in, matching CoinGecko's `vs_currency` codes.
+ */
+export type QuoteCurrency = 'usd' | 'eur' | 'gbp' | 'zar' | 'btc' | 'eth';
+
+/**
+ * The parameters the market simulator uses to generate a coin's prices with geometric Brownian motion.
+ */
+export interface SimulatedCoinConfig {
+  /** The canonical coin ID (e.g., 'bitcoin'). */
+  id: string;
+  /** The coin's lowercase ticker symbol (e.g., 'btc'). */
+  symbol: string;
+  /** The full name of the coin (e.g., 'Bitcoin'). */
+  name: string;
+  /** A URL to an image/logo for the coin. */
+  image: string;
+  /** The USD price at the simulator's epoch. */
+  initialPrice: number;
+  /** The annualised drift (expected log return per year, before the volatility correction). */
+  drift: number;
+  /** The annualised volatility (standard deviation of log returns per year). */
+  volatility: number;
+  /** The typical USD volume traded per day. */
+  dailyVolume: number;
+}
 
 /**
  * Represents the core data for a cryptocurrency, fetched from an external API like CoinGecko.
@@ -37,10 +135,130 @@ export interface CoinData {
   name: string;
   /** A URL to an image/logo for the coin. */
   image: string;
-  /** The current market price in USD. */
+  /** The current market price in the selected quote currency. */
   current_price: number;
   /** The percentage change in price over the last 24 hours. */
   price_change_percentage_24h: number;
+  /** Where the data came from and how current it is; absent for live updates. */
+  freshness?: DataFreshness;
+}
+
+/**
+ * Represents a coin in the market overview's ranking, with the extra market-wide figures
+ * returned by CoinGecko's `/coins/markets` endpoint.
+ */
+export interface MarketCoin extends CoinData {
+  /** The coin's rank by market cap, or null if it is unranked. */
+  market_cap_rank: number | null;
+  /** The market cap in the selected quote currency, or null if unknown. */
+  market_cap: number | null;
+  /** The volume traded over the last 24 hours in the selected quote currency, or null if unknown. */
+  total_volume: number | null;
+  /** The percentage change in price over the last 7 days, or null if unknown. */
+  price_change_percentage_7d: number | null;
+  /** Hourly prices over the last 7 days, oldest first, for drawing a sparkline. */
+  sparkline: number[];
+}
+
+/**
+ * Market-wide figures from CoinGecko's `/global` endpoint, quoted in the selected currency.
+ */
+export interface GlobalMarketData {
+  /** The total market cap of all tracked coins. */
+  total_market_cap: number;
+  /** The total volume traded over the last 24 hours. */
+  total_volume: number;
+  /** The percentage change in the total market cap over the last 24 hours. */
+  market_cap_change_percentage_24h: number;
+  /** Bitcoin's share of the total market cap, as a percentage. */
+  btc_dominance: number;
+  /** Ethereum's share of the total market cap, as a percentage. */
+  eth_dominance: number;
+  /** The number of coins CoinGecko tracks. */
+  active_cryptocurrencies: number;
+}
+
+/**
+ * A coin's fundamentals from CoinGecko's `/coins/{id}` endpoint. Amounts are quoted in the
+ * selected currency; supplies are counted in units of the coin.
+ */
+export interface CoinDetails {
+  /** The canonical coin ID (e.g., 'bitcoin'). */
+  id: string;
+  /** The coin's ticker symbol (e.g., 'btc'). */
+  symbol: string;
+  /** The full name of the coin (e.g., 'Bitcoin'). */
+  name: string;
+  /** A URL to an image/logo for the coin. */
+  image: string;
+  /** The coin's rank by market cap, or null if it is unranked. */
+  market_cap_rank: number | null;
+  /** The market cap, or null if unknown. */
+  market_cap: number | null;
+  /** The market cap if the maximum (or total) supply were in circulation, or null if unknown. */
+  fully_diluted_valuation: number | null;
+  /** The volume traded over the last 24 hours, or null if unknown. */
+  total_volume: number | null;
+  /** The number of coins in circulation, or null if unknown. */
+  circulating_supply: number | null;
+  /** The number of coins in existence, or null if unknown. */
+  total_supply: number | null;
+  /** The most coins that will ever exist, or null if the supply is uncapped or unknown. */
+  max_supply: number | null;
+  /** The all-time high price, or null if unknown. */
+  ath: number | null;
+  /** The Unix timestamp (in milliseconds) of the all-time high, or null if unknown. */
+  ath_date: number | null;
+  /** The current price's percentage distance from the all-time high, or null if unknown. */
+  ath_change_percentage: number | null;
+  /** The all-time low price, or null if unknown. */
+  atl: number | null;
+  /** The Unix timestamp (in milliseconds) of the all-time low, or null if unknown. */
+  atl_date: number | null;
+  /** The current price's percentage distance from the all-time low, or null if unknown. */
+  atl_change_percentage: number | null;
+  /** The categories CoinGecko lists the coin under (e.g., 'Layer 1 (L1)'). */
+  categories: string[];
+  /** The project's links; empty values are omitted. */
+  links: {
+    homepage: string | null;
+    whitepaper: string | null;
+    explorers: string[];
+    github: string[];
+    twitter: string | null;
+    reddit: string | null;
+  };
+  /** The project's English description as plain text. */
+  description: string;
+}
+
+/**
+ * Describes where a piece of market data came from and how current it is, so the UI can label
+ * data that was not just fetched.
+ */
+export interface DataFreshness {
+  /** 'live' for a fresh network response, 'cache' for the local cache, 'mock' for simulated data. */
+  source: 'live' | 'cache' | 'mock';
+  /** When the data was fetched from the network, or null for mock data. */
+  fetchedAt: number | null;
+  /** Whether the data is older than its cache TTL (and a refresh is pending or failed). */
+  isStale: boolean;
+}
+
+/**
+ * Represents a single coin returned by a search or autocomplete lookup.
+ */
+export interface CoinSearchResult {
+  /** The canonical coin ID, matching `CoinData.id` (e.g., 'ethereum'). */
+  id: string;
+  /** The coin's ticker symbol (e.g., 'eth'). */
+  symbol: string;
+  /** The full name of the coin (e.g., 'Ethereum'). */
+  name: string;
+  /** An optional URL to a small thumbnail image of the coin's logo. */
+  thumb?: string;
+  /** The coin's market cap rank, if known. */
+  market_cap_rank?: number | null;
 }
 
 /**
@@ -56,6 +274,103 @@ export interface GroundingChunk {
   };
 }
 
+/**
+ * The direction of a coin's price trend, as judged by an analysis.
+ */
+export type TrendDirection = 'uptrend' | 'downtrend' | 'sideways';
+
+/**
+ * The time horizon an analysis applies to: days, weeks, or months and beyond.
+ */
+export type AnalysisHorizon = 'short' | 'medium' | 'long';
+
+/**
+ * A technical indicator's reading in a structured analysis.
+ */
+export interface IndicatorReading {
+  /** The indicator's name (e.g., 'RSI 14'). */
+  name: string;
+  /** The indicator's value as read by the AI (e.g., '62.4' or 'above the signal line'). */
+  value: string;
+  /** What the reading suggests for the price. */
+  signal: 'bullish' | 'bearish' | 'neutral';
+}
+
+/**
+ * A bullish or bearish scenario in a structured analysis.
+ */
+export interface AnalysisScenario {
+  /** What would have to happen, and what the AI expects to follow. */
+  summary: string;
+  /** The price the scenario points to, in the report's quote currency, or null if none was given. */
+  targetPrice: number | null;
+}
+
+/**
+ * A machine-readable market analysis, returned by the AI against a JSON response schema.
+ */
+export interface StructuredAnalysis {
+  /** A short overview of the analysis. */
+  summary: string;
+  /** The overall sentiment, from -100 (very bearish) to 100 (very bullish). */
+  sentimentScore: number;
+  /** The direction of the current trend. */
+  trend: TrendDirection;
+  /** Price levels where buying is expected to hold the price up, in the report's quote currency. */
+  supportLevels: number[];
+  /** Price levels where selling is expected to hold the price down, in the report's quote currency. */
+  resistanceLevels: number[];
+  /** The technical indicator readings the analysis is based on. */
+  indicators: IndicatorReading[];
+  /** The bullish scenario. */
+  bullCase: AnalysisScenario;
+  /** The bearish scenario. */
+  bearCase: AnalysisScenario;
+  /** How confident the AI is in its view, from 0 to 100. */
+  confidence: number;
+  /** The time horizon the analysis applies to. */
+  horizon: AnalysisHorizon;
+}
+
+/**
+ * A saved AI analysis of a coin. It holds a structured analysis when the AI returned valid JSON,
+ * and the Markdown essay it fell back to otherwise.
+ */
+export interface AnalysisReport {
+  /** A unique identifier for the report. */
+  id: string;
+  /** The ID of the analysed coin (e.g., 'bitcoin'). */
+  coinId: string;
+  /** The analysed coin's ticker symbol, for display. */
+  symbol: string;
+  /** The quote currency the report's prices are expressed in. */
+  currency: QuoteCurrency;
+  /** The timestamp when the report was generated. */
+  createdAt: number;
+  /** The structured analysis, or null if the AI's response could not be parsed. */
+  analysis: StructuredAnalysis | null;
+  /** The Markdown analysis used as a fallback, or null when the structured analysis succeeded. */
+  markdown: string | null;
+}
+
+/**
+ * Represents a tool the AI called while answering a message, executed in the browser.
+ */
+export interface ToolCall {
+  /** A unique identifier for the call. */
+  id: string;
+  /** The name of the tool (e.g., 'get_current_price'). */
+  name: string;
+  /** The arguments the AI called the tool with. */
+  args: Record<string, unknown>;
+  /** Whether the call is still running, succeeded or failed. */
+  status: 'running' | 'done' | 'error';
+  /** The result sent back to the AI, once the call has succeeded. */
+  result?: Record<string, unknown>;
+  /** The error message sent back to the AI, if the call failed. */
+  error?: string;
+}
+
 /**
  * Represents a single message in a chat session.
  */
@@ -68,6 +383,33 @@ export interface Message {
   sender: 'user' | 'ai';
   /** An optional array of web sources for AI messages grounded with web search. */
   sources?: GroundingChunk[];
+  /** The tools the AI called while writing this message, in call order. */
+  toolCalls?: ToolCall[];
+  /** Whether this is an error notice shown in place of a response; it is left out of the model's context. */
+  isError?: boolean;
+  /** Whether the user stopped this response before it was complete. */
+  isStopped?: boolean;
+  /**
+   * The ID of the message this one follows, or null if it starts the session. Siblings (e.g., a regenerated
+   * response or an edited question) fork the conversation into branches. Older messages have none and follow
+   * the message stored before them.
+   */
+  parentId?: string | null;
+}
+
+/**
+ * Identifies a large language model provider: Google Gemini, any OpenAI-compatible endpoint, or a local Ollama server.
+ */
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama';
+
+/**
+ * A model a chat session talks to, e.g. `{ provider: 'ollama', model: 'llama3.1' }`.
+ */
+export interface ChatModel {
+  /** The provider serving the model. */
+  provider: LLMProviderId;
+  /** The provider's name for the model. */
+  model: string;
 }
 
 /**
@@ -80,8 +422,12 @@ export interface Session {
   title: string;
   /** The timestamp when the session was created. */
   timestamp: number;
-  /** An array of all messages within the session. */
+  /** All messages of the session, on every branch, in the order they were added (see `chatBranches`). */
   messages: Message[];
+  /** The ID of the last message of the branch being shown; defaults to the last message added. */
+  activeMessageId?: string;
+  /** The model the session talks to; sessions saved before models could be picked use the default model. */
+  model?: ChatModel;
 }
 
 /**
@@ -108,6 +454,8 @@ export interface Alert {
   coinName: string;
   /** The target price that will trigger the alert. */
   targetPrice: number;
+  /** The quote currency the target price is expressed in; it is kept even if the app's currency changes. */
+  currency: QuoteCurrency;
   /** The timestamp when the alert was created. */
   createdAt: number;
 }
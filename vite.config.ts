@@ -6,7 +6,13 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODELS': JSON.stringify(env.OPENAI_MODELS),
+        'process.env.OLLAMA_BASE_URL': JSON.stringify(env.OLLAMA_BASE_URL),
+        'process.env.PRICE_STREAM_STUB_URL': JSON.stringify(env.PRICE_STREAM_STUB_URL),
+        'process.env.APP_MODE': JSON.stringify(mode)
       },
       resolve: {
         alias: {